@@ -1,8 +1,11 @@
 import OBR from "@owlbear-rodeo/sdk";
 import { META_KEY } from "../components/metadata";
+import { appendCombatLog, rosterEvents } from "../components/combatLog";
+import { withHistory } from "../components/history";
 
 export async function removeFromInitiative(id: string) {
-    await OBR.scene.items.updateItems([id], (items) => {
+    const [item] = await OBR.scene.items.getItems([id]);
+    await withHistory(`Remove ${item?.name || "combatant"}`, (tx) => tx.updateItems([id], (items) => {
         const it: any = items[0];
         const meta = (it.metadata ?? {})[META_KEY];
         if (meta) {
@@ -10,7 +13,10 @@ export async function removeFromInitiative(id: string) {
             meta.active = false;
             meta.groupId = null;      // Clear group association
             meta.initiative = 0;      // Reset initiative
+            meta.extraTurns = [];     // Its extra turns go with it
+            meta.activeSlot = 0;
             it.metadata = { ...(it.metadata ?? {}), [META_KEY]: { ...meta } };
         }
-    });
+    }));
+    if (item) await appendCombatLog(rosterEvents("removed", [item]));
 }
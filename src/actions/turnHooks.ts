@@ -0,0 +1,148 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { batchUpdateMeta, type MetaShape } from "../components/metadata";
+import type { HistoryTransaction } from "../components/history";
+import { tickEffects } from "../components/effects";
+import type { InitiativeItem } from "../components/InitiativeItem";
+import { appendCombatLog, type CombatLogEvent } from "../components/combatLog";
+import { deathSaveState, isDying, rollDeathSaveFor } from "../components/deathSaves";
+import { readRoomSettings } from "../components/SceneState";
+import { tickCountdown } from "../components/virtualEntries";
+import { rollRecharges } from "../components/recharge";
+
+/* ============================================================================
+   Turn Hooks - work that happens when one turn ends and the next begins
+   ============================================================================ */
+
+export type TurnTransition = {
+    /** Tokens whose turn just ended (empty when combat starts) */
+    endingIds: string[];
+    /** Tokens whose turn is starting */
+    startingIds: string[];
+    /** Virtual entry whose turn is starting (countdowns tick down) */
+    startingEntryId?: string | null;
+};
+
+/**
+ * Apply turn start/end bookkeeping: timed effects tick down and expired ones
+ * are removed with a notification, and dying PCs are reminded to (or
+ * automatically) roll their death save. Starting combatants get their action
+ * economy and legendary actions back, and their expended recharge abilities
+ * are rolled for. A countdown whose turn comes up ticks down and is announced
+ * when it runs out. Writes to OBR and mirrors the change locally,
+ * since the scene → UI sync keeps local values while an edit is in flight.
+ */
+export async function runTurnTransition(
+    items: Map<string, InitiativeItem>,
+    transition: TurnTransition,
+    setRows: React.Dispatch<React.SetStateAction<InitiativeItem[]>>,
+    tx: HistoryTransaction,
+): Promise<void> {
+    const ending = new Set(transition.endingIds);
+    const starting = new Set(transition.startingIds);
+    const isInInitiative = (id: string) => items.has(id);
+
+    const patches: { id: string; patch: Partial<MetaShape> }[] = [];
+    const events: CombatLogEvent[] = [];
+
+    for (const item of items.values()) {
+        const effects = item.effects ?? [];
+        if (effects.length === 0) continue;
+
+        const result = tickEffects(effects, item.id, ending, starting, isInInitiative);
+        if (!result.changed) continue;
+
+        patches.push({ id: item.id, patch: { effects: result.remaining } });
+        for (const effect of result.expired) {
+            const name = item.name || "Unnamed";
+            events.push({ kind: "effect", actorId: item.id, actorName: name, text: `${effect.name} has ended on ${name}` });
+        }
+    }
+
+    // Everything spent comes back at the start of the combatant's own turn
+    for (const id of transition.startingIds) {
+        const item = items.get(id);
+        if (item?.actionsUsed?.length) patches.push({ id, patch: { actionsUsed: [] } });
+        if (item?.legendaryActionsUsed) patches.push({ id, patch: { legendaryActionsUsed: 0 } });
+    }
+
+    // Expended recharge abilities roll at the start of the owner's turn; results go to the GM only
+    const recharges: CombatLogEvent[] = [];
+    for (const id of transition.startingIds) {
+        const item = items.get(id);
+        if (!item?.recharges?.some((ability) => ability.expended)) continue;
+
+        const result = rollRecharges(item.recharges);
+        patches.push({ id, patch: { recharges: result.abilities } });
+        const name = item.name || "Unnamed";
+        for (const { ability, roll, recharged } of result.rolls) {
+            const text = `${name}'s ${ability.name} ${recharged ? "recharged" : "did not recharge"} (rolled ${roll})`;
+            OBR.notification.show(text, recharged ? "SUCCESS" : "INFO");
+            recharges.push({ kind: "recharge", actorId: id, actorName: name, text });
+        }
+    }
+
+    const dying = transition.startingIds
+        .map(id => items.get(id))
+        .filter((item): item is InitiativeItem => !!item && isDying(item) && deathSaveState(item.deathSaves) === "dying");
+
+    if (dying.length > 0) {
+        const autoRoll = !!(await readRoomSettings())?.autoRollDeathSaves;
+        for (const item of dying) {
+            const name = item.name || "Unnamed";
+            if (!autoRoll) {
+                OBR.notification.show(`${name} is dying: roll a death save`, "WARNING");
+                continue;
+            }
+            const { patch, text } = rollDeathSaveFor(item);
+            patches.push({ id: item.id, patch });
+            events.push({ kind: "deathSave", actorId: item.id, actorName: name, text });
+        }
+    }
+
+    if (transition.startingEntryId) {
+        const finished = await tickCountdown(transition.startingEntryId);
+        if (finished) {
+            const text = `${finished.name} has run out`;
+            OBR.notification.show(text, "WARNING");
+            await appendCombatLog([{ kind: "turn", actorId: finished.id, actorName: finished.name, text }]);
+        }
+    }
+
+    if (patches.length === 0) return;
+
+    // An item can have an effects, action economy, recharge and death save patch
+    const patchesById = new Map<string, Partial<MetaShape>>();
+    for (const { id, patch } of patches) {
+        patchesById.set(id, { ...patchesById.get(id), ...patch });
+    }
+    await batchUpdateMeta(OBR, [...patchesById].map(([id, patch]) => ({ id, patch })), tx);
+
+    setRows(prev => prev.map(row => {
+        const patch = patchesById.get(row.id);
+        return patch ? { ...row, ...patch } : row;
+    }));
+
+    for (const event of events) {
+        OBR.notification.show(event.text, "INFO");
+    }
+    await appendCombatLog([...recharges, ...events]);
+}
+
+/** Legendary actions a combatant can still spend this round. */
+function legendaryActionsLeft(item: InitiativeItem): number {
+    return Math.max(0, (item.legendaryActions ?? 0) - (item.legendaryActionsUsed ?? 0));
+}
+
+/**
+ * Once another combatant's turn ends, remind the GM which bosses can still
+ * spend a legendary action. Bosses that are down or delaying are skipped.
+ */
+export function remindLegendaryActions(combatants: InitiativeItem[], endedIds: string[]): void {
+    const ended = new Set(endedIds);
+    for (const item of combatants) {
+        const left = legendaryActionsLeft(item);
+        if (left === 0 || ended.has(item.id) || item.delayed) continue;
+        if (item.maxHP > 0 && item.currentHP <= 0) continue;
+        OBR.notification.show(`${item.name || "Unnamed"} can take a legendary action (${left} left)`, "INFO");
+    }
+}
@@ -3,6 +3,8 @@ import { createMetaForItem, isMetadata, META_KEY, readMeta } from "../components
 import { getGroups } from "../components/SceneState";
 import type { InitiativeItem } from "../components/InitiativeItem";
 import type { CMToken } from "../components/tokens";
+import { appendCombatLog, rosterEvents } from "../components/combatLog";
+import { withHistory } from "../components/history";
 
 export function useAddAll(rows: InitiativeItem[], cmTokens: CMToken[]) {
     return async function handleAddAll(addHidden: boolean = true) {
@@ -17,7 +19,7 @@ export function useAddAll(rows: InitiativeItem[], cmTokens: CMToken[]) {
         const groups = await getGroups();
         const groupsById = new Map(groups.map(g => [g.id, g]));
 
-        await OBR.scene.items.updateItems(idsToAdd, (items) => {
+        await withHistory("Add all to BattleBoard", (tx) => tx.updateItems(idsToAdd, (items) => {
             for (const it of items) {
                 const current = (it.metadata as any)[META_KEY];
                 if (!isMetadata(current)) {
@@ -57,7 +59,7 @@ export function useAddAll(rows: InitiativeItem[], cmTokens: CMToken[]) {
                     (isImage(it) && (it as any).text?.plainText) || (it as any).name || current.name || "Unnamed";
                 current.name = displayName;
             }
-        });
+        }));
         for (const id of idsToAdd) {
             await OBR.broadcast.sendMessage(
                 "com.missing-link-dev.battle-board/item-added",
@@ -65,5 +67,6 @@ export function useAddAll(rows: InitiativeItem[], cmTokens: CMToken[]) {
                 { destination: "LOCAL" },
             );
         }
+        await appendCombatLog(rosterEvents("added", cmTokens.filter((t) => idsToAdd.includes(t.id))));
     };
 }
\ No newline at end of file
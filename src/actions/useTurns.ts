@@ -1,9 +1,21 @@
 import OBR from "@owlbear-rodeo/sdk";
-import { META_KEY, isMetadata } from "../components/metadata";
+import { META_KEY, isMetadata, batchUpdateMeta } from "../components/metadata";
 import { clearRings } from "../components/rings";
-import { setGroupActive, clearAllGroupsActive, getGroups } from "../components/SceneState";
+import { setGroupActive, clearAllGroupsActive, getGroups, readRoomSettings, DEFAULT_SETTINGS } from "../components/SceneState";
 import type { InitiativeItem } from "../components/InitiativeItem";
-import type { Group } from "../components/SceneState";
+import type { Group, InitiativeSettings } from "../components/SceneState";
+import { compareInitiative, initiativeBetween, type InitiativeOrderKey } from "../components/utils";
+import { remindLegendaryActions, runTurnTransition } from "./turnHooks";
+import { withHistory, type HistoryTransaction } from "../components/history";
+import { appendCombatLog, type CombatLogEvent } from "../components/combatLog";
+import { readVirtualEntries, setVirtualActed, setVirtualActive, type VirtualEntry } from "../components/virtualEntries";
+import { readSideInitiative, rollSideInitiative, sideOf, SIDE_LABELS, SIDES, type Side } from "../components/sides";
+import { cardOrderKey, dealInitiativeCards } from "../components/cards";
+import { rerollInitiative } from "../components/initiativeRolls";
+import { restartShotClock } from "../components/shotClock";
+import { deathSaveState, isDefeated, isDying } from "../components/deathSaves";
+import { skipTurnCondition } from "../components/conditions";
+import { actsInPass, passScore, readInitiativePass, setInitiativePass, DEFAULT_PASS_REDUCTION } from "../components/passes";
 
 /* ============================================================================
    Turn Cycling Lock - Prevents concurrent turn operations
@@ -74,17 +86,132 @@ type TurnItem = {
 } | {
     type: 'individual';
     itemId: string;
+    /** Extra turn: acts on extraTurns[slot - 1] instead of its own initiative */
+    slot?: number;
+} | {
+    type: 'virtual';
+    entry: VirtualEntry;
+} | {
+    type: 'side';
+    side: Side;
+    initiative: number;
+    memberIds: string[];
 };
 
+/** `cards`: card initiative, where tokens sort by the card they were dealt. */
+function turnOrderKey(turn: TurnItem, items: Map<string, InitiativeItem>, cards = false): InitiativeOrderKey {
+    if (turn.type === 'group') {
+        const key = { initiative: turn.group.initiative, name: turn.group.name };
+        return cards ? cardOrderKey({ ...key, initiativeCard: items.get(turn.memberIds[0])?.initiativeCard }) : key;
+    }
+    if (turn.type === 'virtual') return turn.entry;
+    if (turn.type === 'side') return { initiative: turn.initiative, name: SIDE_LABELS[turn.side] };
+    const item = items.get(turn.itemId);
+    if (cards && item && !turn.slot) return cardOrderKey(item);
+    const initiative = turn.slot ? item?.extraTurns?.[turn.slot - 1] : item?.initiative;
+    return { initiative: initiative || 0, name: item?.name };
+}
+
+function turnInitiative(turn: TurnItem, items: Map<string, InitiativeItem>): number {
+    return turnOrderKey(turn, items).initiative;
+}
+
+function turnMemberIds(turn: TurnItem | null | undefined): string[] {
+    if (!turn || turn.type === 'virtual') return [];
+    return turn.type === 'individual' ? [turn.itemId] : turn.memberIds;
+}
+
+/**
+ * Tokens whose turn starts or ends for effects and death saves. An extra turn
+ * doesn't count, so durations still tick once a round.
+ */
+function turnTransitionIds(turn: TurnItem | null | undefined): string[] {
+    return turn?.type === 'individual' && turn.slot ? [] : turnMemberIds(turn);
+}
+
+function turnEntryId(turn: TurnItem | null | undefined): string | null {
+    return turn?.type === 'virtual' ? turn.entry.id : null;
+}
+
+function turnActor(turn: TurnItem, items: Map<string, InitiativeItem>): { actorId: string; actorName: string } {
+    if (turn.type === 'side') return { actorId: turn.side, actorName: SIDE_LABELS[turn.side] };
+    const actorId = turn.type === 'group' ? turn.group.id : turn.type === 'virtual' ? turn.entry.id : turn.itemId;
+    const actorName = (turn.type === 'group' ? turn.group.name
+        : turn.type === 'virtual' ? turn.entry.name
+            : items.get(turn.itemId)?.name) || "Unnamed";
+    return { actorId, actorName };
+}
+
+function turnLogEvent(turn: TurnItem | null | undefined, items: Map<string, InitiativeItem>, prefix = ""): CombatLogEvent[] {
+    if (!turn) return [];
+    const actor = turnActor(turn, items);
+    const text = turn.type === 'side' ? `${prefix}${actor.actorName} act`
+        : turn.type === 'individual' && turn.slot ? `${prefix}${actor.actorName}'s extra turn`
+            : `${prefix}${actor.actorName}'s turn`;
+    return [{ kind: "turn", ...actor, text }];
+}
+
+/** Popcorn initiative: every token in the turn (or the entry) has acted this round. */
+function turnHasActed(turn: TurnItem, items: Map<string, InitiativeItem>): boolean {
+    if (turn.type === 'virtual') return !!turn.entry.acted;
+    const ids = turnMemberIds(turn);
+    return ids.length > 0 && ids.every(id => items.get(id)?.acted);
+}
+
+/**
+ * Why Next Turn passes over a turn, with the skip settings on: "defeated" when
+ * everyone in it is out of the fight, otherwise the condition stopping them
+ * (lower case). Dying PCs always get their turn for death saves. Null when the
+ * turn is taken; side turns and virtual entries never are.
+ */
+function turnSkipReason(turn: TurnItem, items: Map<string, InitiativeItem>, settings: InitiativeSettings): string | null {
+    if (turn.type !== 'individual' && turn.type !== 'group') return null;
+
+    const reasons = turnMemberIds(turn).map(id => {
+        const item = items.get(id);
+        if (!item) return null;
+        if (settings.skipDefeated && isDefeated(item)) return "defeated";
+        if (isDying(item) && deathSaveState(item.deathSaves) === "dying") return null;
+        const condition = settings.skipIncapacitated ? skipTurnCondition(item.conditions) : null;
+        return condition ? condition.toLowerCase() : null;
+    });
+    if (reasons.length === 0 || reasons.some(reason => reason === null)) return null;
+    return reasons.find(reason => reason !== "defeated") ?? "defeated";
+}
+
+/** The turn a token, group or virtual entry id belongs to. */
+function findTurnIndex(turnOrder: TurnItem[], id: string): number {
+    return turnOrder.findIndex(turn =>
+        turn.type === 'group' ? turn.group.id === id || turn.memberIds.includes(id)
+            : turn.type === 'virtual' ? turn.entry.id === id
+                : turnMemberIds(turn).includes(id)
+    );
+}
+
+function roundLogEvent(round: number): CombatLogEvent {
+    return { kind: "round", text: `Round ${round} begins` };
+}
+
+function passLogEvent(pass: number): CombatLogEvent {
+    return { kind: "round", text: `Pass ${pass} begins` };
+}
+
 // Single source of truth for getting current initiative state
 async function getCurrentInitiativeState(): Promise<{
     items: Map<string, InitiativeItem>;
     groups: Group[];
     turnOrder: TurnItem[];
     activeIndex: number;
+    settings: InitiativeSettings;
+    /** Initiative passes: the pass the round is in (always 1 in other modes) */
+    pass: number;
 }> {
     // Get fresh groups from scene state
     const groups = await getGroups();
+    const entries = await readVirtualEntries();
+    const settings = (await readRoomSettings()) ?? DEFAULT_SETTINGS;
+    const sides = settings.initiativeMode === "side" ? await readSideInitiative() : null;
+    const pass = settings.initiativeMode === "passes" ? await readInitiativePass() : 1;
 
     // Get fresh items from OBR
     const obrItems = await OBR.scene.items.getItems();
@@ -118,6 +245,29 @@ async function getCurrentInitiativeState(): Promise<{
                 rangeOpacity: meta.rangeOpacity,
                 dmPreview: meta.dmPreview,
                 inInitiative: meta.inInitiative,
+                delayed: meta.delayed ?? false,
+                readied: meta.readied ?? false,
+                acted: meta.acted ?? false,
+                extraTurns: meta.extraTurns ?? [],
+                activeSlot: meta.activeSlot ?? 0,
+                actionsUsed: meta.actionsUsed ?? [],
+                legendaryActions: meta.legendaryActions ?? 0,
+                legendaryActionsUsed: meta.legendaryActionsUsed ?? 0,
+                legendaryResistances: meta.legendaryResistances ?? 0,
+                legendaryResistancesUsed: meta.legendaryResistancesUsed ?? 0,
+                conditions: meta.conditions ?? [],
+                effects: meta.effects ?? [],
+                recharges: meta.recharges ?? [],
+                resistances: meta.resistances ?? [],
+                vulnerabilities: meta.vulnerabilities ?? [],
+                immunities: meta.immunities ?? [],
+                deathSaves: meta.deathSaves ?? null,
+                initiativeMod: meta.initiativeMod ?? 0,
+                initiativeRoundMod: meta.initiativeRoundMod ?? 0,
+                initiativeAdvantage: !!meta.initiativeAdvantage,
+                initiativeCard: meta.initiativeCard ?? null,
+                initiativeDraw: meta.initiativeDraw ?? 1,
+                initiativeQuick: !!meta.initiativeQuick,
             });
         }
     }
@@ -126,8 +276,24 @@ async function getCurrentInitiativeState(): Promise<{
     const turnOrder: TurnItem[] = [];
     const usedItemIds = new Set<string>();
 
-    // Add non-staged groups
-    for (const group of groups) {
+    // Side initiative: one entry per side holding all of its combatants
+    if (sides) {
+        const stagedGroupIds = new Set(groups.filter(g => g.staged).map(g => g.id));
+        const members: Record<Side, string[]> = { pcs: [], npcs: [] };
+        for (const [id, item] of items) {
+            if (item.delayed || (item.groupId && stagedGroupIds.has(item.groupId))) continue;
+            members[sideOf(item)].push(id);
+            usedItemIds.add(id);
+        }
+        for (const side of SIDES) {
+            if (members[side].length > 0) {
+                turnOrder.push({ type: 'side', side, initiative: sides[side], memberIds: members[side] });
+            }
+        }
+    }
+
+    // Add non-staged groups (side initiative has already placed their members)
+    for (const group of sides ? [] : groups) {
         if (!group.staged) {
             const memberIds: string[] = [];
             for (const [id, item] of items) {
@@ -146,31 +312,34 @@ async function getCurrentInitiativeState(): Promise<{
         }
     }
 
-    // Add ungrouped individuals
+    // Add ungrouped individuals and their extra turns (delayed combatants sit out until resumed)
     for (const [id, item] of items) {
-        if (!usedItemIds.has(id) && !item.groupId) {
+        if (!usedItemIds.has(id) && !item.groupId && !item.delayed) {
             turnOrder.push({
                 type: 'individual',
                 itemId: id
             });
+            item.extraTurns?.forEach((_, i) => turnOrder.push({ type: 'individual', itemId: id, slot: i + 1 }));
         }
     }
 
-    // Sort by initiative
-    turnOrder.sort((a, b) => {
-        const aInit = a.type === 'group' ? a.group.initiative : items.get(a.itemId)?.initiative || 0;
-        const bInit = b.type === 'group' ? b.group.initiative : items.get(b.itemId)?.initiative || 0;
-
-        const af = Math.floor(aInit);
-        const bf = Math.floor(bInit);
-
-        if (bf !== af) return bf - af;
-        if (aInit !== bInit) return aInit - bInit;
+    // Add token-less entries (lair actions, hazards, countdowns)
+    for (const entry of entries) {
+        turnOrder.push({ type: 'virtual', entry });
+    }
 
-        const aName = a.type === 'group' ? a.group.name : items.get(a.itemId)?.name || "";
-        const bName = b.type === 'group' ? b.group.name : items.get(b.itemId)?.name || "";
-        return aName.localeCompare(bName);
-    });
+    // Sort by initiative
+    const cards = settings.initiativeMode === "cards";
+    turnOrder.sort((a, b) => compareInitiative(turnOrderKey(a, items, cards), turnOrderKey(b, items, cards)));
+
+    // Initiative passes: later passes only hold scores still above zero (token-less entries act once a round)
+    if (pass > 1) {
+        const reduction = settings.passReduction ?? DEFAULT_PASS_REDUCTION;
+        const inPass = turnOrder.filter(turn =>
+            turn.type !== 'virtual' && actsInPass(turnInitiative(turn, items), pass, reduction)
+        );
+        turnOrder.splice(0, turnOrder.length, ...inPass);
+    }
 
     // Find current active index
     let activeIndex = -1;
@@ -181,29 +350,135 @@ async function getCurrentInitiativeState(): Promise<{
                 activeIndex = i;
                 break;
             }
+        } else if (turn.type === 'virtual') {
+            if (turn.entry.active) {
+                activeIndex = i;
+                break;
+            }
+        } else if (turn.type === 'side') {
+            if (turn.memberIds.some(id => items.get(id)?.active)) {
+                activeIndex = i;
+                break;
+            }
         } else {
             const item = items.get(turn.itemId);
-            if (item?.active) {
+            if (item?.active && (item.activeSlot ?? 0) === (turn.slot ?? 0)) {
                 activeIndex = i;
                 break;
             }
         }
     }
 
-    return { items, groups, turnOrder, activeIndex };
+    return { items, groups, turnOrder, activeIndex, settings, pass };
+}
+
+type InitiativeState = Awaited<ReturnType<typeof getCurrentInitiativeState>>;
+
+/** Initiative passes: the pass after this one still has someone above zero. */
+function hasAnotherPass(state: InitiativeState): boolean {
+    if (state.settings.initiativeMode !== "passes") return false;
+    const reduction = state.settings.passReduction ?? DEFAULT_PASS_REDUCTION;
+    return state.turnOrder.some(turn =>
+        turn.type !== 'virtual' && passScore(turnInitiative(turn, state.items), state.pass + 1, reduction) > 0
+    );
+}
+
+/** Initiative passes: the last pass of a round, from a first-pass state (which holds everyone). */
+function lastPass(state: InitiativeState): number {
+    const reduction = state.settings.passReduction ?? DEFAULT_PASS_REDUCTION;
+    if (state.settings.initiativeMode !== "passes" || reduction <= 0) return 1;
+    return Math.max(1, ...state.turnOrder
+        .filter(turn => turn.type !== 'virtual')
+        .map(turn => Math.ceil(turnInitiative(turn, state.items) / reduction)));
+}
+
+/** Everyone taking part in the fight: staged groups sit out. */
+function activeRows(state: InitiativeState): InitiativeItem[] {
+    const stagedGroupIds = new Set(state.groups.filter(g => g.staged).map(g => g.id));
+    return [...state.items.values()].filter(item => !item.groupId || !stagedGroupIds.has(item.groupId));
+}
+
+function mirrorPatches(
+    written: { id: string; patch: Partial<InitiativeItem> }[],
+    setRows: React.Dispatch<React.SetStateAction<InitiativeItem[]>>
+) {
+    const patches = new Map(written.map(({ id, patch }) => [id, patch]));
+    setRows(prev => prev.map(row => patches.has(row.id) ? { ...row, ...patches.get(row.id) } : row));
+}
+
+/** Card initiative: deal to everyone taking part and mirror the cards locally. */
+async function dealCards(
+    state: InitiativeState,
+    setRows: React.Dispatch<React.SetStateAction<InitiativeItem[]>>,
+    tx: HistoryTransaction,
+) {
+    mirrorPatches(await dealInitiativeCards(activeRows(state), "all", tx), setRows);
+}
+
+/**
+ * The round just wrapped: cards are dealt again, and with "reroll each round"
+ * on, everyone (or each side) rolls fresh initiative. Returns the order the
+ * new round runs in.
+ */
+async function rerollForNewRound(
+    state: InitiativeState,
+    setRows: React.Dispatch<React.SetStateAction<InitiativeItem[]>>,
+    tx: HistoryTransaction,
+): Promise<TurnItem[]> {
+    const mode = state.settings.initiativeMode;
+    if (mode === "cards") {
+        await dealCards(state, setRows, tx);
+    } else if (mode === "side" && state.settings.rerollEachRound) {
+        await rollSideInitiative(state.items.values());
+    } else if (((mode ?? "standard") === "standard" || mode === "passes") && state.settings.rerollEachRound) {
+        mirrorPatches(await rerollInitiative(activeRows(state), tx), setRows);
+    } else {
+        return state.turnOrder;
+    }
+    return (await getCurrentInitiativeState()).turnOrder;
+}
+
+/**
+ * Popcorn initiative: mark the turn that is starting as having acted. A new
+ * round wipes everyone else's flag first.
+ */
+async function markActed(
+    state: InitiativeState,
+    turn: TurnItem,
+    newRound: boolean,
+    setRows: React.Dispatch<React.SetStateAction<InitiativeItem[]>>,
+    tx: HistoryTransaction,
+) {
+    const acting = new Set(turnMemberIds(turn));
+    const changed = new Map<string, boolean>();
+    for (const item of state.items.values()) {
+        const acted = acting.has(item.id) || (!newRound && !!item.acted);
+        if (acted !== !!item.acted) changed.set(item.id, acted);
+    }
+
+    if (changed.size > 0) {
+        await batchUpdateMeta(OBR, [...changed].map(([id, acted]) => ({ id, patch: { acted } })), tx);
+        setRows(prev => prev.map(row => changed.has(row.id) ? { ...row, acted: changed.get(row.id) } : row));
+    }
+
+    const entryId = turnEntryId(turn);
+    await setVirtualActed(entry => entry.id === entryId || (!newRound && !!entry.acted));
 }
 
 // Single atomic update for setting active turn
 async function setActiveTurn(
     turnItem: TurnItem | null,
     allItemIds: string[],
-    setRows: React.Dispatch<React.SetStateAction<InitiativeItem[]>>
+    setRows: React.Dispatch<React.SetStateAction<InitiativeItem[]>>,
+    tx: HistoryTransaction,
 ) {
     // First, clear all groups' active state
-    await clearAllGroupsActive();
+    await clearAllGroupsActive(tx);
+    await setVirtualActive(turnEntryId(turnItem));
 
     // Prepare the OBR update - all items set to inactive first
     const updates: { [id: string]: boolean } = {};
+    const activeSlot = turnItem?.type === 'individual' ? turnItem.slot ?? 0 : 0;
     for (const id of allItemIds) {
         updates[id] = false;
     }
@@ -212,32 +487,53 @@ async function setActiveTurn(
     if (turnItem) {
         if (turnItem.type === 'group') {
             // Set group as active in scene state
-            await setGroupActive(turnItem.group.id, true);
+            await setGroupActive(turnItem.group.id, true, tx);
             // Mark all group members as active
             for (const memberId of turnItem.memberIds) {
                 updates[memberId] = true;
             }
         } else {
-            // Mark individual as active
-            updates[turnItem.itemId] = true;
+            // Mark the individual (or every member of a side) as active
+            for (const memberId of turnMemberIds(turnItem)) {
+                updates[memberId] = true;
+            }
         }
     }
 
     // Single atomic update to OBR
-    await OBR.scene.items.updateItems(allItemIds, (items) => {
+    // A readied action expires when its holder's next turn starts
+    const acting: { name: string; playerCharacter: boolean }[] = [];
+    await tx.updateItems(allItemIds, (items) => {
         for (const item of items) {
             const meta = (item.metadata as any)?.[META_KEY];
             if (meta) {
                 meta.active = updates[item.id] || false;
+                meta.activeSlot = meta.active ? activeSlot : 0;
+                if (meta.active) {
+                    meta.readied = false;
+                    acting.push({ name: meta.name || "Unnamed", playerCharacter: !!meta.playerCharacter });
+                }
             }
         }
     });
 
+    // The shot clock starts over for every turn (token-less entries aren't timed)
+    const tokenIds = allItemIds.filter(id => updates[id]);
+    await restartShotClock(tokenIds.length === 0 ? null : {
+        name: turnItem?.type === 'group' ? turnItem.group.name
+            : turnItem?.type === 'side' ? SIDE_LABELS[turnItem.side]
+                : acting[0]?.name ?? "Unnamed",
+        tokenIds,
+        playerCharacter: acting.some(a => a.playerCharacter),
+    });
+
     // Update local state to match
     // Ring updates will be handled by GMTable's effect watching the items array
     setRows(prev => prev.map(row => ({
         ...row,
-        active: updates[row.id] || false
+        active: updates[row.id] || false,
+        activeSlot: updates[row.id] ? activeSlot : 0,
+        readied: updates[row.id] ? false : row.readied,
     })));
 }
 
@@ -250,27 +546,53 @@ export function useTurns(
     saveSceneState: (started: boolean, round: number) => Promise<void>,
 ) {
     const handleStart = async () => {
-        await turnLock.executeExclusive(async (version) => {
+        await turnLock.executeExclusive((version) => withHistory("Start combat", async (tx) => {
             // Fetch state under lock
-            const state = await getCurrentInitiativeState();
+            let state = await getCurrentInitiativeState();
             if (state.turnOrder.length === 0) return;
 
+            // Each fight starts with a fresh side roll or deal
+            if (state.settings.initiativeMode === "side") {
+                await rollSideInitiative(state.items.values());
+                state = await getCurrentInitiativeState();
+            } else if (state.settings.initiativeMode === "cards") {
+                await dealCards(state, setRows, tx);
+                state = await getCurrentInitiativeState();
+            } else if (state.pass !== 1) {
+                await setInitiativePass(1);
+                state = await getCurrentInitiativeState();
+            }
+
             // Verify version is still current
             if (!turnLock.isVersionCurrent(version)) return;
 
             // Set first item as active
             const allItemIds = Array.from(state.items.keys());
-            await setActiveTurn(state.turnOrder[0], allItemIds, setRows);
+            await setActiveTurn(state.turnOrder[0], allItemIds, setRows, tx);
+            await runTurnTransition(state.items, {
+                endingIds: [],
+                startingIds: turnTransitionIds(state.turnOrder[0]),
+                startingEntryId: turnEntryId(state.turnOrder[0]),
+            }, setRows, tx);
+            if (state.settings.initiativeMode === "popcorn") {
+                await markActed(state, state.turnOrder[0], true, setRows, tx);
+            }
 
             // Update round and started state
             setRound(1);
             setStarted(true);
             await saveSceneState(true, 1);
-        });
+
+            await appendCombatLog([
+                { kind: "combat", text: "Combat started" },
+                roundLogEvent(1),
+                ...turnLogEvent(state.turnOrder[0], state.items),
+            ]);
+        }));
     };
 
     const handleEnd = async () => {
-        await turnLock.executeExclusive(async (version) => {
+        await turnLock.executeExclusive((version) => withHistory("End combat", async (tx) => {
             // Fetch state under lock
             const state = await getCurrentInitiativeState();
             const allItemIds = Array.from(state.items.keys());
@@ -279,55 +601,170 @@ export function useTurns(
             if (!turnLock.isVersionCurrent(version)) return;
 
             // Clear all active states
-            await setActiveTurn(null, allItemIds, setRows);
+            await setActiveTurn(null, allItemIds, setRows, tx);
+
+            // Delay/ready only make sense inside a fight
+            await batchUpdateMeta(OBR, allItemIds.map(id => ({
+                id,
+                patch: {
+                    delayed: false,
+                    readied: false,
+                    acted: false,
+                    initiativeCard: null,
+                    actionsUsed: [],
+                    legendaryActionsUsed: 0,
+                },
+            })), tx);
+            setRows(prev => prev.map(row => ({
+                ...row,
+                delayed: false,
+                readied: false,
+                acted: false,
+                initiativeCard: null,
+                actionsUsed: [],
+                legendaryActionsUsed: 0,
+            })));
+            await setVirtualActed(() => false);
+            if (state.pass !== 1) await setInitiativePass(1);
 
             // Clear rings and reset state
             await clearRings("normal");
+            await appendCombatLog([{ kind: "combat", text: `Combat ended after ${round} round${round === 1 ? "" : "s"}` }]);
             setRound(0);
             setStarted(false);
             await saveSceneState(false, 0);
-        });
+        }));
     };
 
-    const handleNext = async () => {
+    /**
+     * Move the turn on from state.activeIndex: past skipped turns, into the
+     * next pass or round (rerolling or dealing when the mode asks for it), and
+     * start the turn that comes up. `ending` is the turn that just finished,
+     * if any; its effects tick and legendary reminders follow it.
+     */
+    const advanceTurn = async (
+        state: InitiativeState,
+        tx: HistoryTransaction,
+        ending: TurnItem | null = state.turnOrder[state.activeIndex] ?? null,
+    ) => {
+        // Calculate next index
+        let nextIndex: number;
+        let shouldIncrementRound = false;
+
+        if (state.activeIndex === -1) {
+            nextIndex = 0;
+        } else {
+            nextIndex = (state.activeIndex + 1) % state.turnOrder.length;
+            shouldIncrementRound = (nextIndex === 0);
+        }
+
+        const skipReason = (turn: TurnItem) => turnSkipReason(turn, state.items, state.settings);
+        const skipped: TurnItem[] = [];
+
+        // Popcorn without a pick: the first in line who hasn't acted (and
+        // isn't skipped); the round ends once everyone has
+        const popcorn = state.settings.initiativeMode === "popcorn";
+        if (popcorn) {
+            const waiting = state.turnOrder.findIndex(turn => !turnHasActed(turn, state.items) && !skipReason(turn));
+            nextIndex = waiting === -1 ? 0 : waiting;
+            shouldIncrementRound = waiting === -1;
+        } else {
+            // Pass over the rest of this round's skipped turns
+            for (let n = 0; n < state.turnOrder.length && !shouldIncrementRound; n++) {
+                if (!skipReason(state.turnOrder[nextIndex])) break;
+                skipped.push(state.turnOrder[nextIndex]);
+                nextIndex = (nextIndex + 1) % state.turnOrder.length;
+                shouldIncrementRound = nextIndex === 0 && state.activeIndex !== -1;
+            }
+        }
+
+        // Initiative passes: anyone still above zero goes again before the round ends
+        const newPass = shouldIncrementRound && hasAnotherPass(state);
+        if (newPass) shouldIncrementRound = false;
+
+        let next = state;
+        if (newPass || (shouldIncrementRound && state.pass > 1)) {
+            await setInitiativePass(newPass ? state.pass + 1 : 1);
+            next = await getCurrentInitiativeState();
+        }
+        const order = shouldIncrementRound ? await rerollForNewRound(next, setRows, tx) : next.turnOrder;
+
+        // A new round or pass starts over; skip from the top of its order,
+        // but someone always gets the turn
+        if (!popcorn && (shouldIncrementRound || newPass)) {
+            while (nextIndex < order.length - 1 && skipReason(order[nextIndex])) {
+                skipped.push(order[nextIndex]);
+                nextIndex++;
+            }
+        }
+
+        // Creatures that can't act still have their turn start and end, so
+        // effects like "stunned until the end of its next turn" run out.
+        // When everyone was skipped, whoever ends up with the turn keeps it.
+        const chosenId = order[nextIndex] ? turnActor(order[nextIndex], state.items).actorId : null;
+        const incapacitated = skipped.filter(turn =>
+            skipReason(turn) !== "defeated" && turnActor(turn, state.items).actorId !== chosenId);
+        const skippedIds = [...new Set(incapacitated.flatMap(turn => turnTransitionIds(turn)))];
+
+        // Set the new active turn
+        const allItemIds = Array.from(state.items.keys());
+        await setActiveTurn(order[nextIndex], allItemIds, setRows, tx);
+        await runTurnTransition(state.items, {
+            endingIds: [...turnTransitionIds(ending), ...skippedIds],
+            startingIds: [...turnTransitionIds(order[nextIndex]), ...skippedIds],
+            startingEntryId: turnEntryId(order[nextIndex]),
+        }, setRows, tx);
+        for (const turn of incapacitated) {
+            OBR.notification.show(`${turnActor(turn, state.items).actorName} is ${skipReason(turn)}: turn skipped`, "INFO");
+        }
+        if (popcorn) {
+            await markActed(state, order[nextIndex], shouldIncrementRound, setRows, tx);
+        }
+
+        // Update round if we wrapped
+        if (shouldIncrementRound) {
+            const newRound = round + 1;
+            setRound(newRound);
+            await saveSceneState(true, newRound);
+        }
+
+        // Legendary actions are taken at the end of another creature's turn
+        const ended = turnMemberIds(ending);
+        if (state.settings.legendaryActionReminders && ended.length > 0) {
+            remindLegendaryActions(activeRows(state), ended);
+        }
+
+        await appendCombatLog([
+            ...(shouldIncrementRound ? [roundLogEvent(round + 1)] : []),
+            ...(newPass ? [passLogEvent(state.pass + 1)] : []),
+            ...incapacitated.map((turn): CombatLogEvent => {
+                const actor = turnActor(turn, state.items);
+                return { kind: "turn", ...actor, text: `${actor.actorName} is ${skipReason(turn)} and loses the turn` };
+            }),
+            ...turnLogEvent(order[nextIndex], state.items),
+        ]);
+    };
+
+    /** Pass `parent` to make the turn change part of a larger undo step. */
+    const handleNext = async (parent?: HistoryTransaction) => {
         if (!started) return;
 
-        await turnLock.executeExclusive(async (version) => {
+        await turnLock.executeExclusive((version) => withHistory("Next turn", async (tx) => {
             // Fetch state under lock
             const state = await getCurrentInitiativeState();
             if (state.turnOrder.length === 0) return;
 
-            // Calculate next index
-            let nextIndex: number;
-            let shouldIncrementRound = false;
-
-            if (state.activeIndex === -1) {
-                nextIndex = 0;
-            } else {
-                nextIndex = (state.activeIndex + 1) % state.turnOrder.length;
-                shouldIncrementRound = (nextIndex === 0);
-            }
-
             // Verify version before mutation
             if (!turnLock.isVersionCurrent(version)) return;
 
-            // Set the new active turn
-            const allItemIds = Array.from(state.items.keys());
-            await setActiveTurn(state.turnOrder[nextIndex], allItemIds, setRows);
-
-            // Update round if we wrapped
-            if (shouldIncrementRound) {
-                const newRound = round + 1;
-                setRound(newRound);
-                await saveSceneState(true, newRound);
-            }
-        });
+            await advanceTurn(state, tx);
+        }, parent));
     };
 
     const handlePrev = async () => {
         if (!started) return;
 
-        await turnLock.executeExclusive(async (version) => {
+        await turnLock.executeExclusive((version) => withHistory("Previous turn", async (tx) => {
             // Fetch state under lock
             const state = await getCurrentInitiativeState();
             if (state.turnOrder.length === 0) return;
@@ -348,9 +785,22 @@ export function useTurns(
             // Verify version before mutation
             if (!turnLock.isVersionCurrent(version)) return;
 
+            // Initiative passes: back into the previous pass, which from the
+            // first pass is the last one of the previous round
+            let order = state.turnOrder;
+            if (state.activeIndex === 0 && state.settings.initiativeMode === "passes" && (state.pass > 1 || round > 1)) {
+                const pass = state.pass > 1 ? state.pass - 1 : lastPass(state);
+                shouldDecrementRound = state.pass === 1;
+                if (pass !== state.pass) {
+                    await setInitiativePass(pass);
+                    order = (await getCurrentInitiativeState()).turnOrder;
+                    prevIndex = order.length - 1;
+                }
+            }
+
             // Set the new active turn
             const allItemIds = Array.from(state.items.keys());
-            await setActiveTurn(state.turnOrder[prevIndex], allItemIds, setRows);
+            await setActiveTurn(order[prevIndex], allItemIds, setRows, tx);
 
             // Update round if we wrapped backward
             if (shouldDecrementRound && round > 1) {
@@ -358,8 +808,152 @@ export function useTurns(
                 setRound(newRound);
                 await saveSceneState(true, newRound);
             }
-        });
+
+            await appendCombatLog(turnLogEvent(order[prevIndex], state.items, "Back to "));
+        }));
+    };
+
+    /**
+     * Popcorn initiative: pass the turn to a combatant who hasn't acted this
+     * round (a token, group or virtual entry id). Once everyone has acted, the
+     * pick starts a new round and anyone can be chosen.
+     */
+    const handleHandoff = async (targetId: string) => {
+        if (!started) return;
+
+        await turnLock.executeExclusive((version) => withHistory("Hand off turn", async (tx) => {
+            const state = await getCurrentInitiativeState();
+            const index = findTurnIndex(state.turnOrder, targetId);
+            if (index === -1) return;
+
+            const newRound = state.turnOrder.every(turn => turnHasActed(turn, state.items));
+            const target = state.turnOrder[index];
+            if (!newRound && turnHasActed(target, state.items)) return;
+
+            if (!turnLock.isVersionCurrent(version)) return;
+
+            const current = state.activeIndex !== -1 ? state.turnOrder[state.activeIndex] : null;
+            const allItemIds = Array.from(state.items.keys());
+            await setActiveTurn(target, allItemIds, setRows, tx);
+            await runTurnTransition(state.items, {
+                endingIds: turnTransitionIds(current),
+                startingIds: turnTransitionIds(target),
+                startingEntryId: turnEntryId(target),
+            }, setRows, tx);
+            await markActed(state, target, newRound, setRows, tx);
+
+            if (newRound) {
+                const nextRound = round + 1;
+                setRound(nextRound);
+                await saveSceneState(true, nextRound);
+            }
+
+            const actor = turnActor(target, state.items);
+            await appendCombatLog([
+                ...(newRound ? [roundLogEvent(round + 1)] : []),
+                {
+                    kind: "turn",
+                    ...actor,
+                    text: current
+                        ? `${turnActor(current, state.items).actorName} hands off to ${actor.actorName}`
+                        : `${actor.actorName}'s turn`,
+                },
+            ]);
+        }));
+    };
+
+    /**
+     * Take a combatant out of the turn order until it is resumed.
+     * Delaying the active combatant passes the turn to whoever is next.
+     * Grouped combatants and side initiative act as one turn, so they can't delay.
+     */
+    const handleDelay = async (id: string) => {
+        await turnLock.executeExclusive((version) => withHistory("Delay turn", async (tx) => {
+            const state = await getCurrentInitiativeState();
+            const name = state.items.get(id)?.name || "Unnamed";
+            // Any of the combatant's turns; the active one if it's acting now
+            const own = state.turnOrder.flatMap((t, i) => t.type === 'individual' && t.itemId === id ? [i] : []);
+            if (own.length === 0) {
+                const index = findTurnIndex(state.turnOrder, id);
+                if (index !== -1) {
+                    const shared = state.turnOrder[index].type === 'side' ? "its side's" : "its group's";
+                    OBR.notification.show(`${name} acts on ${shared} turn and can't delay`, "WARNING");
+                }
+                return;
+            }
+            const index = own.includes(state.activeIndex) ? state.activeIndex : own[0];
+
+            if (!turnLock.isVersionCurrent(version)) return;
+
+            const wasActive = started && index === state.activeIndex;
+            await batchUpdateMeta(OBR, [{ id, patch: { delayed: true, active: false } }], tx);
+            setRows(prev => prev.map(row => row.id === id ? { ...row, delayed: true, active: false } : row));
+
+            await appendCombatLog([{ kind: "turn", actorId: id, actorName: name, text: `${name} delays` }]);
+
+            if (!wasActive || own.length === state.turnOrder.length) return;
+
+            // Carry on from the turn before the delayer's, as if it had just
+            // ended: the order no longer holds the delayer's turns
+            const next = await getCurrentInitiativeState();
+            if (next.turnOrder.length === 0) return;
+            const before = state.turnOrder.slice(0, index).filter((_, i) => !own.includes(i)).length;
+            await advanceTurn({ ...next, activeIndex: before - 1 }, tx, null);
+        }));
+    };
+
+    /**
+     * Bring a delayed combatant back into the order, after the turn of
+     * `afterId` (a token, group or virtual entry id; the current turn when
+     * omitted). Resuming after the current turn means acting now. Outside
+     * combat it simply rejoins at its initiative. With card initiative a held
+     * card always interrupts: it acts now and keeps its card.
+     */
+    const handleResume = async (id: string, afterId?: string) => {
+        await turnLock.executeExclusive((version) => withHistory("Resume turn", async (tx) => {
+            const state = await getCurrentInitiativeState();
+            const active = state.activeIndex !== -1 ? state.turnOrder[state.activeIndex] : null;
+            const cards = state.settings.initiativeMode === "cards";
+            const afterIndex = afterId && !cards ? findTurnIndex(state.turnOrder, afterId) : state.activeIndex;
+
+            if (!turnLock.isVersionCurrent(version)) return;
+
+            if (!started || !active || afterIndex === -1) {
+                await batchUpdateMeta(OBR, [{ id, patch: { delayed: false } }], tx);
+                setRows(prev => prev.map(row => row.id === id ? { ...row, delayed: false } : row));
+                return;
+            }
+
+            const after = state.turnOrder[afterIndex];
+            const following = state.turnOrder[afterIndex + 1] ?? null;
+            const patch: Partial<InitiativeItem> = cards ? { delayed: false } : {
+                delayed: false,
+                initiative: initiativeBetween(
+                    turnInitiative(after, state.items),
+                    following ? turnInitiative(following, state.items) : null,
+                ),
+            };
+
+            await batchUpdateMeta(OBR, [{ id, patch }], tx);
+            setRows(prev => prev.map(row => row.id === id ? { ...row, ...patch } : row));
+
+            const name = state.items.get(id)?.name || "Unnamed";
+            if (afterIndex !== state.activeIndex) {
+                const afterName = turnActor(after, state.items).actorName;
+                await appendCombatLog([{ kind: "turn", actorId: id, actorName: name, text: `${name} will act after ${afterName}` }]);
+                return;
+            }
+
+            const allItemIds = Array.from(new Set([...state.items.keys(), id]));
+            await setActiveTurn({ type: 'individual', itemId: id }, allItemIds, setRows, tx);
+            await runTurnTransition(state.items, {
+                endingIds: turnTransitionIds(active),
+                startingIds: [id],
+            }, setRows, tx);
+
+            await appendCombatLog([{ kind: "turn", actorId: id, actorName: name, text: `${name} resumes their turn` }]);
+        }));
     };
 
-    return { handleStart, handleEnd, handleNext, handlePrev };
+    return { handleStart, handleEnd, handleNext, handlePrev, handleDelay, handleResume, handleHandoff };
 }
\ No newline at end of file
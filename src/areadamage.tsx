@@ -0,0 +1,16 @@
+import React from "react";
+import ReactDOM from "react-dom/client";
+import { PluginGate } from "./PluginGate";
+import { PluginThemeProvider } from "./PluginThemeProvider";
+import { AreaDamageModal } from "./components/AreaDamageModal";
+import "./styles/index.css";
+
+ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+        <PluginGate>
+            <PluginThemeProvider>
+                <AreaDamageModal />
+            </PluginThemeProvider>
+        </PluginGate>
+    </React.StrictMode>
+);
@@ -0,0 +1,51 @@
+import Box from "@mui/material/Box";
+import Tooltip from "@mui/material/Tooltip";
+import { ACTION_KINDS, ACTION_LABELS, toggleActionUsed, type ActionKind } from "./actionEconomy";
+
+type Props = {
+    used?: ActionKind[];
+    /** Omit for a read-only display */
+    onChange?: (used: ActionKind[]) => void;
+};
+
+/** Action / Bonus / Reaction / Movement pips; a used one is dimmed and struck through. */
+export default function ActionEconomyToggles({ used = [], onChange }: Props) {
+    return (
+        <Box sx={{ display: "inline-flex", gap: 0.25, flexShrink: 0 }} onClick={(e) => e.stopPropagation()}>
+            {ACTION_KINDS.map((kind) => {
+                const spent = used.includes(kind);
+                const { short, name } = ACTION_LABELS[kind];
+                return (
+                    <Tooltip key={kind} title={`${name}: ${spent ? "used" : "available"}`}>
+                        <Box
+                            component={onChange ? "button" : "span"}
+                            onClick={onChange ? () => onChange(toggleActionUsed(used, kind)) : undefined}
+                            aria-label={onChange ? `toggle ${name.toLowerCase()}` : undefined}
+                            aria-pressed={onChange ? spent : undefined}
+                            sx={{
+                                all: "unset",
+                                width: 14,
+                                height: 14,
+                                display: "inline-flex",
+                                alignItems: "center",
+                                justifyContent: "center",
+                                borderRadius: 0.5,
+                                border: 1,
+                                borderColor: spent ? "divider" : "success.main",
+                                color: spent ? "text.disabled" : "success.main",
+                                textDecoration: spent ? "line-through" : "none",
+                                fontSize: "0.6rem",
+                                fontWeight: 700,
+                                lineHeight: 1,
+                                cursor: onChange ? "pointer" : "default",
+                                userSelect: "none",
+                            }}
+                        >
+                            {short}
+                        </Box>
+                    </Tooltip>
+                );
+            })}
+        </Box>
+    );
+}
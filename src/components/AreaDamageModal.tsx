@@ -0,0 +1,270 @@
+import React from "react";
+import OBR from "@owlbear-rodeo/sdk";
+import Button from "@mui/material/Button";
+import Select from "@mui/material/Select";
+import MenuItem from "@mui/material/MenuItem";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Checkbox from "@mui/material/Checkbox";
+import TextField from "@mui/material/TextField";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Divider from "@mui/material/Divider";
+import Typography from "@mui/material/Typography";
+import ToggleButton from "@mui/material/ToggleButton";
+import ToggleButtonGroup from "@mui/material/ToggleButtonGroup";
+import { evaluateMath, type MathResult } from "./dice";
+import { DAMAGE_TYPES, splitDamageType, type DamageType } from "./damage";
+import {
+    SAVE_ABILITIES,
+    applyAreaDamage,
+    closeAreaDamage,
+    readPendingDamageTokens,
+    resolveTarget,
+    rollSave,
+    targetFromItem,
+    type AreaDamageOptions,
+    type AreaTarget,
+    type SaveAbility,
+    type SaveOutcome,
+} from "./areaDamage";
+
+const inputSx = {
+    "& .MuiOutlinedInput-root": { borderRadius: 0.5, fontSize: "0.8rem", height: 30 },
+};
+
+const selectSx = {
+    height: 30,
+    fontSize: "0.8rem",
+    "& .MuiSelect-select": { py: 0.25, pl: 1 },
+};
+
+export function AreaDamageModal() {
+    const [targets, setTargets] = React.useState<AreaTarget[]>([]);
+    const [expression, setExpression] = React.useState("");
+    const [damageType, setDamageType] = React.useState<DamageType | "">("");
+    const [roll, setRoll] = React.useState<MathResult | null>(null);
+    const [saveAbility, setSaveAbility] = React.useState<SaveAbility | "none">("DEX");
+    const [dc, setDc] = React.useState(15);
+    const [halfOnSuccess, setHalfOnSuccess] = React.useState(true);
+    const [critical, setCritical] = React.useState(false);
+    const [applying, setApplying] = React.useState(false);
+
+    // A snapshot for the preview; applying reads each token's HP again
+    React.useEffect(() => {
+        const init = async () => {
+            const ids = await readPendingDamageTokens();
+            if (ids.length === 0) return;
+            const items = await OBR.scene.items.getItems(ids);
+            setTargets(items.map(targetFromItem).filter((t): t is AreaTarget => t !== null));
+        };
+        init();
+    }, []);
+
+    // Roll the expression; a typed suffix ("8d6 fire") fills in the damage type
+    const rollDamage = (): MathResult | null => {
+        const { expr, type } = splitDamageType(expression);
+        const result = evaluateMath(expr.replace(/^\s*[+-]/, ""), 0);
+        setRoll(result);
+        if (type) setDamageType(type);
+        return result;
+    };
+
+    const options = (amount: number): AreaDamageOptions => ({
+        amount,
+        damageType: damageType || null,
+        save: saveAbility === "none" ? null : { ability: saveAbility, dc },
+        halfOnSuccess,
+        critical,
+    });
+
+    const updateTarget = (id: string, patch: Partial<AreaTarget>) => {
+        setTargets((prev) => prev.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+    };
+
+    const rollAllSaves = () => {
+        setTargets((prev) => prev.map((t) => rollSave(t, dc)));
+    };
+
+    const handleApply = async () => {
+        const result = roll ?? rollDamage();
+        if (!result || targets.length === 0) return;
+        setApplying(true);
+        try {
+            const amount = Math.max(0, result.amount);
+            const label = `${expression.trim() || amount} ${damageType || ""}`.trim();
+            await applyAreaDamage(targets, options(amount), `Area damage: ${label} = ${amount}`);
+            await closeAreaDamage();
+        } catch (error) {
+            console.error("Failed to apply area damage:", error);
+            OBR.notification.show("Failed to apply damage", "ERROR");
+            setApplying(false);
+        }
+    };
+
+    const amount = roll ? Math.max(0, roll.amount) : null;
+    const preview = amount !== null ? options(amount) : null;
+    const needsSave = saveAbility !== "none";
+    const undecided = needsSave && targets.some((t) => t.outcome === null);
+
+    return (
+        <Box sx={{ p: 2, display: "flex", flexDirection: "column", height: "100%", boxSizing: "border-box" }}>
+            <Typography variant="h6" sx={{ textAlign: "center", fontSize: "1rem", fontWeight: 600, mb: 1.5 }}>
+                Apply Damage to Selection
+            </Typography>
+
+            {/* Damage */}
+            <Stack direction="row" spacing={1} alignItems="center">
+                <TextField
+                    autoFocus
+                    size="small"
+                    placeholder="8d6 fire"
+                    value={expression}
+                    onChange={(e) => {
+                        setExpression(e.target.value);
+                        setRoll(null);
+                    }}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                            e.preventDefault();
+                            rollDamage();
+                        }
+                    }}
+                    sx={{ ...inputSx, flex: 1 }}
+                />
+                <Select
+                    size="small"
+                    value={damageType}
+                    displayEmpty
+                    onChange={(e) => setDamageType(e.target.value as DamageType | "")}
+                    sx={{ ...selectSx, width: 120 }}
+                    MenuProps={{ disableScrollLock: true }}
+                >
+                    <MenuItem value="" sx={{ fontSize: "0.8rem" }}><em>Untyped</em></MenuItem>
+                    {DAMAGE_TYPES.map((t) => (
+                        <MenuItem key={t} value={t} sx={{ fontSize: "0.8rem" }}>{t}</MenuItem>
+                    ))}
+                </Select>
+                <FormControlLabel
+                    control={<Checkbox size="small" checked={critical} onChange={(e) => setCritical(e.target.checked)} />}
+                    label={<Typography sx={{ fontSize: "0.8rem" }}>Crit</Typography>}
+                    sx={{ mr: 0 }}
+                />
+                <Button size="small" variant="outlined" onClick={rollDamage} disabled={!expression.trim()}>
+                    Roll
+                </Button>
+            </Stack>
+            <Typography sx={{ fontSize: "0.75rem", color: "text.secondary", minHeight: 18, mt: 0.5 }}>
+                {roll ? roll.breakdown : expression.trim() ? "Press Roll (or Apply) to roll the damage." : ""}
+            </Typography>
+
+            {/* Save */}
+            <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 0.5 }}>
+                <Select
+                    size="small"
+                    value={saveAbility}
+                    onChange={(e) => setSaveAbility(e.target.value as SaveAbility | "none")}
+                    sx={{ ...selectSx, width: 96 }}
+                    MenuProps={{ disableScrollLock: true }}
+                >
+                    <MenuItem value="none" sx={{ fontSize: "0.8rem" }}>No save</MenuItem>
+                    {SAVE_ABILITIES.map((a) => (
+                        <MenuItem key={a} value={a} sx={{ fontSize: "0.8rem" }}>{a} save</MenuItem>
+                    ))}
+                </Select>
+                <TextField
+                    size="small"
+                    label="DC"
+                    type="number"
+                    value={dc}
+                    disabled={!needsSave}
+                    onChange={(e) => setDc(Number(e.target.value) || 0)}
+                    sx={{ ...inputSx, width: 72 }}
+                />
+                <FormControlLabel
+                    control={
+                        <Checkbox
+                            size="small"
+                            checked={halfOnSuccess}
+                            disabled={!needsSave}
+                            onChange={(e) => setHalfOnSuccess(e.target.checked)}
+                        />
+                    }
+                    label={<Typography sx={{ fontSize: "0.8rem" }}>Half on success</Typography>}
+                    sx={{ flex: 1, mr: 0 }}
+                />
+                <Button size="small" onClick={rollAllSaves} disabled={!needsSave || targets.length === 0}>
+                    Roll saves
+                </Button>
+            </Stack>
+
+            <Divider sx={{ my: 1 }} />
+
+            {/* Targets */}
+            <Box sx={{ flex: 1, overflowY: "auto", minHeight: 0 }}>
+                {targets.length === 0 ? (
+                    <Typography sx={{ fontSize: "0.8rem", color: "text.secondary", textAlign: "center", py: 2 }}>
+                        Select Battle Board tokens on the map first.
+                    </Typography>
+                ) : (
+                    targets.map((t) => {
+                        const result = preview ? resolveTarget(t, preview) : null;
+                        return (
+                            <Stack key={t.id} direction="row" spacing={1} alignItems="center" sx={{ py: 0.5 }}>
+                                <Box sx={{ flex: 1, minWidth: 0 }}>
+                                    <Typography noWrap sx={{ fontSize: "0.85rem", fontWeight: 600 }}>{t.name}</Typography>
+                                    <Typography sx={{ fontSize: "0.7rem", color: "text.secondary" }}>
+                                        {t.currentHP}/{t.maxHP} HP{t.tempHP ? ` +${t.tempHP}` : ""}
+                                        {result ? ` → ${result.next.currentHP}${result.next.tempHP ? ` +${result.next.tempHP}` : ""} (−${result.damage})` : ""}
+                                    </Typography>
+                                </Box>
+                                {needsSave && (
+                                    <>
+                                        <TextField
+                                            size="small"
+                                            label="Bonus"
+                                            type="number"
+                                            value={t.saveBonus}
+                                            onChange={(e) => updateTarget(t.id, { saveBonus: Number(e.target.value) || 0 })}
+                                            sx={{ ...inputSx, width: 64 }}
+                                        />
+                                        <Typography sx={{ fontSize: "0.75rem", width: 22, textAlign: "center", color: "text.secondary" }}>
+                                            {t.saveRoll ?? ""}
+                                        </Typography>
+                                        <ToggleButtonGroup
+                                            size="small"
+                                            exclusive
+                                            value={t.outcome}
+                                            onChange={(_, v: SaveOutcome | null) => updateTarget(t.id, { outcome: v, saveRoll: null })}
+                                        >
+                                            <ToggleButton value="pass" color="success" sx={{ py: 0.25, fontSize: "0.7rem" }}>Pass</ToggleButton>
+                                            <ToggleButton value="fail" color="error" sx={{ py: 0.25, fontSize: "0.7rem" }}>Fail</ToggleButton>
+                                        </ToggleButtonGroup>
+                                    </>
+                                )}
+                            </Stack>
+                        );
+                    })
+                )}
+            </Box>
+
+            <Box sx={{ display: "flex", justifyContent: "flex-end", alignItems: "center", gap: 1, mt: 1.5 }}>
+                {undecided && (
+                    <Typography sx={{ fontSize: "0.7rem", color: "text.secondary", flex: 1 }}>
+                        Unmarked saves count as failed.
+                    </Typography>
+                )}
+                <Button onClick={closeAreaDamage} size="small">
+                    Cancel
+                </Button>
+                <Button
+                    onClick={handleApply}
+                    variant="contained"
+                    size="small"
+                    disabled={applying || targets.length === 0 || !expression.trim()}
+                >
+                    Apply
+                </Button>
+            </Box>
+        </Box>
+    );
+}
@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import Box from "@mui/material/Box";
+import Paper from "@mui/material/Paper";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import IconButton from "@mui/material/IconButton";
+import Divider from "@mui/material/Divider";
+import Select from "@mui/material/Select";
+import MenuItem from "@mui/material/MenuItem";
+import Button from "@mui/material/Button";
+import Tooltip from "@mui/material/Tooltip";
+import ArrowBackRounded from "@mui/icons-material/ArrowBackRounded";
+import DeleteSweepRounded from "@mui/icons-material/DeleteSweepRounded";
+
+import { useCombatLog } from "../hooks/useCombatLog";
+import {
+    clearCombatLog,
+    combatLogToJSON,
+    combatLogToMarkdown,
+    downloadText,
+    type CombatLogKind,
+} from "./combatLog";
+
+type Props = {
+    onBack: () => void;
+    active: boolean;
+};
+
+const KIND_COLORS: Partial<Record<CombatLogKind, string>> = {
+    damage: "error.main",
+    healing: "success.main",
+    tempHP: "info.main",
+    round: "text.primary",
+    combat: "text.primary",
+};
+
+/**
+ * GM combat log: newest first, filterable by combatant, exportable for recaps.
+ */
+export default function CombatLogView({ onBack, active }: Props) {
+    const log = useCombatLog(active);
+    const [actorFilter, setActorFilter] = useState<string>("all");
+
+    // Everyone who appears in the log, including combatants that have since left
+    const actors = useMemo(() => {
+        const byId = new Map<string, string>();
+        for (const entry of log) {
+            if (entry.actorId) byId.set(entry.actorId, entry.actorName || "Unnamed");
+        }
+        return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+    }, [log]);
+
+    const filtered = useMemo(() => {
+        const list = actorFilter === "all" ? log : log.filter((e) => e.actorId === actorFilter);
+        return [...list].reverse();
+    }, [log, actorFilter]);
+
+    const exportName = (ext: string) => `combat-log-${new Date().toISOString().slice(0, 10)}.${ext}`;
+    const exportSource = actorFilter === "all" ? log : log.filter((e) => e.actorId === actorFilter);
+
+    return (
+        <Paper sx={{ borderRadius: 0, overflowX: "hidden", display: "flex", flexDirection: "column", height: "100%" }}>
+            {/* Header */}
+            <Box sx={{ px: 1, py: 0.75, display: "flex", alignItems: "center", gap: 1 }}>
+                <IconButton size="small" onClick={onBack}>
+                    <ArrowBackRounded />
+                </IconButton>
+                <Typography variant="subtitle1" sx={{ fontWeight: 700, fontSize: "0.95rem", flex: 1 }}>
+                    Combat Log
+                </Typography>
+                <Tooltip title="Clear log">
+                    <span>
+                        <IconButton size="small" onClick={() => clearCombatLog()} disabled={log.length === 0}>
+                            <DeleteSweepRounded fontSize="small" />
+                        </IconButton>
+                    </span>
+                </Tooltip>
+            </Box>
+            <Divider />
+
+            {/* Toolbar */}
+            <Stack direction="row" spacing={1} alignItems="center" sx={{ px: 1, py: 0.75 }}>
+                <Select
+                    size="small"
+                    value={actorFilter}
+                    onChange={(e) => setActorFilter(e.target.value)}
+                    sx={{ flex: 1, minWidth: 0, height: 30, fontSize: "0.8rem" }}
+                    MenuProps={{ disableScrollLock: true }}
+                >
+                    <MenuItem value="all" sx={{ fontSize: "0.8rem" }}>All combatants</MenuItem>
+                    {actors.map((a) => (
+                        <MenuItem key={a.id} value={a.id} sx={{ fontSize: "0.8rem" }}>{a.name}</MenuItem>
+                    ))}
+                </Select>
+                <Button
+                    size="small"
+                    variant="outlined"
+                    disabled={exportSource.length === 0}
+                    onClick={() => downloadText(exportName("md"), combatLogToMarkdown(exportSource), "text/markdown")}
+                >
+                    Markdown
+                </Button>
+                <Button
+                    size="small"
+                    variant="outlined"
+                    disabled={exportSource.length === 0}
+                    onClick={() => downloadText(exportName("json"), combatLogToJSON(exportSource), "application/json")}
+                >
+                    JSON
+                </Button>
+            </Stack>
+            <Divider />
+
+            {/* Entries */}
+            <Box sx={{ flex: 1, minHeight: 160, maxHeight: 420, overflowY: "auto", px: 1, py: 0.5 }}>
+                {filtered.length === 0 ? (
+                    <Typography sx={{ fontSize: "0.8rem", color: "text.secondary", textAlign: "center", py: 2 }}>
+                        Nothing logged yet.
+                    </Typography>
+                ) : (
+                    filtered.map((entry) => (
+                        <Box
+                            key={entry.id}
+                            sx={{ display: "flex", alignItems: "baseline", gap: 1, py: 0.25, minWidth: 0 }}
+                        >
+                            <Typography sx={{ fontSize: "0.7rem", color: "text.secondary", flexShrink: 0, width: 28 }}>
+                                {entry.round > 0 ? `R${entry.round}` : "—"}
+                            </Typography>
+                            <Typography
+                                sx={{
+                                    fontSize: "0.8rem",
+                                    color: KIND_COLORS[entry.kind] ?? "text.secondary",
+                                    fontWeight: entry.kind === "round" || entry.kind === "combat" ? 700 : 400,
+                                    minWidth: 0,
+                                    overflowWrap: "anywhere",
+                                }}
+                            >
+                                {entry.text}
+                            </Typography>
+                        </Box>
+                    ))
+                )}
+            </Box>
+        </Paper>
+    );
+}
@@ -1,7 +1,12 @@
 // CommitField.tsx
 import { useEffect, useRef, useState } from "react";
 import TextField, { type TextFieldProps } from "@mui/material/TextField";
-import { clamp, evalMathInput } from "./utils";
+import Popper from "@mui/material/Popper";
+import Paper from "@mui/material/Paper";
+import Chip from "@mui/material/Chip";
+import { clamp } from "./utils";
+import { evaluateMath, type MathResult } from "./dice";
+import { DAMAGE_TYPES, splitCritical, splitDamageType, type DamageType } from "./damage";
 
 type BaseProps = Omit<TextFieldProps, "value" | "onChange"> & {
     onCommit: (v: any) => void;
@@ -69,8 +74,14 @@ export function CommitTextField({
 /* -------------------- Number (with optional math & clamp) -------------------- */
 type CommitNumberFieldProps = Omit<TextFieldProps, "type" | "onChange" | "value" | "inputMode"> & {
     value: number;
-    onCommit: (n: number) => void;
+    /** `roll` is the parsed math input (dice results, breakdown) when allowMath is on */
+    onCommit: (n: number, roll?: MathResult) => void;
     allowMath?: boolean;
+    /**
+     * Accept a trailing damage type and "crit" with math input ("-14 fire crit"),
+     * reported on the roll. While editing, they are offered under the field.
+     */
+    allowDamageType?: boolean;
     mathBase?: number;
     min?: number;
     max?: number;
@@ -85,6 +96,7 @@ export function CommitNumberField({
     value,
     onCommit,
     allowMath = false,
+    allowDamageType = false,
     mathBase,
     min,
     max,
@@ -96,17 +108,25 @@ export function CommitNumberField({
 }: CommitNumberFieldProps) {
     const [text, setText] = useState(String(value ?? 0));
     const inputRef = useRef<HTMLInputElement | null>(null);
+    const rootRef = useRef<HTMLDivElement | null>(null);
     const composingRef = useRef(false);
+    const [focused, setFocused] = useState(false);
 
     useEffect(() => setText(String(value ?? 0)), [value]);
 
     const compute = (raw: string) => {
         const base = mathBase ?? value;
         let next: number;
+        let roll: MathResult | undefined;
 
         if (allowMath) {
-            // full math mode (supports "52-4", etc.)
-            next = evalMathInput(raw, base);
+            // full math mode (supports "52-4", "-2d6+3", "*2", etc.)
+            const { expr: typed, critical } = allowDamageType ? splitCritical(raw) : { expr: raw, critical: false };
+            const { expr, type } = allowDamageType ? splitDamageType(typed) : { expr: typed, type: null };
+            roll = evaluateMath(expr, base) ?? undefined;
+            if (roll && type) roll.damageType = type;
+            if (roll && critical) roll.critical = true;
+            next = roll?.value ?? base;
         } else {
             // plain decimal parse: keep the user's decimal input
             const cleaned = (raw ?? "").toString().trim().replace(/,/g, "");
@@ -122,13 +142,13 @@ export function CommitNumberField({
             );
         }
 
-        return finalize ? finalize(next) : next;
+        return { next: finalize ? finalize(next) : next, roll };
     };
 
     const commit = (raw: string) => {
-        const next = compute(raw);
+        const { next, roll } = compute(raw);
         // Always notify the parent so it can exit edit mode even if value didn't change
-        onCommit(next);
+        onCommit(next, roll);
     };
 
     const handleKeyDown: React.KeyboardEventHandler = (e) => {
@@ -147,15 +167,23 @@ export function CommitNumberField({
     const resolvedInputMode =
         inputMode ?? (allowMath ? "text" : "numeric");
 
-    return (
+    const field = (
         <TextField
             {...rest}
             type="text"       // avoid native steppers
             inputMode={resolvedInputMode}
             value={text}
+            ref={rootRef}
             inputRef={inputRef}
             onChange={(e) => setText(e.target.value)}
-            onBlur={(e) => commit(e.target.value)}
+            onFocus={(e) => {
+                setFocused(true);
+                rest.onFocus?.(e);
+            }}
+            onBlur={(e) => {
+                setFocused(false);
+                commit(e.target.value);
+            }}
             onKeyDown={(e) => {
                 handleKeyDown(e);
                 rest.onKeyDown?.(e);
@@ -176,4 +204,73 @@ export function CommitNumberField({
             }}
         />
     );
+
+    if (!allowMath || !allowDamageType) return field;
+
+    return (
+        <>
+            {field}
+            <DamageTypePicker anchorEl={focused ? rootRef.current : null} text={text} onPick={setText} />
+        </>
+    );
+}
+
+/* -------------------- Damage type picker -------------------- */
+/**
+ * The damage types as chips; picking one sets (or clears) the input's trailing
+ * type. "Crit" toggles a trailing "crit" after it.
+ */
+function DamageTypePicker({
+    anchorEl,
+    text,
+    onPick,
+}: {
+    anchorEl: HTMLElement | null;
+    text: string;
+    onPick: (text: string) => void;
+}) {
+    const { expr: typed, critical } = splitCritical(text);
+    const { expr, type } = splitDamageType(typed);
+    const compose = (nextType: DamageType | null, nextCritical: boolean) =>
+        [expr.trim(), nextType, nextCritical ? "crit" : null].filter(Boolean).join(" ");
+    const pick = (next: DamageType | null) => onPick(compose(next, critical));
+
+    return (
+        <Popper open={!!anchorEl} anchorEl={anchorEl} placement="bottom-start" sx={{ zIndex: 1300 }}>
+            <Paper
+                elevation={4}
+                // Keep focus in the field: picking must not blur (and commit) it
+                onMouseDown={(e) => e.preventDefault()}
+                sx={{ p: 0.75, mt: 0.5, maxWidth: 228, display: "flex", flexWrap: "wrap", gap: 0.5 }}
+            >
+                <Chip
+                    size="small"
+                    label="Untyped"
+                    color={type ? "default" : "primary"}
+                    variant={type ? "outlined" : "filled"}
+                    onClick={() => pick(null)}
+                    sx={{ fontSize: "0.7rem", fontStyle: "italic" }}
+                />
+                {DAMAGE_TYPES.map((t) => (
+                    <Chip
+                        key={t}
+                        size="small"
+                        label={t}
+                        color={type === t ? "primary" : "default"}
+                        variant={type === t ? "filled" : "outlined"}
+                        onClick={() => pick(t)}
+                        sx={{ fontSize: "0.7rem" }}
+                    />
+                ))}
+                <Chip
+                    size="small"
+                    label="Crit"
+                    color={critical ? "error" : "default"}
+                    variant={critical ? "filled" : "outlined"}
+                    onClick={() => onPick(compose(type, !critical))}
+                    sx={{ fontSize: "0.7rem", fontWeight: 600 }}
+                />
+            </Paper>
+        </Popper>
+    );
 }
@@ -0,0 +1,78 @@
+import { useMemo, useState } from "react";
+import Box from "@mui/material/Box";
+import Typography from "@mui/material/Typography";
+import Autocomplete from "@mui/material/Autocomplete";
+import TextField from "@mui/material/TextField";
+import Chip from "@mui/material/Chip";
+import { STANDARD_CONDITIONS, addCondition, removeCondition } from "./conditions";
+
+type Props = {
+    conditions: string[];
+    onChange: (conditions: string[]) => void;
+};
+
+/**
+ * Condition editor for the expanded row: pick a standard condition or type a custom one.
+ */
+export function ConditionPicker({ conditions, onChange }: Props) {
+    const [input, setInput] = useState("");
+
+    const options = useMemo(
+        () => STANDARD_CONDITIONS.filter((c) => !conditions.includes(c)),
+        [conditions]
+    );
+
+    const commit = (value: string | null) => {
+        if (value) onChange(addCondition(conditions, value));
+        setInput("");
+    };
+
+    return (
+        <Box sx={{ minWidth: 0 }} onClick={(e) => e.stopPropagation()}>
+            <Typography sx={{ fontWeight: 700, fontSize: "0.95rem", textAlign: "center", mb: 0.75 }}>
+                Conditions
+            </Typography>
+
+            <Autocomplete
+                freeSolo
+                size="small"
+                options={options}
+                value={null}
+                inputValue={input}
+                onInputChange={(_, v, reason) => {
+                    if (reason !== "reset") setInput(v);
+                }}
+                onChange={(_, v) => commit(v)}
+                blurOnSelect
+                renderInput={(params) => (
+                    <TextField
+                        {...params}
+                        placeholder="Add condition…"
+                        sx={{
+                            "& .MuiOutlinedInput-root": { borderRadius: 0.5, fontSize: "0.8rem", py: 0 },
+                        }}
+                    />
+                )}
+                sx={{ mb: 0.75 }}
+            />
+
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, justifyContent: "center" }}>
+                {conditions.length === 0 ? (
+                    <Typography sx={{ fontSize: "0.8rem", color: "text.secondary" }}>
+                        No conditions.
+                    </Typography>
+                ) : (
+                    conditions.map((c) => (
+                        <Chip
+                            key={c}
+                            label={c}
+                            size="small"
+                            onDelete={() => onChange(removeCondition(conditions, c))}
+                            sx={{ borderRadius: 1, height: 22, fontSize: "0.7rem" }}
+                        />
+                    ))
+                )}
+            </Box>
+        </Box>
+    );
+}
@@ -0,0 +1,83 @@
+import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import CasinoRounded from "@mui/icons-material/CasinoRounded";
+import { EMPTY_DEATH_SAVES, deathSaveState, type DeathSaves } from "./deathSaves";
+
+type Props = {
+    saves: DeathSaves | null | undefined;
+    onChange: (saves: DeathSaves) => void;
+    onRoll: (e: React.MouseEvent) => void;
+};
+
+const chipSx = {
+    height: 16,
+    fontSize: "0.65rem",
+    fontWeight: 600,
+    "& .MuiChip-label": { px: 0.5 },
+};
+
+/**
+ * Success / failure pips for a PC at 0 HP. Clicking a pip sets the count
+ * (clicking the last filled pip clears it); the die rolls the next save.
+ */
+export function DeathSaveTracker({ saves, onChange, onRoll }: Props) {
+    const current = saves ?? EMPTY_DEATH_SAVES;
+    const state = deathSaveState(current);
+
+    if (state !== "dying") {
+        return (
+            <Tooltip title={state === "dead" ? "Three failed death saves" : "Stable: three successful death saves"}>
+                <Chip
+                    label={state === "dead" ? "Dead" : "Stable"}
+                    size="small"
+                    color={state === "dead" ? "error" : "success"}
+                    variant="outlined"
+                    onClick={(e) => { e.stopPropagation(); onChange({ ...EMPTY_DEATH_SAVES }); }}
+                    sx={chipSx}
+                />
+            </Tooltip>
+        );
+    }
+
+    const pips = (key: keyof DeathSaves, color: string) =>
+        [0, 1, 2].map((i) => {
+            const filled = i < current[key];
+            return (
+                <Box
+                    key={`${key}-${i}`}
+                    component="span"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onChange({ ...current, [key]: current[key] === i + 1 ? i : i + 1 });
+                    }}
+                    sx={{
+                        width: 8,
+                        height: 8,
+                        borderRadius: "50%",
+                        border: `1px solid ${color}`,
+                        bgcolor: filled ? color : "transparent",
+                        cursor: "pointer",
+                        flexShrink: 0,
+                    }}
+                />
+            );
+        });
+
+    return (
+        <Box sx={{ display: "inline-flex", alignItems: "center", gap: 0.25, flexShrink: 0 }} onClick={(e) => e.stopPropagation()}>
+            <Tooltip title={`Successes ${current.successes}/3`}>
+                <Box sx={{ display: "inline-flex", gap: 0.25 }}>{pips("successes", "#4caf50")}</Box>
+            </Tooltip>
+            <Tooltip title={`Failures ${current.failures}/3`}>
+                <Box sx={{ display: "inline-flex", gap: 0.25, ml: 0.5 }}>{pips("failures", "#f44336")}</Box>
+            </Tooltip>
+            <Tooltip title="Roll death save">
+                <IconButton size="small" onClick={onRoll} sx={{ p: 0.25 }}>
+                    <CasinoRounded sx={{ fontSize: 14 }} />
+                </IconButton>
+            </Tooltip>
+        </Box>
+    );
+}
@@ -0,0 +1,79 @@
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import Autocomplete from "@mui/material/Autocomplete";
+import TextField from "@mui/material/TextField";
+import Chip from "@mui/material/Chip";
+import { DAMAGE_TYPES, addDefense, type DamageDefenses } from "./damage";
+
+type DefenseKey = keyof DamageDefenses;
+
+type Props = {
+    defenses: DamageDefenses;
+    onChange: (patch: DamageDefenses) => void;
+};
+
+const ROWS: { key: DefenseKey; label: string; color: "info" | "warning" | "success" }[] = [
+    { key: "resistances", label: "Resist", color: "info" },
+    { key: "vulnerabilities", label: "Vulnerable", color: "warning" },
+    { key: "immunities", label: "Immune", color: "success" },
+];
+
+/**
+ * Damage resistances / vulnerabilities / immunities for the expanded row.
+ * Typed damage ("-14 fire") is adjusted against these when HP is edited.
+ */
+export function DefensesPanel({ defenses, onChange }: Props) {
+    return (
+        <Box sx={{ minWidth: 0 }} onClick={(e) => e.stopPropagation()}>
+            <Typography sx={{ fontWeight: 700, fontSize: "0.95rem", textAlign: "center", mb: 0.75 }}>
+                Damage Defenses
+            </Typography>
+
+            <Stack spacing={0.75}>
+                {ROWS.map(({ key, label, color }) => {
+                    const values = defenses[key] ?? [];
+                    return (
+                        <Stack key={key} direction="row" spacing={1} alignItems="center">
+                            <Typography sx={{ fontSize: "0.8rem", width: 72, flexShrink: 0 }}>{label}</Typography>
+                            <Autocomplete
+                                multiple
+                                size="small"
+                                options={(DAMAGE_TYPES as readonly string[]).filter((t) => !values.includes(t))}
+                                value={values}
+                                onChange={(_, next) => onChange({ [key]: next.reduce(addDefense, [] as string[]) })}
+                                disableClearable
+                                renderValue={(selected, getItemProps) =>
+                                    selected.map((option, index) => {
+                                        const { key: chipKey, ...itemProps } = getItemProps({ index });
+                                        return (
+                                            <Chip
+                                                key={chipKey}
+                                                {...itemProps}
+                                                label={option}
+                                                size="small"
+                                                color={color}
+                                                variant="outlined"
+                                                sx={{ height: 20, fontSize: "0.7rem" }}
+                                            />
+                                        );
+                                    })
+                                }
+                                renderInput={(params) => (
+                                    <TextField
+                                        {...params}
+                                        placeholder={values.length ? "" : "None"}
+                                        sx={{
+                                            "& .MuiOutlinedInput-root": { borderRadius: 0.5, fontSize: "0.8rem", py: 0 },
+                                        }}
+                                    />
+                                )}
+                                sx={{ flex: 1, minWidth: 0 }}
+                            />
+                        </Stack>
+                    );
+                })}
+            </Stack>
+        </Box>
+    );
+}
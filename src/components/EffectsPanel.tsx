@@ -0,0 +1,203 @@
+import { useState } from "react";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import TextField from "@mui/material/TextField";
+import Select from "@mui/material/Select";
+import MenuItem from "@mui/material/MenuItem";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Checkbox from "@mui/material/Checkbox";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import AddRounded from "@mui/icons-material/AddRounded";
+import CloseRounded from "@mui/icons-material/CloseRounded";
+import { CommitNumberField } from "./CommitFields";
+import { createEffect, EFFECT_TRIGGER_LABELS, type EffectTrigger, type TimedEffect } from "./effects";
+import type { InitiativeItem } from "./InitiativeItem";
+
+type Props = {
+    ownerId: string;
+    effects: TimedEffect[];
+    /** Everyone in initiative, offered as effect sources */
+    combatants: InitiativeItem[];
+    onChange: (effects: TimedEffect[]) => void;
+};
+
+const selectSx = {
+    height: 28,
+    fontSize: "0.8rem",
+    "& .MuiSelect-select": { py: 0.25, pl: 1 },
+};
+
+const inputSx = {
+    "& .MuiOutlinedInput-root": { borderRadius: 0.5, fontSize: "0.8rem", height: 28 },
+};
+
+/**
+ * Timed effects editor for the expanded row.
+ */
+export function EffectsPanel({ ownerId, effects, combatants, onChange }: Props) {
+    const [name, setName] = useState("");
+    const [rounds, setRounds] = useState(10);
+    const [sourceId, setSourceId] = useState<string>("");
+    const [trigger, setTrigger] = useState<EffectTrigger>("startOfTurn");
+    const [concentration, setConcentration] = useState(false);
+
+    const sourceName = (id: string | null | undefined) =>
+        combatants.find((c) => c.id === id)?.name ?? null;
+
+    const add = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const source = sourceId || null;
+        onChange([
+            ...effects,
+            createEffect({
+                name: trimmed,
+                rounds,
+                source: source ? sourceName(source) : null,
+                sourceId: source,
+                // Without a source the "source's turn" triggers mean the owner's own turn
+                trigger: !source && trigger === "startOfSourceTurn" ? "startOfTurn"
+                    : !source && trigger === "endOfSourceTurn" ? "endOfTurn"
+                        : trigger,
+                concentration: !!source && concentration,
+            }),
+        ]);
+        setName("");
+    };
+
+    const updateRounds = (id: string, value: number) =>
+        onChange(effects.map((e) => (e.id === id ? { ...e, rounds: Math.max(1, value) } : e)));
+
+    const remove = (id: string) => onChange(effects.filter((e) => e.id !== id));
+
+    return (
+        <Box sx={{ minWidth: 0 }} onClick={(e) => e.stopPropagation()}>
+            <Typography sx={{ fontWeight: 700, fontSize: "0.95rem", textAlign: "center", mb: 0.75 }}>
+                Effects
+            </Typography>
+
+            {/* Existing effects */}
+            <Stack spacing={0.5} sx={{ mb: 1 }}>
+                {effects.length === 0 ? (
+                    <Typography sx={{ fontSize: "0.8rem", color: "text.secondary", textAlign: "center" }}>
+                        No active effects.
+                    </Typography>
+                ) : (
+                    effects.map((e) => (
+                        <Box key={e.id} sx={{ display: "flex", alignItems: "center", gap: 0.75, minWidth: 0 }}>
+                            <Box sx={{ flex: 1, minWidth: 0 }}>
+                                <Typography noWrap sx={{ fontSize: "0.8rem", fontWeight: 600 }}>
+                                    {e.name}
+                                </Typography>
+                                <Typography noWrap sx={{ fontSize: "0.7rem", color: "text.secondary" }}>
+                                    {EFFECT_TRIGGER_LABELS[e.trigger]}
+                                    {e.source ? ` · from ${e.source}` : ""}
+                                    {e.concentration ? " · concentration" : ""}
+                                </Typography>
+                            </Box>
+                            <Tooltip title="Rounds remaining">
+                                <Box>
+                                    <CommitNumberField
+                                        size="small"
+                                        variant="outlined"
+                                        value={e.rounds}
+                                        min={1}
+                                        onCommit={(v) => updateRounds(e.id, v)}
+                                        sx={inputSx}
+                                        slotProps={{
+                                            htmlInput: {
+                                                inputMode: "numeric",
+                                                pattern: "[0-9]*",
+                                                "aria-label": "rounds remaining",
+                                                style: { textAlign: "center", width: "4ch", padding: "0 2px" },
+                                            },
+                                        }}
+                                    />
+                                </Box>
+                            </Tooltip>
+                            <IconButton size="small" aria-label="remove effect" onClick={() => remove(e.id)} sx={{ p: 0.25 }}>
+                                <CloseRounded sx={{ fontSize: "1rem" }} />
+                            </IconButton>
+                        </Box>
+                    ))
+                )}
+            </Stack>
+
+            {/* New effect */}
+            <Box sx={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 0.75 }}>
+                <TextField
+                    size="small"
+                    placeholder="Effect (e.g. Bless)"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") add();
+                    }}
+                    sx={{ ...inputSx, flex: "1 1 120px" }}
+                />
+                <CommitNumberField
+                    size="small"
+                    variant="outlined"
+                    value={rounds}
+                    min={1}
+                    onCommit={(v) => setRounds(v)}
+                    sx={inputSx}
+                    slotProps={{
+                        htmlInput: {
+                            inputMode: "numeric",
+                            pattern: "[0-9]*",
+                            "aria-label": "duration in rounds",
+                            style: { textAlign: "center", width: "4ch", padding: "0 2px" },
+                        },
+                    }}
+                />
+                <Select
+                    size="small"
+                    value={sourceId}
+                    displayEmpty
+                    onChange={(e) => setSourceId(e.target.value)}
+                    sx={{ ...selectSx, flex: "1 1 100px", minWidth: 0 }}
+                >
+                    <MenuItem value="" sx={{ fontSize: "0.8rem" }}><em>No source</em></MenuItem>
+                    {combatants.map((c) => (
+                        <MenuItem key={c.id} value={c.id} sx={{ fontSize: "0.8rem" }}>
+                            {c.id === ownerId ? `${c.name} (self)` : c.name}
+                        </MenuItem>
+                    ))}
+                </Select>
+                <Select
+                    size="small"
+                    value={trigger}
+                    onChange={(e) => setTrigger(e.target.value as EffectTrigger)}
+                    sx={{ ...selectSx, flex: "1 1 140px", minWidth: 0 }}
+                >
+                    {(Object.keys(EFFECT_TRIGGER_LABELS) as EffectTrigger[]).map((t) => (
+                        <MenuItem key={t} value={t} sx={{ fontSize: "0.8rem" }}>
+                            {EFFECT_TRIGGER_LABELS[t]}
+                        </MenuItem>
+                    ))}
+                </Select>
+                <Tooltip title="Ends if the source loses concentration">
+                    <FormControlLabel
+                        control={
+                            <Checkbox
+                                size="small"
+                                checked={!!sourceId && concentration}
+                                disabled={!sourceId}
+                                onChange={(e) => setConcentration(e.target.checked)}
+                                sx={{ p: 0.25 }}
+                            />
+                        }
+                        label={<Typography sx={{ fontSize: "0.75rem" }}>Conc.</Typography>}
+                        sx={{ mr: 0, ml: 0 }}
+                    />
+                </Tooltip>
+                <IconButton size="small" aria-label="add effect" onClick={add} disabled={!name.trim()}>
+                    <AddRounded sx={{ fontSize: "1.1rem" }} />
+                </IconButton>
+            </Box>
+        </Box>
+    );
+}
@@ -0,0 +1,153 @@
+import TableRow from "@mui/material/TableRow";
+import TableCell from "@mui/material/TableCell";
+import Box from "@mui/material/Box";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+import { alpha } from "@mui/material/styles";
+import RepeatRounded from "@mui/icons-material/RepeatRounded";
+import DeleteOutlineRounded from "@mui/icons-material/DeleteOutlineRounded";
+import { CommitNumberField } from "./CommitFields";
+import type { InitiativeItem } from "./InitiativeItem";
+
+type Props = {
+    row: InitiativeItem;
+    /** 1-based: the turn on row.extraTurns[slot - 1] */
+    slot: number;
+    /** Number of columns in the table */
+    colSpan: number;
+};
+
+type GmProps = Props & {
+    onChange: (draft: Partial<InitiativeItem>) => void;
+};
+
+const inputSx = {
+    "& .MuiOutlinedInput-root": { borderRadius: 0.25, height: 28, p: 0 },
+    "& .MuiOutlinedInput-input": { fontSize: "0.8rem", lineHeight: 1.25, py: 0 },
+};
+
+const numberInput = {
+    inputMode: "numeric" as const,
+    pattern: "[0-9]*",
+    style: { textAlign: "center" as const, padding: "0 1px", fontSize: "0.8rem" },
+};
+
+const isActiveSlot = (row: InitiativeItem, slot: number) => !!row.active && row.activeSlot === slot;
+
+/** GM row for a combatant's extra turn: its own initiative, pointing at the same token. */
+export default function ExtraTurnRow({ row, slot, colSpan, onChange }: GmProps) {
+    const active = isActiveSlot(row, slot);
+    const extraTurns = row.extraTurns ?? [];
+
+    const setInitiative = (initiative: number) =>
+        onChange({ extraTurns: extraTurns.map((value, i) => (i === slot - 1 ? initiative : value)) });
+
+    // Later turns shift down one; the active turn keeps pointing at the same entry
+    const remove = () =>
+        onChange({
+            extraTurns: extraTurns.filter((_, i) => i !== slot - 1),
+            activeSlot: (row.activeSlot ?? 0) > slot ? (row.activeSlot ?? 0) - 1 : row.activeSlot,
+        });
+
+    return (
+        <TableRow
+            hover
+            selected={active}
+            sx={{
+                "& td": { py: 0.5, px: 0.5 },
+                borderLeft: "3px solid",
+                borderLeftColor: active ? "success.light" : "transparent",
+            }}
+        >
+            <TableCell width={18} align="center">
+                <Tooltip title="Extra turn">
+                    <RepeatRounded sx={{ fontSize: "1rem", display: "block", color: "text.secondary" }} />
+                </Tooltip>
+            </TableCell>
+
+            <TableCell width={40} align="center">
+                <CommitNumberField
+                    size="small"
+                    variant="outlined"
+                    value={extraTurns[slot - 1] ?? 0}
+                    inputMode="decimal"
+                    pattern="[0-9]*\\.?[0-9]?"
+                    finalize={(n) => Math.round(n * 10) / 10}
+                    onCommit={setInitiative}
+                    sx={inputSx}
+                    slotProps={{
+                        htmlInput: {
+                            ...numberInput,
+                            onFocus: (e: React.FocusEvent<HTMLInputElement>) => e.currentTarget.select(),
+                            "aria-label": "extra turn initiative",
+                            style: { ...numberInput.style, width: 32 },
+                        },
+                    }}
+                />
+            </TableCell>
+
+            <TableCell colSpan={Math.max(1, colSpan - 2)}>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 0.5, minWidth: 0 }}>
+                    <Typography noWrap sx={{ flex: 1, minWidth: 0, fontSize: "0.8rem", fontWeight: 600, px: 0.75 }}>
+                        {row.name || "Unnamed"}
+                        <Box component="span" sx={{ ml: 0.75, fontWeight: 400, color: "text.secondary" }}>
+                            (turn {slot + 1})
+                        </Box>
+                    </Typography>
+                    <Tooltip title="Remove extra turn">
+                        <IconButton size="small" onClick={remove} sx={{ p: 0.25 }}>
+                            <DeleteOutlineRounded sx={{ fontSize: 16 }} />
+                        </IconButton>
+                    </Tooltip>
+                </Box>
+            </TableCell>
+        </TableRow>
+    );
+}
+
+/** Read-only player row for a combatant's extra turn. */
+export function PlayerExtraTurnRow({ row, slot, colSpan }: Props) {
+    const active = isActiveSlot(row, slot);
+
+    return (
+        <TableRow
+            selected={active}
+            sx={{
+                height: "45px",
+                "& td": { py: 0.4, px: 0.5 },
+                backgroundColor: active ? (t) => alpha(t.palette.success.main, 0.12) : "inherit",
+                outline: active ? (t) => `1px solid ${alpha(t.palette.success.main, 0.35)}` : "none",
+            }}
+        >
+            <TableCell width={28} />
+            <TableCell width={40} align="center">
+                <Box
+                    sx={{
+                        display: "inline-flex",
+                        px: 0.6,
+                        py: 0.25,
+                        borderRadius: 1,
+                        bgcolor: "action.selected",
+                        fontSize: "0.7rem",
+                        fontWeight: 700,
+                        lineHeight: 1,
+                    }}
+                >
+                    {row.extraTurns?.[slot - 1] ?? 0}
+                </Box>
+            </TableCell>
+            <TableCell align="center">
+                <RepeatRounded sx={{ fontSize: 24, color: "text.secondary", display: "block", mx: "auto" }} />
+            </TableCell>
+            <TableCell colSpan={Math.max(1, colSpan - 3)}>
+                <Typography noWrap sx={{ fontWeight: active ? 700 : 600, fontSize: "0.85rem", userSelect: "none" }}>
+                    {row.name || "Unnamed"}
+                    <Box component="span" sx={{ ml: 0.75, fontWeight: 400, color: "text.secondary" }}>
+                        (turn {slot + 1})
+                    </Box>
+                </Typography>
+            </TableCell>
+        </TableRow>
+    );
+}
@@ -12,19 +12,37 @@ import Typography from "@mui/material/Typography";
 import IconButton from "@mui/material/IconButton";
 import InitiativeRow from "./InitiativeRow";
 import GroupRow from "./GroupRow";
+import VirtualEntryRow from "./VirtualEntryRow";
+import ExtraTurnRow from "./ExtraTurnRow";
 import { PlayArrowRounded } from "@mui/icons-material";
 import NavigateBeforeRounded from "@mui/icons-material/NavigateBeforeRounded";
 import NavigateNextRounded from "@mui/icons-material/NavigateNextRounded";
 import Tooltip from "@mui/material/Tooltip";
 import SettingsRounded from "@mui/icons-material/SettingsRounded";
+import HistoryRounded from "@mui/icons-material/HistoryRounded";
+import UndoRounded from "@mui/icons-material/UndoRounded";
+import RedoRounded from "@mui/icons-material/RedoRounded";
+import LocalFireDepartmentRounded from "@mui/icons-material/LocalFireDepartmentRounded";
+import CasinoRounded from "@mui/icons-material/CasinoRounded";
+import CampaignRounded from "@mui/icons-material/CampaignRounded";
+import PlaylistAddRounded from "@mui/icons-material/PlaylistAddRounded";
+import Menu from "@mui/material/Menu";
+import MenuItem from "@mui/material/MenuItem";
+import ListSubheader from "@mui/material/ListSubheader";
 
 import type { InitiativeItem } from "./InitiativeItem";
 import type { Group, InitiativeSettings } from "./SceneState";
 import type { CMToken } from "./tokens";
-import { useMemo, useEffect } from "react";
+import { useMemo, useEffect, useState } from "react";
 import { deleteGroup } from "./SceneState";
+import { compareInitiative, type InitiativeOrderKey } from "./utils";
+import { addVirtualEntry, VIRTUAL_KIND_LABELS, type VirtualEntry, type VirtualEntryKind } from "./virtualEntries";
+import { sideOrderKey, type SideInitiative } from "./sides";
+import { cardOrderKey } from "./cards";
 import StopRounded from "@mui/icons-material/StopRounded";
 import { useRingCoordinatorCleanup, ringCoordinator } from "../hooks/useRingCoordinator";
+import { ShotClockBar } from "./ShotClockBar";
+import type { ShotClock } from "./shotClock";
 
 type Props = {
     items: InitiativeItem[];
@@ -42,12 +60,38 @@ type Props = {
     onEnd: () => void;
     onNext: () => void;
     onPrev: () => void;
+    /** The running turn's clock, shown above the round controls */
+    shotClock?: ShotClock | null;
+    shotClockRemaining?: number;
+    onDelay: (id: string) => void;
+    /** Resume a delayed combatant after the turn of `afterId` (the current turn when omitted) */
+    onResume: (id: string, afterId?: string) => void;
 
     tokens: CMToken[];
     onAddAll: (includeHidden: boolean) => void;
     onOpenSettings: () => void;
+    onOpenLog: () => void;
+    onOpenAreaDamage: () => void;
+    onRollInitiative: (scope: "npcs" | "all") => void;
+    /** Ask players to enter initiative for their PCs */
+    onRequestInitiative: () => void;
+    initiativeRequested: boolean;
+    /** Label of the step undo/redo would apply, or null when there is none */
+    undoLabel: string | null;
+    redoLabel: string | null;
+    onUndo: () => void;
+    onRedo: () => void;
     ready?: boolean;
     groups: Group[];
+    /** Token-less turn-order entries (lair actions, hazards, countdowns) */
+    virtualEntries: VirtualEntry[];
+    /** Side initiative rolls; set when the room uses side initiative */
+    sides?: SideInitiative | null;
+    /** Initiative passes: the pass the round is in (null in other modes) */
+    pass?: number | null;
+    /** Popcorn initiative: Next asks who goes next instead of following the order */
+    popcorn?: boolean;
+    onHandoff?: (id: string) => void;
     /** Ask parent to re-measure the action panel (optional) */
     onRequestResize?: () => void;
 };
@@ -61,8 +105,32 @@ type RenderItem = {
 } | {
     type: 'individual';
     item: InitiativeItem;
+} | {
+    type: 'virtual';
+    entry: VirtualEntry;
+} | {
+    type: 'extra';
+    item: InitiativeItem;
+    /** 1-based index into item.extraTurns */
+    slot: number;
 };
 
+function orderKey(renderItem: RenderItem, sides?: SideInitiative | null, cards = false): InitiativeOrderKey {
+    if (renderItem.type === 'virtual') return renderItem.entry;
+    if (renderItem.type === 'extra') {
+        return { initiative: renderItem.item.extraTurns?.[renderItem.slot - 1] ?? 0, name: renderItem.item.name };
+    }
+    if (renderItem.type === 'group') {
+        // A group sorts with the side (or the card) of its first member
+        const first = renderItem.items[0];
+        if (sides && first) return { ...sideOrderKey(first, sides), name: renderItem.group.name };
+        if (cards) return cardOrderKey({ ...renderItem.group, initiativeCard: first?.initiativeCard });
+        return renderItem.group;
+    }
+    if (sides) return sideOrderKey(renderItem.item, sides);
+    return cards ? cardOrderKey(renderItem.item) : renderItem.item;
+}
+
 export default function GmTable({
     items,
     expandedIds,
@@ -77,11 +145,29 @@ export default function GmTable({
     onEnd,
     onNext,
     onPrev,
+    shotClock = null,
+    shotClockRemaining = 0,
+    onDelay,
+    onResume,
     tokens,
     onAddAll,
     onOpenSettings,
+    onOpenLog,
+    onOpenAreaDamage,
+    onRollInitiative,
+    onRequestInitiative,
+    initiativeRequested,
+    undoLabel,
+    redoLabel,
+    onUndo,
+    onRedo,
     ready = true,
     groups,
+    virtualEntries,
+    sides,
+    pass = null,
+    popcorn = false,
+    onHandoff,
     onRequestResize,
 }: Props) {
     const showAC = settings.showArmor;
@@ -89,6 +175,20 @@ export default function GmTable({
     const showDMR = settings.dmRingToggle;
     const showConc = settings.showConcentration ?? false;
 
+    const cardMode = settings.initiativeMode === "cards";
+    const [rollMenuAnchor, setRollMenuAnchor] = useState<HTMLElement | null>(null);
+    const rollInitiative = (scope: "npcs" | "all") => {
+        setRollMenuAnchor(null);
+        onRollInitiative(scope);
+    };
+
+    const [addMenuAnchor, setAddMenuAnchor] = useState<HTMLElement | null>(null);
+    const addEntry = (kind: VirtualEntryKind) => {
+        setAddMenuAnchor(null);
+        addVirtualEntry(kind).catch((error) => console.error("Failed to add entry:", error));
+        onRequestResize?.();
+    };
+
     const gmColCount = 3 + (showAC ? 1 : 0) + (showHP ? 2 : 0) + (showConc ? 1 : 0) + (showDMR ? 1 : 0);
 
     // Ring coordinator cleanup when initiative ends
@@ -142,12 +242,53 @@ export default function GmTable({
         ringCoordinator.setActiveTokens(activeTokenIds, ringConfigs);
     }, [ringStateKey, started, ready]);
 
+    // Popcorn: who is still waiting for a turn this round
+    const [handoffAnchor, setHandoffAnchor] = useState<HTMLElement | null>(null);
+    const hasActed = (renderItem: RenderItem) =>
+        renderItem.type === 'group' ? renderItem.items.length > 0 && renderItem.items.every(i => i.acted)
+            : renderItem.type === 'virtual' ? !!renderItem.entry.acted
+                : !!renderItem.item.acted || !!renderItem.item.delayed;
+    // Popcorn hands off to a combatant, not to one of its extra turns
+    const handoffTargets = () => activeRenderItems.filter(r => r.type !== 'extra' && !hasActed(r));
+    const renderItemId = (renderItem: RenderItem) =>
+        renderItem.type === 'group' ? renderItem.group.id
+            : renderItem.type === 'virtual' ? renderItem.entry.id
+                : renderItem.item.id;
+    const handleNextClick = (e: React.MouseEvent<HTMLElement>) => {
+        // Once everyone has acted, Next starts the new round
+        if (popcorn && onHandoff && handoffTargets().length > 0) {
+            setHandoffAnchor(e.currentTarget);
+        } else {
+            onNext();
+        }
+    };
+    const handoff = (id: string) => {
+        setHandoffAnchor(null);
+        onHandoff?.(id);
+    };
+
+    // Delay: pick the turn a delayed combatant comes back in after
+    const [resumePick, setResumePick] = useState<{ id: string; at: { top: number; left: number } } | null>(null);
+    const requestResume = (id: string, at: { top: number; left: number }) => {
+        // A held card can only interrupt: it acts now
+        if (started && !cardMode) setResumePick({ id, at });
+        else onResume(id);
+    };
+    const resumeAfter = (afterId: string) => {
+        if (resumePick) onResume(resumePick.id, afterId);
+        setResumePick(null);
+    };
+
     const getActiveIndex = (renderItems: RenderItem[]) => {
         return renderItems.findIndex((item) => {
             if (item.type === 'group') {
                 return !item.staged && item.items.some(i => i.active);
+            } else if (item.type === 'virtual') {
+                return item.entry.active;
+            } else if (item.type === 'extra') {
+                return item.item.active && item.item.activeSlot === item.slot;
             } else {
-                return item.item.active;
+                return item.item.active && !item.item.activeSlot;
             }
         });
     };
@@ -190,40 +331,31 @@ export default function GmTable({
             }
         }
 
-        // Add individual items to active (they're always participating)
+        // Add individual items to active (they're always participating), each
+        // extra turn as its own entry. Side initiative has no room for them.
         for (const item of individualItems) {
             active.push({
                 type: 'individual',
                 item: item
             });
+            if (sides || item.delayed) continue;
+            item.extraTurns?.forEach((_, i) => active.push({ type: 'extra', item, slot: i + 1 }));
         }
 
-        // Sort active items by initiative
-        active.sort((a, b) => {
-            const aInit = a.type === 'group' ? a.group.initiative : a.item.initiative;
-            const bInit = b.type === 'group' ? b.group.initiative : b.item.initiative;
-
-            const af = Math.floor(aInit);
-            const bf = Math.floor(bInit);
-
-            if (bf !== af) return bf - af; // higher integer first
-            if (aInit !== bInit) return aInit - bInit; // then smaller decimal first
+        for (const entry of virtualEntries) {
+            active.push({ type: 'virtual', entry });
+        }
 
-            // Stable sort by name
-            const aName = a.type === 'group' ? a.group.name : a.item.name;
-            const bName = b.type === 'group' ? b.group.name : b.item.name;
-            return aName.localeCompare(bName);
-        });
+        // Sort active items by initiative
+        active.sort((a, b) => compareInitiative(orderKey(a, sides, cardMode), orderKey(b, sides, cardMode)));
 
         // Sort staged items by name (initiative doesn't matter when staged)
         staged.sort((a, b) => {
-            const aName = a.type === 'group' ? a.group.name : a.item.name;
-            const bName = b.type === 'group' ? b.group.name : b.item.name;
-            return aName.localeCompare(bName);
+            return (orderKey(a).name ?? "").localeCompare(orderKey(b).name ?? "");
         });
 
         return { activeRenderItems: active, stagedRenderItems: staged };
-    }, [items, groups]);
+    }, [items, groups, virtualEntries, sides, cardMode]);
 
     const handleGroupStagingToggle = async (_groupId: string, staged: boolean, wasActiveInCombat?: boolean) => {
         // If we're staging an active group during combat, advance the turn
@@ -339,6 +471,24 @@ export default function GmTable({
                                     onGroupUngroup={handleGroupUngroup}
                                 />
                             );
+                        } else if (renderItem.type === 'virtual') {
+                            return (
+                                <VirtualEntryRow
+                                    key={renderItem.entry.id}
+                                    entry={renderItem.entry}
+                                    colSpan={gmColCount}
+                                />
+                            );
+                        } else if (renderItem.type === 'extra') {
+                            return (
+                                <ExtraTurnRow
+                                    key={`${renderItem.item.id}-turn-${renderItem.slot}`}
+                                    row={renderItem.item}
+                                    slot={renderItem.slot}
+                                    colSpan={gmColCount}
+                                    onChange={(draft) => onRowChange(renderItem.item.id, draft)}
+                                />
+                            );
                         } else {
                             return (
                                 <InitiativeRow
@@ -351,6 +501,8 @@ export default function GmTable({
                                     }}
                                     onChange={(draft) => onRowChange(renderItem.item.id, draft)}
                                     onRemove={onRowRemove}
+                                    onDelay={onDelay}
+                                    onResume={requestResume}
                                     settings={{
                                         showMovementRange: settings.showMovementRange,
                                         showAttackRange: settings.showAttackRange,
@@ -444,6 +596,7 @@ export default function GmTable({
             </TableContainer>
 
             {/* Control Bar - Fixed in middle */}
+            {shotClock && <ShotClockBar clock={shotClock} remaining={shotClockRemaining} controls />}
             <Box sx={{
                 px: 1,
                 py: 0.75,
@@ -482,21 +635,125 @@ export default function GmTable({
                         <IconButton
                             size="small"
                             onClick={onPrev}
-                            disabled={!started || activeRenderItems.length === 0 || (round === 1 && getActiveIndex(activeRenderItems) === 0)}
+                            disabled={!started || activeRenderItems.length === 0 || (round === 1 && (pass ?? 1) === 1 && getActiveIndex(activeRenderItems) === 0)}
                         >
                             <NavigateBeforeRounded />
                         </IconButton>
 
                         <Typography variant="body2" sx={{ minWidth: 72, textAlign: "center", fontWeight: 700 }}>
                             Round: {round}
+                            {started && pass != null && (
+                                <Box component="span" sx={{ ml: 0.75, fontWeight: 400, color: "text.secondary" }}>
+                                    Pass {pass}
+                                </Box>
+                            )}
                         </Typography>
 
-                        <IconButton size="small" onClick={onNext} disabled={!started || activeRenderItems.length === 0}>
+                        <IconButton size="small" onClick={handleNextClick} disabled={!started || activeRenderItems.length === 0}>
                             <NavigateNextRounded />
                         </IconButton>
+                        <Menu
+                            anchorEl={handoffAnchor}
+                            open={!!handoffAnchor}
+                            onClose={() => setHandoffAnchor(null)}
+                            disableScrollLock
+                        >
+                            <ListSubheader sx={{ lineHeight: 2.5, fontSize: "0.75rem" }}>Who goes next?</ListSubheader>
+                            {handoffTargets().map((r) => (
+                                <MenuItem key={renderItemId(r)} dense onClick={() => handoff(renderItemId(r))}>
+                                    {orderKey(r).name || "Unnamed"}
+                                </MenuItem>
+                            ))}
+                        </Menu>
+                        <Menu
+                            anchorReference="anchorPosition"
+                            anchorPosition={resumePick?.at}
+                            open={!!resumePick}
+                            onClose={() => setResumePick(null)}
+                            disableScrollLock
+                        >
+                            <ListSubheader sx={{ lineHeight: 2.5, fontSize: "0.75rem" }}>Act after…</ListSubheader>
+                            {activeRenderItems
+                                .filter(r => r.type !== 'extra' && !(r.type === 'individual' && r.item.delayed) && !(r.type === 'group' && r.items.length === 0))
+                                .map((r) => (
+                                    <MenuItem key={renderItemId(r)} dense onClick={() => resumeAfter(renderItemId(r))}>
+                                        {orderKey(r).name || "Unnamed"}
+                                        {r === activeRenderItems[getActiveIndex(activeRenderItems)] && " (act now)"}
+                                    </MenuItem>
+                                ))}
+                        </Menu>
                     </Stack>
 
                     <Stack direction="row" alignItems="center" spacing={0.5}>
+                        <Tooltip title={undoLabel ? `Undo: ${undoLabel}` : "Nothing to undo"}>
+                            <span>
+                                <IconButton size="small" onClick={onUndo} disabled={!undoLabel}>
+                                    <UndoRounded fontSize="small" />
+                                </IconButton>
+                            </span>
+                        </Tooltip>
+                        <Tooltip title={redoLabel ? `Redo: ${redoLabel}` : "Nothing to redo"}>
+                            <span>
+                                <IconButton size="small" onClick={onRedo} disabled={!redoLabel}>
+                                    <RedoRounded fontSize="small" />
+                                </IconButton>
+                            </span>
+                        </Tooltip>
+                        <Tooltip title={cardMode ? "Deal initiative cards" : "Roll initiative"}>
+                            <span>
+                                <IconButton size="small" onClick={(e) => setRollMenuAnchor(e.currentTarget)} disabled={items.length === 0}>
+                                    <CasinoRounded fontSize="small" />
+                                </IconButton>
+                            </span>
+                        </Tooltip>
+                        <Menu
+                            anchorEl={rollMenuAnchor}
+                            open={!!rollMenuAnchor}
+                            onClose={() => setRollMenuAnchor(null)}
+                            disableScrollLock
+                        >
+                            <MenuItem dense onClick={() => rollInitiative("npcs")}>{cardMode ? "Deal to all NPCs" : "Roll for all NPCs"}</MenuItem>
+                            <MenuItem dense onClick={() => rollInitiative("all")}>{cardMode ? "Deal to all" : "Roll for all"}</MenuItem>
+                        </Menu>
+                        <Tooltip title="Add lair action, hazard or countdown">
+                            <IconButton size="small" onClick={(e) => setAddMenuAnchor(e.currentTarget)}>
+                                <PlaylistAddRounded fontSize="small" />
+                            </IconButton>
+                        </Tooltip>
+                        <Menu
+                            anchorEl={addMenuAnchor}
+                            open={!!addMenuAnchor}
+                            onClose={() => setAddMenuAnchor(null)}
+                            disableScrollLock
+                        >
+                            {(Object.keys(VIRTUAL_KIND_LABELS) as VirtualEntryKind[]).map((kind) => (
+                                <MenuItem key={kind} dense onClick={() => addEntry(kind)}>
+                                    Add {VIRTUAL_KIND_LABELS[kind]}
+                                </MenuItem>
+                            ))}
+                        </Menu>
+                        <Tooltip title={initiativeRequested ? "Initiative requested" : "Request initiative from players"}>
+                            <span>
+                                <IconButton
+                                    size="small"
+                                    onClick={onRequestInitiative}
+                                    disabled={!items.some((i) => i.playerCharacter)}
+                                    color={initiativeRequested ? "primary" : "default"}
+                                >
+                                    <CampaignRounded fontSize="small" />
+                                </IconButton>
+                            </span>
+                        </Tooltip>
+                        <Tooltip title="Apply damage to selection">
+                            <IconButton size="small" onClick={onOpenAreaDamage}>
+                                <LocalFireDepartmentRounded fontSize="small" />
+                            </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Combat Log">
+                            <IconButton size="small" onClick={onOpenLog}>
+                                <HistoryRounded fontSize="small" />
+                            </IconButton>
+                        </Tooltip>
                         <Tooltip title="Settings">
                             <IconButton size="small" onClick={onOpenSettings}>
                                 <SettingsRounded fontSize="small" />
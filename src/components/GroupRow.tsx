@@ -23,6 +23,11 @@ import { removeTokenFromGroup, updateGroupTokensVisibility, batchUpdateMeta } fr
 import { useContextMenu } from "../hooks/useContextMenu";
 import { GroupRowContextMenu } from "./GroupRowContextMenu";
 import OBR from "@owlbear-rodeo/sdk";
+import { logCombatEvent } from "./combatLog";
+import { withHistory } from "./history";
+import { rollInitiativeFor } from "./initiativeRolls";
+import { dealInitiativeCards } from "./cards";
+import InitiativeCard from "./InitiativeCard";
 
 type RowSettings = {
     showMovementRange: boolean;
@@ -109,59 +114,68 @@ export default function GroupRow({
 
         try {
             const newStaged = !staged;
-            const wasActive = group.active || items.some(item => item.active);
-
-            // If we're staging an active group during combat, we need special handling
-            if (newStaged && wasActive && started) {
-                // First, clear the active state from this group and its members
-                await setGroupActive(group.id, false);
-
-                // Clear active state from all group members in metadata
-                const memberPatches = items.map(item => ({
-                    id: item.id,
-                    patch: { active: false }
-                }));
-                await batchUpdateMeta(OBR, memberPatches);
-
-                // Update local state to reflect members are no longer active
-                items.forEach(item => {
-                    onRowChange(item.id, { active: false });
-                });
-            }
+            await withHistory(newStaged ? `Stage ${group.name}` : `Unstage ${group.name}`, async (tx) => {
+                const wasActive = group.active || items.some(item => item.active);
+
+                // If we're staging an active group during combat, we need special handling
+                if (newStaged && wasActive && started) {
+                    // First, clear the active state from this group and its members
+                    await setGroupActive(group.id, false, tx);
 
-            // Update the group's staged status
-            await setGroupStaged(group.id, newStaged);
-
-            // Handle visibility if the setting is enabled
-            if (globalSettings.groupStagingControlsVisibility) {
-                if (newStaged) {
-                    // Staging: hide tokens
-                    await updateGroupTokensVisibility(OBR, group.id, false);
-                } else {
-                    // Unstaging: show tokens  
-                    await updateGroupTokensVisibility(OBR, group.id, true);
+                    // Clear active state from all group members in metadata
+                    const memberPatches = items.map(item => ({
+                        id: item.id,
+                        patch: { active: false }
+                    }));
+                    await batchUpdateMeta(OBR, memberPatches, tx);
+
+                    // Update local state to reflect members are no longer active
+                    items.forEach(item => {
+                        onRowChange(item.id, { active: false });
+                    });
                 }
-            }
 
-            // If unstaging (adding to active initiative), ensure group is not active yet
-            if (!newStaged) {
-                await setGroupActive(group.id, false);
+                // Update the group's staged status
+                await setGroupStaged(group.id, newStaged, tx);
 
-                // Ensure members don't have lingering active state
-                const memberPatches = items.map(item => ({
-                    id: item.id,
-                    patch: { active: false }
-                }));
-                await batchUpdateMeta(OBR, memberPatches);
+                // Handle visibility if the setting is enabled
+                if (globalSettings.groupStagingControlsVisibility) {
+                    if (newStaged) {
+                        // Staging: hide tokens
+                        await updateGroupTokensVisibility(OBR, group.id, false, tx);
+                    } else {
+                        // Unstaging: show tokens  
+                        await updateGroupTokensVisibility(OBR, group.id, true, tx);
+                    }
+                }
 
-                // Update local state
-                items.forEach(item => {
-                    onRowChange(item.id, { active: false });
+                // If unstaging (adding to active initiative), ensure group is not active yet
+                if (!newStaged) {
+                    await setGroupActive(group.id, false, tx);
+
+                    // Ensure members don't have lingering active state
+                    const memberPatches = items.map(item => ({
+                        id: item.id,
+                        patch: { active: false }
+                    }));
+                    await batchUpdateMeta(OBR, memberPatches, tx);
+
+                    // Update local state
+                    items.forEach(item => {
+                        onRowChange(item.id, { active: false });
+                    });
+                }
+
+                await logCombatEvent({
+                    kind: "staging",
+                    actorId: group.id,
+                    actorName: group.name,
+                    text: newStaged ? `${group.name} is staged` : `${group.name} enters initiative`,
                 });
-            }
 
-            // Notify parent - let it handle turn advancement if needed
-            onGroupStagingToggle(group.id, newStaged, wasActive && started);
+                // Notify parent - let it handle turn advancement if needed
+                onGroupStagingToggle(group.id, newStaged, wasActive && started);
+            });
         } catch (error) {
             console.error("Failed to toggle group staging:", error);
         }
@@ -171,22 +185,38 @@ export default function GroupRow({
         if (!onGroupUngroup) return;
 
         try {
-            // Remove all items from the group
-            const itemIds = items.map(item => item.id);
-            for (const itemId of itemIds) {
-                await removeTokenFromGroup(OBR, itemId);
-                // Update local state
-                onRowChange(itemId, { groupId: null });
-            }
+            await withHistory(`Ungroup ${group.name}`, async (tx) => {
+                // Remove all items from the group
+                const itemIds = items.map(item => item.id);
+                for (const itemId of itemIds) {
+                    await removeTokenFromGroup(OBR, itemId, tx);
+                    // Update local state
+                    onRowChange(itemId, { groupId: null });
+                }
 
-            onGroupUngroup(group.id);
+                onGroupUngroup(group.id);
+            });
         } catch (error) {
             console.error("Failed to ungroup items:", error);
         }
     };
 
+    const cardMode = globalSettings.initiativeMode === "cards";
+    const handleRollInitiative = async () => {
+        try {
+            if (cardMode) {
+                await withHistory(`Deal a card to ${group.name}`, (tx) => dealInitiativeCards(items, { groupId: group.id }, tx));
+            } else {
+                await rollInitiativeFor(items, { groupId: group.id });
+            }
+        } catch (error) {
+            console.error("Failed to roll group initiative:", error);
+        }
+    };
+
     const isActive = items.some(item => item.active) && !staged;
     const displayInitiative = group.initiative;
+    const groupCard = items.find(item => item.initiativeCard)?.initiativeCard;
 
     // Calculate how many columns the name should span
     const nameColSpan = 1 + (vis.ac ? 1 : 0) + (vis.hp ? 2 : 0) + (vis.conc ? 1 : 0) + (vis.dmr ? 1 : 0);
@@ -230,26 +260,30 @@ export default function GroupRow({
 
                 {/* INIT */}
                 <TableCell width={40} align="center" onClick={(e) => e.stopPropagation()}>
-                    <CommitNumberField
-                        size="small"
-                        variant="outlined"
-                        value={displayInitiative}
-                        allowMath={false}
-                        inputMode="decimal"
-                        pattern="[0-9]*\\.?[0-9]?"
-                        finalize={(n) => Math.round(n * 10) / 10}
-                        onCommit={handleInitiativeChange}
-                        sx={inputSx}
-                        slotProps={{
-                            htmlInput: {
-                                ...baseHtmlInput,
-                                autoFocus: true,
-                                onFocus: (e: any) => e.currentTarget.select(),
-                                "aria-label": "group initiative",
-                                style: { ...baseHtmlInput.style, width: 32 },
-                            },
-                        }}
-                    />
+                    {cardMode && groupCard ? (
+                        <InitiativeCard card={groupCard} />
+                    ) : (
+                        <CommitNumberField
+                            size="small"
+                            variant="outlined"
+                            value={displayInitiative}
+                            allowMath={false}
+                            inputMode="decimal"
+                            pattern="[0-9]*\\.?[0-9]?"
+                            finalize={(n) => Math.round(n * 10) / 10}
+                            onCommit={handleInitiativeChange}
+                            sx={inputSx}
+                            slotProps={{
+                                htmlInput: {
+                                    ...baseHtmlInput,
+                                    autoFocus: true,
+                                    onFocus: (e: any) => e.currentTarget.select(),
+                                    "aria-label": "group initiative",
+                                    style: { ...baseHtmlInput.style, width: 32 },
+                                },
+                            }}
+                        />
+                    )}
                 </TableCell>
 
                 {/* GROUP NAME - spans multiple columns with buttons right-justified */}
@@ -342,6 +376,7 @@ export default function GroupRow({
                 onClose={handleClose}
                 onToggleStaging={handleToggleStaging}
                 onUngroup={handleUngroup}
+                onRollInitiative={handleRollInitiative}
             />
 
             {/* Expanded group members */}
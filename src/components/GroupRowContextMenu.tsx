@@ -5,6 +5,7 @@ import ListItemText from "@mui/material/ListItemText";
 import PlayArrowRounded from "@mui/icons-material/PlayArrowRounded";
 import PauseRounded from "@mui/icons-material/PauseRounded";
 import ScatterPlotRounded from "@mui/icons-material/ScatterPlotRounded";
+import CasinoRounded from "@mui/icons-material/CasinoRounded";
 
 type Props = {
     staged: boolean;
@@ -12,6 +13,7 @@ type Props = {
     onClose: () => void;
     onToggleStaging: () => void;
     onUngroup: () => void;
+    onRollInitiative: () => void;
 };
 
 export function GroupRowContextMenu({
@@ -20,6 +22,7 @@ export function GroupRowContextMenu({
     onClose,
     onToggleStaging,
     onUngroup,
+    onRollInitiative,
 }: Props) {
     const handleToggleStaging = () => {
         onClose();
@@ -31,6 +34,11 @@ export function GroupRowContextMenu({
         onUngroup();
     };
 
+    const handleRollInitiative = () => {
+        onClose();
+        onRollInitiative();
+    };
+
     return (
         <Menu
             open={contextMenu !== null}
@@ -78,6 +86,14 @@ export function GroupRowContextMenu({
                 </ListItemText>
             </MenuItem>
 
+            {/* Roll Initiative */}
+            <MenuItem onClick={handleRollInitiative}>
+                <ListItemIcon>
+                    <CasinoRounded />
+                </ListItemIcon>
+                <ListItemText>Roll Initiative</ListItemText>
+            </MenuItem>
+
             {/* Ungroup */}
             <MenuItem onClick={handleUngroup}>
                 <ListItemIcon>
@@ -0,0 +1,42 @@
+import Box from "@mui/material/Box";
+import Tooltip from "@mui/material/Tooltip";
+import { isJoker, isRedCard } from "./cards";
+
+type Props = {
+    card: string;
+    /** Player list shows a slightly larger card */
+    large?: boolean;
+};
+
+/** A dealt initiative card, shown in place of the initiative number. */
+export default function InitiativeCard({ card, large = false }: Props) {
+    const joker = isJoker(card);
+
+    return (
+        <Tooltip title={joker ? `${card}: acts whenever they like this round` : card}>
+            <Box
+                component="span"
+                sx={{
+                    display: "inline-flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    minWidth: large ? 30 : 28,
+                    height: large ? 22 : 20,
+                    px: 0.4,
+                    borderRadius: 0.5,
+                    border: 1,
+                    borderColor: joker ? "warning.main" : "divider",
+                    bgcolor: "common.white",
+                    color: isRedCard(card) ? "error.main" : "grey.900",
+                    fontSize: large ? "0.75rem" : "0.7rem",
+                    fontWeight: 700,
+                    lineHeight: 1,
+                    whiteSpace: "nowrap",
+                    userSelect: "none",
+                }}
+            >
+                {joker ? "🃏" : card}
+            </Box>
+        </Tooltip>
+    );
+}
@@ -1,5 +1,9 @@
 import type { Item } from "@owlbear-rodeo/sdk";
 import { META_KEY, type MetaShape, isMetadata } from "./metadata";
+import type { TimedEffect } from "./effects";
+import type { RechargeAbility } from "./recharge";
+import type { DeathSaves } from "./deathSaves";
+import type { ActionKind } from "./actionEconomy";
 
 export type InitiativeItem = {
     id: string;
@@ -35,6 +39,54 @@ export type InitiativeItem = {
     // Concentration tracking
     concentrating?: boolean;
 
+    // Turn actions
+    delayed?: boolean;
+    readied?: boolean;
+    acted?: boolean;
+
+    // Extra turns each round
+    extraTurns?: number[];
+    activeSlot?: number;
+
+    // Action economy
+    actionsUsed?: ActionKind[];
+
+    // Legendary actions / resistances
+    legendaryActions?: number;
+    legendaryActionsUsed?: number;
+    legendaryResistances?: number;
+    legendaryResistancesUsed?: number;
+
+    // Status conditions (standard names or custom text)
+    conditions?: string[];
+
+    // Timed effects
+    effects?: TimedEffect[];
+
+    // Recharge abilities
+    recharges?: RechargeAbility[];
+
+    // Damage defenses
+    resistances?: string[];
+    vulnerabilities?: string[];
+    immunities?: string[];
+
+    // Death saves
+    deathSaves?: DeathSaves | null;
+
+    // Initiative rolls
+    initiativeMod?: number;
+    initiativeRoundMod?: number;
+    initiativeAdvantage?: boolean;
+
+    // Card initiative
+    initiativeCard?: string | null;
+    initiativeDraw?: number;
+    initiativeQuick?: boolean;
+
+    // Player who created the token (OBR ownership), read live from the item
+    createdUserId?: string;
+
     // DEPRECATED: Keep for migration
     encounterGroups?: string[];
 };
@@ -65,6 +117,7 @@ export function initiativeFromItem(item: Item): InitiativeItem | null {
         initiative: meta.initiative,
         active: meta.active,
         visible: typeof img?.visible === "boolean" ? img.visible : meta.visible,
+        createdUserId: item.createdUserId,
 
         ac: meta.ac,
         currentHP: meta.currentHP,
@@ -94,6 +147,41 @@ export function initiativeFromItem(item: Item): InitiativeItem | null {
         // Concentration tracking
         concentrating: meta.concentrating ?? false,
 
+        // Turn actions
+        delayed: meta.delayed ?? false,
+        readied: meta.readied ?? false,
+        acted: meta.acted ?? false,
+        extraTurns: meta.extraTurns ?? [],
+        activeSlot: meta.activeSlot ?? 0,
+        actionsUsed: meta.actionsUsed ?? [],
+        legendaryActions: meta.legendaryActions ?? 0,
+        legendaryActionsUsed: meta.legendaryActionsUsed ?? 0,
+        legendaryResistances: meta.legendaryResistances ?? 0,
+        legendaryResistancesUsed: meta.legendaryResistancesUsed ?? 0,
+
+        // Status conditions
+        conditions: meta.conditions ?? [],
+
+        // Timed effects
+        effects: meta.effects ?? [],
+        recharges: meta.recharges ?? [],
+
+        // Damage defenses
+        resistances: meta.resistances ?? [],
+        vulnerabilities: meta.vulnerabilities ?? [],
+        immunities: meta.immunities ?? [],
+
+        // Death saves
+        deathSaves: meta.deathSaves ?? null,
+
+        // Initiative rolls
+        initiativeMod: meta.initiativeMod ?? 0,
+        initiativeRoundMod: meta.initiativeRoundMod ?? 0,
+        initiativeAdvantage: !!meta.initiativeAdvantage,
+        initiativeCard: meta.initiativeCard ?? null,
+        initiativeDraw: meta.initiativeDraw ?? 1,
+        initiativeQuick: !!meta.initiativeQuick,
+
         // Keep legacy data during transition
         encounterGroups: encounterGroups ?? [],
     };
@@ -139,6 +227,62 @@ export function metaPatchFromRowDiff(before: InitiativeItem, after: InitiativeIt
     // Concentration tracking
     assign("concentrating");
 
+    // Turn actions
+    assign("delayed");
+    assign("readied");
+    assign("acted");
+    assign("activeSlot");
+
+    // Legendary actions / resistances
+    assign("legendaryActions");
+    assign("legendaryActionsUsed");
+    assign("legendaryResistances");
+    assign("legendaryResistancesUsed");
+
+    // Initiative rolls
+    assign("initiativeMod");
+    assign("initiativeRoundMod");
+    assign("initiativeAdvantage");
+    assign("initiativeCard");
+    assign("initiativeDraw");
+    assign("initiativeQuick");
+
+    // Lists - compared by content since rows rebuild the arrays on every sync
+    const assignList = <K extends "conditions" | "resistances" | "vulnerabilities" | "immunities" | "extraTurns" | "actionsUsed">(k: K) => {
+        const b = before[k] ?? [];
+        const a = after[k] ?? [];
+        if (b.length !== a.length || b.some((v, i) => v !== a[i])) patch[k] = a;
+    };
+
+    // Status conditions
+    assignList("conditions");
+
+    // Damage defenses
+    assignList("resistances");
+    assignList("vulnerabilities");
+    assignList("immunities");
+
+    // Extra turns
+    assignList("extraTurns");
+
+    // Action economy
+    assignList("actionsUsed");
+
+    // Timed effects - same story, small enough to compare serialized
+    if (JSON.stringify(before.effects ?? []) !== JSON.stringify(after.effects ?? [])) {
+        patch.effects = after.effects ?? [];
+    }
+
+    // Recharge abilities
+    if (JSON.stringify(before.recharges ?? []) !== JSON.stringify(after.recharges ?? [])) {
+        patch.recharges = after.recharges ?? [];
+    }
+
+    // Death saves
+    if (JSON.stringify(before.deathSaves ?? null) !== JSON.stringify(after.deathSaves ?? null)) {
+        patch.deathSaves = after.deathSaves ?? null;
+    }
+
     // Legacy: still handle encounterGroups for backward compatibility
     assign("encounterGroups");
 
@@ -0,0 +1,102 @@
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Chip from "@mui/material/Chip";
+import IconButton from "@mui/material/IconButton";
+import Stack from "@mui/material/Stack";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+import CheckRounded from "@mui/icons-material/CheckRounded";
+import CloseRounded from "@mui/icons-material/CloseRounded";
+import OBR from "@owlbear-rodeo/sdk";
+import type { InitiativeItem } from "./InitiativeItem";
+import {
+    approveSubmissions,
+    endInitiativeRequest,
+    rejectSubmission,
+    requestStatus,
+    type InitiativeRequest,
+} from "./initiativeRequest";
+
+type Props = {
+    request: InitiativeRequest;
+    items: InitiativeItem[];
+};
+
+const chipSx = {
+    height: 18,
+    fontSize: "0.7rem",
+    fontWeight: 600,
+    "& .MuiChip-label": { px: 0.75 },
+};
+
+const run = (action: Promise<void>) =>
+    action.catch((error) => {
+        console.error("Initiative request update failed:", error);
+        OBR.notification.show("Failed to update initiative request", "ERROR");
+    });
+
+/**
+ * GM view of an open initiative request: who has entered a value, who hasn't,
+ * and the approval queue.
+ */
+export function InitiativeRequestPanel({ request, items }: Props) {
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const requested = request.tokenIds.filter((id) => byId.has(id));
+    const waiting = requested.filter((id) => requestStatus(request, id) === "waiting").length;
+
+    return (
+        <Box sx={{ px: 1, py: 0.75, borderBottom: 1, borderColor: "divider", bgcolor: "background.default" }}>
+            <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 0.5 }}>
+                <Typography sx={{ flex: 1, fontSize: "0.8rem", fontWeight: 700 }}>
+                    Initiative requested{waiting > 0 ? ` (${waiting} still to roll)` : ""}
+                </Typography>
+                {request.pending.length > 1 && (
+                    <Button size="small" onClick={() => run(approveSubmissions(request.pending))}>
+                        Approve all
+                    </Button>
+                )}
+                <Button size="small" color="inherit" onClick={() => run(endInitiativeRequest())}>
+                    Close
+                </Button>
+            </Stack>
+
+            <Stack spacing={0.25}>
+                {requested.map((id) => {
+                    const item = byId.get(id)!;
+                    const status = requestStatus(request, id);
+                    const submission = request.pending.find((s) => s.tokenId === id);
+                    return (
+                        <Stack key={id} direction="row" alignItems="center" spacing={1}>
+                            <Typography noWrap sx={{ flex: 1, minWidth: 0, fontSize: "0.8rem" }}>
+                                {item.name || "Unnamed"}
+                            </Typography>
+                            {status === "done" && (
+                                <Chip label={`Rolled ${Math.floor(item.initiative)}`} size="small" color="success" variant="outlined" sx={chipSx} />
+                            )}
+                            {status === "waiting" && (
+                                <Chip label="Not rolled" size="small" variant="outlined" sx={chipSx} />
+                            )}
+                            {submission && (
+                                <>
+                                    <Tooltip title={submission.detail ? `${submission.detail} (${submission.playerName})` : submission.playerName}>
+                                        <Chip label={submission.value} size="small" color="warning" variant="outlined" sx={chipSx} />
+                                    </Tooltip>
+                                    <Tooltip title="Approve">
+                                        <IconButton size="small" color="success" onClick={() => run(approveSubmissions([submission]))} sx={{ p: 0.25 }}>
+                                            <CheckRounded sx={{ fontSize: 16 }} />
+                                        </IconButton>
+                                    </Tooltip>
+                                    <Tooltip title="Reject (player enters a new value)">
+                                        <IconButton size="small" color="error" onClick={() => run(rejectSubmission(id))} sx={{ p: 0.25 }}>
+                                            <CloseRounded sx={{ fontSize: 16 }} />
+                                        </IconButton>
+                                    </Tooltip>
+                                </>
+                            )}
+                        </Stack>
+                    );
+                })}
+            </Stack>
+        </Box>
+    );
+}
@@ -12,6 +12,12 @@ import Stack from "@mui/material/Stack";
 import VisibilityOffRounded from "@mui/icons-material/VisibilityOffRounded";
 import RadarRounded from "@mui/icons-material/RadarRounded";
 import Checkbox from "@mui/material/Checkbox";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Chip from "@mui/material/Chip";
+import Tooltip from "@mui/material/Tooltip";
+import Select from "@mui/material/Select";
+import MenuItem from "@mui/material/MenuItem";
+import OBR from "@owlbear-rodeo/sdk";
 
 import type { InitiativeItem } from "./InitiativeItem";
 import { CommitNumberField } from "./CommitFields";
@@ -27,6 +33,18 @@ import { useContextMenu } from "../hooks/useContextMenu";
 import { useHPEditing } from "../hooks/useHPEditing";
 import { InitiativeRowContextMenu } from "./InitiativeRowContextMenu";
 import { focusToken } from "./focusToken";
+import { ConditionPicker } from "./ConditionPicker";
+import { StatusChips } from "./StatusChips";
+import { EffectsPanel } from "./EffectsPanel";
+import { RechargePanel } from "./RechargePanel";
+import { DefensesPanel } from "./DefensesPanel";
+import { effectLabel } from "./effects";
+import { DeathSaveTracker } from "./DeathSaveTracker";
+import InitiativeCard from "./InitiativeCard";
+import ActionEconomyToggles from "./ActionEconomyToggles";
+import { LegendaryPips } from "./LegendaryPips";
+import { isDefeated, isDying, rollDeathSaveFor } from "./deathSaves";
+import { logCombatEvent } from "./combatLog";
 
 type RowSettings = {
     showMovementRange: boolean;
@@ -47,6 +65,9 @@ type Props = {
     onChange?: (draft: Partial<InitiativeItem>) => void;
     onSizeChange?: () => void;
     onRemove?: (id: string) => void;
+    onDelay?: (id: string) => void;
+    /** `at` is where to open the "resume after…" picker */
+    onResume?: (id: string, at: { top: number; left: number }) => void;
     settings?: RowSettings;
     globalSettings: InitiativeSettings;
     started: boolean;
@@ -66,6 +87,8 @@ export default function InitiativeRow({
     onChange,
     onSizeChange,
     onRemove,
+    onDelay,
+    onResume,
     settings,
     globalSettings,
     tokens,
@@ -84,12 +107,18 @@ export default function InitiativeRow({
         commitAc,
         commitCurrentHP,
         commitTempHP,
-        applyMaxChange
+        applyMaxChange,
+        rollBreakdown,
     } = useHPEditing(row, started, onChange || (() => { }));
 
     // Use the dmPreview from the row data directly instead of local state
     const dmPreview = !!row.dmPreview;
 
+    // Card initiative shows the dealt card instead of the number
+    const cardMode = globalSettings.initiativeMode === "cards";
+    // Active on this row's initiative rather than one of its extra turns
+    const onOwnTurn = !!row.active && !row.activeSlot;
+
     // Centralized hooks
     const distances = useDistances(row.id, tokens, settings?.showDistances, "box", items, globalSettings.roundDistances ?? false);
     const { config } = useRingState(row);
@@ -137,6 +166,28 @@ export default function InitiativeRow({
     // Event handlers
     const bubble = (draft: Partial<InitiativeItem>) => onChange?.(draft);
 
+    // Spending a readied action uses it up
+    const triggerReadied = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        bubble({ readied: false });
+        OBR.notification.show(`${row.name ?? "Unnamed"} uses their readied action`, "INFO");
+    };
+
+    const rollDeathSave = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        const { patch, text } = rollDeathSaveFor(row);
+        bubble(patch);
+        OBR.notification.show(text, "INFO");
+        logCombatEvent({ kind: "deathSave", actorId: row.id, actorName: row.name || "Unnamed", text });
+    };
+
+    const chipSx = useMemo(() => ({
+        height: 16,
+        fontSize: "0.65rem",
+        fontWeight: 600,
+        "& .MuiChip-label": { px: 0.5 },
+    }), []);
+
     const toggleDmPreview = async (e: React.MouseEvent) => {
         e.stopPropagation();
         const next = !dmPreview;
@@ -171,7 +222,7 @@ export default function InitiativeRow({
         <>
             <TableRow
                 hover
-                selected={!!row.active}
+                selected={onOwnTurn}
                 onClick={handleRowClick}
                 onDoubleClick={handleRowDoubleClick}
                 onContextMenu={handleContextMenu}
@@ -181,8 +232,10 @@ export default function InitiativeRow({
                         borderBottom: expanded ? "none" : `1px solid ${theme.palette.divider}`,
                     }),
                     "& td": { py: 0.5, px: 0.5 },
-                    borderLeft: row.active ? "3px solid" : "3px solid transparent",
-                    borderLeftColor: row.active ? "success.light" : "transparent",
+                    borderLeft: onOwnTurn ? "3px solid" : "3px solid transparent",
+                    borderLeftColor: onOwnTurn ? "success.light" : "transparent",
+                    // Defeated combatants whose turns are skipped are greyed out
+                    opacity: globalSettings.skipDefeated && isDefeated(row) ? 0.4 : row.delayed ? 0.6 : 1,
                 }}
             >
                 {/* Expand chevron */}
@@ -207,7 +260,9 @@ export default function InitiativeRow({
                 {/* INIT */}
 
                 <TableCell width={40} align="center" onClick={(e) => e.stopPropagation()}>
-                    {!hideInitiative ?
+                    {hideInitiative ? null : cardMode && row.initiativeCard ? (
+                        <InitiativeCard card={row.initiativeCard} />
+                    ) : (
                         <CommitNumberField
                             size="small"
                             variant="outlined"
@@ -228,7 +283,7 @@ export default function InitiativeRow({
                                 },
                             }}
                         />
-                        : null}
+                    )}
                 </TableCell>
 
                 {/* NAME */}
@@ -260,6 +315,66 @@ export default function InitiativeRow({
                         >
                             {row.name ?? <em>Unnamed</em>}
                         </Box>
+                        {isDying(row) && (
+                            <DeathSaveTracker
+                                saves={row.deathSaves}
+                                onChange={(deathSaves) => bubble({ deathSaves })}
+                                onRoll={rollDeathSave}
+                            />
+                        )}
+                        {vis.conditions && <StatusChips labels={row.conditions} />}
+                        <StatusChips labels={row.effects?.map(effectLabel)} color="info" max={1} />
+                        {row.delayed && (
+                            <Tooltip title={started ? "Resume: pick when to act" : "Resume"}>
+                                <Chip
+                                    label="Delayed"
+                                    size="small"
+                                    color="warning"
+                                    variant="outlined"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        const rect = e.currentTarget.getBoundingClientRect();
+                                        onResume?.(row.id, { top: rect.bottom, left: rect.left });
+                                    }}
+                                    sx={chipSx}
+                                />
+                            </Tooltip>
+                        )}
+                        {row.readied && (
+                            <Tooltip title="Trigger readied action">
+                                <Chip
+                                    label="Ready"
+                                    size="small"
+                                    color="info"
+                                    variant="outlined"
+                                    onClick={triggerReadied}
+                                    sx={chipSx}
+                                />
+                            </Tooltip>
+                        )}
+                        {row.acted && !row.active && (
+                            <Chip label="Acted" size="small" variant="outlined" sx={chipSx} />
+                        )}
+                        <LegendaryPips
+                            label="LA"
+                            name="Legendary actions"
+                            max={row.legendaryActions ?? 0}
+                            used={row.legendaryActionsUsed ?? 0}
+                            onChange={(legendaryActionsUsed) => bubble({ legendaryActionsUsed })}
+                        />
+                        <LegendaryPips
+                            label="LR"
+                            name="Legendary resistances"
+                            max={row.legendaryResistances ?? 0}
+                            used={row.legendaryResistancesUsed ?? 0}
+                            onChange={(legendaryResistancesUsed) => bubble({ legendaryResistancesUsed })}
+                        />
+                        {globalSettings.showActionEconomy && (
+                            <ActionEconomyToggles
+                                used={row.actionsUsed}
+                                onChange={(actionsUsed) => bubble({ actionsUsed })}
+                            />
+                        )}
                     </Box>
                 </TableCell>
 
@@ -312,6 +427,7 @@ export default function InitiativeRow({
                                         variant="outlined"
                                         value={row.currentHP}
                                         allowMath
+                                        allowDamageType
                                         min={0}
                                         max={Math.max(0, row.maxHP)}
                                         onCommit={commitCurrentHP}
@@ -329,18 +445,20 @@ export default function InitiativeRow({
                                         }}
                                     />
                                 ) : (
-                                    <Typography
-                                        component="button"
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            setEditingField("cur");
-                                        }}
-                                        style={{ all: "unset", cursor: "text" }}
-                                    >
-                                        <Typography component="span" sx={hpTextSx}>
-                                            {row.currentHP}
+                                    <Tooltip title={rollBreakdown("cur") ?? ""}>
+                                        <Typography
+                                            component="button"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                setEditingField("cur");
+                                            }}
+                                            style={{ all: "unset", cursor: "text" }}
+                                        >
+                                            <Typography component="span" sx={hpTextSx}>
+                                                {row.currentHP}
+                                            </Typography>
                                         </Typography>
-                                    </Typography>
+                                    </Tooltip>
                                 )}
 
                                 <Typography component="span" sx={{ fontSize: "0.95rem", opacity: 0.85 }}>
@@ -370,18 +488,20 @@ export default function InitiativeRow({
                                         }}
                                     />
                                 ) : (
-                                    <Typography
-                                        component="button"
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            setEditingField("max");
-                                        }}
-                                        style={{ all: "unset", cursor: "text" }}
-                                    >
-                                        <Typography component="span" sx={hpTextSx}>
-                                            {row.maxHP}
+                                    <Tooltip title={rollBreakdown("max") ?? ""}>
+                                        <Typography
+                                            component="button"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                setEditingField("max");
+                                            }}
+                                            style={{ all: "unset", cursor: "text" }}
+                                        >
+                                            <Typography component="span" sx={hpTextSx}>
+                                                {row.maxHP}
+                                            </Typography>
                                         </Typography>
-                                    </Typography>
+                                    </Tooltip>
                                 )}
                             </Box>
                         </TableCell>
@@ -409,18 +529,20 @@ export default function InitiativeRow({
                                     }}
                                 />
                             ) : (
-                                <Typography
-                                    component="button"
-                                    onClick={(e) => {
-                                        e.stopPropagation();
-                                        setEditingField("temp");
-                                    }}
-                                    style={{ all: "unset", cursor: "text" }}
-                                >
-                                    <Typography component="span" sx={hpTextSx}>
-                                        {row.tempHP || 0}
+                                <Tooltip title={rollBreakdown("temp") ?? ""}>
+                                    <Typography
+                                        component="button"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setEditingField("temp");
+                                        }}
+                                        style={{ all: "unset", cursor: "text" }}
+                                    >
+                                        <Typography component="span" sx={hpTextSx}>
+                                            {row.tempHP || 0}
+                                        </Typography>
                                     </Typography>
-                                </Typography>
+                                </Tooltip>
                             )}
                         </TableCell>
                     </>
@@ -480,6 +602,8 @@ export default function InitiativeRow({
                 onRemove={onRemove || (() => { })}
                 onChange={bubble}
                 globalSettings={globalSettings}
+                onDelay={onDelay}
+                onResume={onResume}
             />
 
             {/* Expanded panel */}
@@ -519,6 +643,171 @@ export default function InitiativeRow({
                                     <Box sx={{ flex: 1, minWidth: 0 }} />
                                 )}
                             </Stack>
+
+                            {/* Bottom: Conditions */}
+                            {vis.conditions && (
+                                <>
+                                    <Divider sx={{ my: 1 }} />
+                                    <ConditionPicker
+                                        conditions={row.conditions ?? []}
+                                        onChange={(conditions) => bubble({ conditions })}
+                                    />
+                                </>
+                            )}
+
+                            {/* Bottom: Initiative roll (or card draw edges) */}
+                            <Divider sx={{ my: 1 }} />
+                            {cardMode ? (
+                                <Stack direction="row" spacing={1} alignItems="center" onClick={(e) => e.stopPropagation()}>
+                                    <Typography sx={{ fontSize: "0.8rem", width: 72, flexShrink: 0 }}>Cards</Typography>
+                                    <Select
+                                        size="small"
+                                        value={row.initiativeDraw ?? 1}
+                                        onChange={(e) => bubble({ initiativeDraw: Number(e.target.value) })}
+                                        sx={{ fontSize: "0.8rem", height: 28, "& .MuiSelect-select": { py: 0.25 } }}
+                                        MenuProps={{ disableScrollLock: true }}
+                                        inputProps={{ "aria-label": "cards drawn" }}
+                                    >
+                                        <MenuItem dense value={1}>Draw 1</MenuItem>
+                                        <MenuItem dense value={2}>Level Headed (best of 2)</MenuItem>
+                                        <MenuItem dense value={3}>Improved Level Headed (best of 3)</MenuItem>
+                                    </Select>
+                                    <Tooltip title="Redraw cards of 5 or lower">
+                                        <FormControlLabel
+                                            control={
+                                                <Checkbox
+                                                    size="small"
+                                                    checked={!!row.initiativeQuick}
+                                                    onChange={(e) => bubble({ initiativeQuick: e.target.checked })}
+                                                    sx={{ p: 0.25 }}
+                                                />
+                                            }
+                                            label={<Typography sx={{ fontSize: "0.8rem" }}>Quick</Typography>}
+                                            sx={{ ml: 0, mr: 0 }}
+                                        />
+                                    </Tooltip>
+                                </Stack>
+                            ) : (
+                                <Stack direction="row" spacing={1} alignItems="center" onClick={(e) => e.stopPropagation()}>
+                                    <Typography sx={{ fontSize: "0.8rem", width: 72, flexShrink: 0 }}>Init mod</Typography>
+                                    <CommitNumberField
+                                        size="small"
+                                        variant="outlined"
+                                        value={row.initiativeMod ?? 0}
+                                        finalize={Math.trunc}
+                                        inputMode="text"
+                                        onCommit={(v) => bubble({ initiativeMod: v })}
+                                        sx={inputSx}
+                                        slotProps={{
+                                            htmlInput: {
+                                                ...baseHtmlInput,
+                                                pattern: undefined,
+                                                "aria-label": "initiative modifier",
+                                                style: { ...baseHtmlInput.style, width: 36 },
+                                            },
+                                        }}
+                                    />
+                                    <Tooltip title="Added to each roll, e.g. weapon speed. Change it between rounds when rerolling each round.">
+                                        <Typography sx={{ fontSize: "0.8rem", flexShrink: 0 }}>Round adj.</Typography>
+                                    </Tooltip>
+                                    <CommitNumberField
+                                        size="small"
+                                        variant="outlined"
+                                        value={row.initiativeRoundMod ?? 0}
+                                        finalize={Math.trunc}
+                                        inputMode="text"
+                                        onCommit={(v) => bubble({ initiativeRoundMod: v })}
+                                        sx={inputSx}
+                                        slotProps={{
+                                            htmlInput: {
+                                                ...baseHtmlInput,
+                                                pattern: undefined,
+                                                "aria-label": "per-round initiative adjustment",
+                                                style: { ...baseHtmlInput.style, width: 36 },
+                                            },
+                                        }}
+                                    />
+                                    <FormControlLabel
+                                        control={
+                                            <Checkbox
+                                                size="small"
+                                                checked={!!row.initiativeAdvantage}
+                                                onChange={(e) => bubble({ initiativeAdvantage: e.target.checked })}
+                                                sx={{ p: 0.25 }}
+                                            />
+                                        }
+                                        label={<Typography sx={{ fontSize: "0.8rem" }}>Advantage</Typography>}
+                                        sx={{ ml: 0, mr: 0 }}
+                                    />
+                                </Stack>
+                            )}
+
+                            {/* Legendary actions / resistances */}
+                            <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }} onClick={(e) => e.stopPropagation()}>
+                                <Tooltip title="Legendary actions per round; they come back at the start of its turn">
+                                    <Typography sx={{ fontSize: "0.8rem", width: 72, flexShrink: 0 }}>Legendary</Typography>
+                                </Tooltip>
+                                <CommitNumberField
+                                    size="small"
+                                    variant="outlined"
+                                    value={row.legendaryActions ?? 0}
+                                    finalize={(n) => Math.max(0, Math.trunc(n))}
+                                    onCommit={(v) => bubble({ legendaryActions: v, legendaryActionsUsed: Math.min(v, row.legendaryActionsUsed ?? 0) })}
+                                    sx={inputSx}
+                                    slotProps={{
+                                        htmlInput: {
+                                            ...baseHtmlInput,
+                                            "aria-label": "legendary actions per round",
+                                            style: { ...baseHtmlInput.style, width: 36 },
+                                        },
+                                    }}
+                                />
+                                <Tooltip title="Legendary resistances per day; click a spent pip to restore one">
+                                    <Typography sx={{ fontSize: "0.8rem", flexShrink: 0 }}>Resist.</Typography>
+                                </Tooltip>
+                                <CommitNumberField
+                                    size="small"
+                                    variant="outlined"
+                                    value={row.legendaryResistances ?? 0}
+                                    finalize={(n) => Math.max(0, Math.trunc(n))}
+                                    onCommit={(v) => bubble({ legendaryResistances: v, legendaryResistancesUsed: Math.min(v, row.legendaryResistancesUsed ?? 0) })}
+                                    sx={inputSx}
+                                    slotProps={{
+                                        htmlInput: {
+                                            ...baseHtmlInput,
+                                            "aria-label": "legendary resistances per day",
+                                            style: { ...baseHtmlInput.style, width: 36 },
+                                        },
+                                    }}
+                                />
+                            </Stack>
+
+                            {/* Bottom: Damage Defenses */}
+                            <Divider sx={{ my: 1 }} />
+                            <DefensesPanel
+                                defenses={{
+                                    resistances: row.resistances,
+                                    vulnerabilities: row.vulnerabilities,
+                                    immunities: row.immunities,
+                                }}
+                                onChange={bubble}
+                            />
+
+                            {/* Bottom: Timed Effects */}
+                            <Divider sx={{ my: 1 }} />
+                            <EffectsPanel
+                                ownerId={row.id}
+                                effects={row.effects ?? []}
+                                combatants={items ?? []}
+                                onChange={(effects) => bubble({ effects })}
+                            />
+
+                            {/* Bottom: Recharge Abilities */}
+                            <Divider sx={{ my: 1 }} />
+                            <RechargePanel
+                                abilities={row.recharges ?? []}
+                                onChange={(recharges) => bubble({ recharges })}
+                            />
                         </Box>
                     </Collapse>
                 </TableCell>
@@ -5,12 +5,18 @@ import ListItemIcon from "@mui/material/ListItemIcon";
 import ListItemText from "@mui/material/ListItemText";
 import GroupAddRounded from "@mui/icons-material/GroupAddRounded";
 import DeleteForeverRounded from "@mui/icons-material/DeleteForeverRounded";
+import HourglassEmptyRounded from "@mui/icons-material/HourglassEmptyRounded";
+import PlayCircleOutlineRounded from "@mui/icons-material/PlayCircleOutlineRounded";
+import BoltRounded from "@mui/icons-material/BoltRounded";
+import RepeatRounded from "@mui/icons-material/RepeatRounded";
+import Divider from "@mui/material/Divider";
 import OBR from "@owlbear-rodeo/sdk";
 import type { InitiativeItem } from "./InitiativeItem";
 import type { Group, InitiativeSettings } from "./SceneState";
 import { addTokenToGroup, removeTokenFromGroup, getTokensInGroup, updateTokenVisibility, updateGroupStaged } from "./metadata";
 import { createGroup, deleteGroup } from "./SceneState";
 import { GroupSelectionDialog } from "./GroupSelectionDialog";
+import { withHistory, type HistoryTransaction } from "./history";
 
 type Props = {
     row: InitiativeItem;
@@ -20,6 +26,9 @@ type Props = {
     onRemove: (id: string) => void;
     onChange: (draft: Partial<InitiativeItem>) => void;
     globalSettings: InitiativeSettings;
+    onDelay?: (id: string) => void;
+    /** `at` is where to open the "resume after…" picker */
+    onResume?: (id: string, at: { top: number; left: number }) => void;
 };
 
 export function InitiativeRowContextMenu({
@@ -30,8 +39,12 @@ export function InitiativeRowContextMenu({
     onRemove,
     onChange,
     globalSettings,
+    onDelay,
+    onResume,
 }: Props) {
     const [groupDialogOpen, setGroupDialogOpen] = useState(false);
+    // Side initiative moves everyone on a side together; no one steps out of it
+    const sideMode = globalSettings.initiativeMode === "side";
 
     const handleGroupDialogOpen = () => {
         onClose(); // Close context menu
@@ -42,7 +55,7 @@ export function InitiativeRowContextMenu({
         setGroupDialogOpen(false);
     };
 
-    const handleSelectGroup = async (groupId: string) => {
+    const handleSelectGroup = async (groupId: string, tx: HistoryTransaction) => {
         try {
             // Find the target group to get its initiative and staged status
             const targetGroup = groups.find(g => g.id === groupId);
@@ -50,37 +63,39 @@ export function InitiativeRowContextMenu({
             const groupStaged = targetGroup?.staged ?? false;
 
             // Add token to group (this will sync the initiative automatically)
-            await addTokenToGroup(OBR, row.id, groupId);
+            await addTokenToGroup(OBR, row.id, groupId, undefined, undefined, tx);
 
             // Handle visibility if the setting is enabled and group is staged
             if (globalSettings.groupStagingControlsVisibility && groupStaged) {
-                await updateTokenVisibility(OBR, row.id, false);
+                await updateTokenVisibility(OBR, row.id, false, tx);
             }
 
             // Update local state for immediate UI feedback
             onChange({
                 groupId,
                 groupName: targetGroup?.name ?? null,
-                initiative: groupInitiative // Sync initiative with group
+                initiative: groupInitiative, // Sync initiative with group
+                extraTurns: [],
+                activeSlot: 0,
             });
         } catch (error) {
             console.error("Failed to add token to group:", error);
         }
     };
 
-    const handleCreateGroup = async (name: string, staged: boolean) => {
+    const handleCreateGroup = async (name: string, staged: boolean, tx: HistoryTransaction) => {
         try {
             // Create group with the current row's initiative as the default
             const group = await createGroup(name, row.initiative, staged);
 
             // Add token to the new group, passing the group name and initiative
-            await addTokenToGroup(OBR, row.id, group.id, group.name, group.initiative);
+            await addTokenToGroup(OBR, row.id, group.id, group.name, group.initiative, tx);
 
             // If created as staged, update the group's staged status
             if (staged) {
-                await updateGroupStaged(OBR, group.id, true);
+                await updateGroupStaged(OBR, group.id, true, tx);
                 if (globalSettings.groupStagingControlsVisibility) {
-                    await updateTokenVisibility(OBR, row.id, false);
+                    await updateTokenVisibility(OBR, row.id, false, tx);
                 }
             }
 
@@ -89,25 +104,27 @@ export function InitiativeRowContextMenu({
                 groupId: group.id,
                 groupName: group.name,
                 groupStaged: staged,
+                extraTurns: [],
+                activeSlot: 0,
             });
         } catch (error) {
             console.error("Failed to create group:", error);
         }
     };
 
-    const handleRemoveFromGroup = async () => {
+    const handleRemoveFromGroup = async (tx: HistoryTransaction) => {
         try {
             const currentGroupId = row.groupId;
 
             // Remove token from group
-            await removeTokenFromGroup(OBR, row.id);
+            await removeTokenFromGroup(OBR, row.id, tx);
 
             // Handle visibility if the setting is enabled - make token visible when removed from group
             if (globalSettings.groupStagingControlsVisibility && currentGroupId) {
                 const currentGroup = groups.find(g => g.id === currentGroupId);
                 if (currentGroup?.staged) {
                     // Token was in a staged group, make it visible when removed
-                    await updateTokenVisibility(OBR, row.id, true);
+                    await updateTokenVisibility(OBR, row.id, true, tx);
                 }
             }
 
@@ -125,7 +142,7 @@ export function InitiativeRowContextMenu({
 
                 // If no tokens left, delete the empty group
                 if (remainingTokens.length === 0) {
-                    await deleteGroup(currentGroupId);
+                    await deleteGroup(currentGroupId, tx);
                 }
             }
         } catch (error) {
@@ -175,6 +192,60 @@ export function InitiativeRowContextMenu({
                     <ListItemText>{row.groupId ? "Manage Group" : "Add to Group"}</ListItemText>
                 </MenuItem>
 
+                {/* Grouped tokens act on their group's turn */}
+                {row.groupId && [
+                    <MenuItem key="delay" disabled>
+                        <ListItemIcon>
+                            <HourglassEmptyRounded />
+                        </ListItemIcon>
+                        <ListItemText primary="Delay Turn" secondary="Acts on its group's turn" />
+                    </MenuItem>,
+                    <Divider key="turn-divider" />,
+                ]}
+
+                {/* Turn Actions */}
+                {!row.groupId && onDelay && onResume && [
+                    <MenuItem
+                        key="delay"
+                        disabled={sideMode && !row.delayed}
+                        onClick={() => {
+                            onClose();
+                            if (row.delayed) onResume(row.id, { top: contextMenu?.mouseY ?? 0, left: contextMenu?.mouseX ?? 0 });
+                            else onDelay(row.id);
+                        }}
+                    >
+                        <ListItemIcon>
+                            {row.delayed ? <PlayCircleOutlineRounded /> : <HourglassEmptyRounded />}
+                        </ListItemIcon>
+                        {row.delayed
+                            ? <ListItemText>Resume Turn</ListItemText>
+                            : <ListItemText primary="Delay Turn" secondary={sideMode ? "Acts on its side's turn" : undefined} />}
+                    </MenuItem>,
+                    <MenuItem
+                        key="ready"
+                        onClick={() => { onClose(); onChange({ readied: !row.readied }); }}
+                    >
+                        <ListItemIcon>
+                            <BoltRounded />
+                        </ListItemIcon>
+                        <ListItemText>{row.readied ? "Clear Readied Action" : "Ready Action"}</ListItemText>
+                    </MenuItem>,
+                    <MenuItem
+                        key="extra-turn"
+                        onClick={() => {
+                            onClose();
+                            // Solo bosses typically go again 10 lower
+                            onChange({ extraTurns: [...(row.extraTurns ?? []), Math.max(0, Math.floor(row.initiative) - 10)] });
+                        }}
+                    >
+                        <ListItemIcon>
+                            <RepeatRounded />
+                        </ListItemIcon>
+                        <ListItemText>Add Extra Turn</ListItemText>
+                    </MenuItem>,
+                    <Divider key="turn-divider" />,
+                ]}
+
                 {/* Remove Item */}
                 <MenuItem onClick={() => { onClose(); onRemove(row.id); }}>
                     <ListItemIcon>
@@ -190,9 +261,9 @@ export function InitiativeRowContextMenu({
                 onClose={handleGroupDialogClose}
                 groups={groups}
                 currentGroupId={row.groupId}
-                onSelectGroup={handleSelectGroup}
-                onCreateGroup={handleCreateGroup}
-                onRemoveFromGroup={row.groupId ? handleRemoveFromGroup : undefined}
+                onSelectGroup={(groupId) => withHistory(`Group ${row.name}`, (tx) => handleSelectGroup(groupId, tx))}
+                onCreateGroup={(name, staged) => withHistory(`Group ${row.name}`, (tx) => handleCreateGroup(name, staged, tx))}
+                onRemoveFromGroup={row.groupId ? () => withHistory(`Ungroup ${row.name}`, (tx) => handleRemoveFromGroup(tx)) : undefined}
             />
         </>
     );
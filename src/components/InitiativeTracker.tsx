@@ -3,11 +3,14 @@ import Box from "@mui/material/Box";
 import Typography from "@mui/material/Typography";
 import Alert from "@mui/material/Alert";
 import IconButton from "@mui/material/IconButton";
+import Button from "@mui/material/Button";
 import CloseRounded from "@mui/icons-material/CloseRounded";
 import Stack from "@mui/material/Stack";
+import OBR from "@owlbear-rodeo/sdk";
 
 import PlayerTable from "./PlayerTable";
 import SettingsView from "./SettingsView";
+import CombatLogView from "./CombatLogView";
 import GmTable from "./GMTable";
 import { useRole } from "../hooks/useRole";
 import { useResizeToOBR } from "../hooks/useResizeToOBR";
@@ -17,14 +20,31 @@ import { useTurns } from "../actions/useTurns";
 import { removeFromInitiative as removeAction } from "../actions/removeFromInitiative";
 import { useAddAll } from "../actions/useAddAll";
 import { registerInitiativeContextMenu } from "./initiativeMenu";
+import { openAreaDamage } from "./areaDamage";
+import { rollInitiativeFor } from "./initiativeRolls";
+import { dealInitiativeCards } from "./cards";
+import { withHistory } from "./history";
+import { startInitiativeRequest } from "./initiativeRequest";
+import { InitiativeRequestPanel } from "./InitiativeRequestPanel";
+import { PlayerInitiativeEntry } from "./PlayerInitiativeEntry";
+import { SideInitiativeBar } from "./SideInitiativeBar";
+import { archiveCombatLog, relayPlayerCombatLog } from "./combatLog";
 import { useRingCoordinatorCleanup } from "../hooks/useRingCoordinator";
 import { useConcentrationNotifications } from "../hooks/useConcentrationNotifications";
 import { useElevationLabels } from "../hooks/useElevationLabels";
+import { useConditionBadges } from "../hooks/useConditionBadges";
+import { useHistory } from "../hooks/useHistory";
+import { useHealthBars } from "../hooks/useHealthBars";
+import { useInitiativeRequest } from "../hooks/useInitiativeRequest";
+import { useVirtualEntries } from "../hooks/useVirtualEntries";
+import { usePopcornHandoffs } from "../hooks/usePopcornHandoffs";
+import { useShotClock } from "../hooks/useShotClock";
+import { useShotClockExpiry } from "../hooks/useShotClockExpiry";
 
 export function InitiativeTracker() {
     const role = useRole();
     const { rootRef, kickMeasure } = useResizeToOBR();
-    const [view, setView] = useState<"tracker" | "settings">("tracker");
+    const [view, setView] = useState<"tracker" | "settings" | "log">("tracker");
     const [ready, setReady] = useState(false);
 
     // Centralized state management
@@ -39,6 +59,8 @@ export function InitiativeTracker() {
         setSettings,
         saveSceneState,
         groups,
+        sides,
+        pass,
         sortedRows,
         visibleRows,
         initiativeTokens,
@@ -50,8 +72,14 @@ export function InitiativeTracker() {
 
     useRingCoordinatorCleanup(started, ready);
     useElevationLabels(ready);
+    useConditionBadges(ready && role === "GM", settings.showConditions);
+    useHealthBars(ready && role === "GM", settings);
+    const { undoLabel, redoLabel, onUndo, onRedo } = useHistory(role === "GM");
     const { showHealthColumn } = useHealthLogic(settings);
-    const { checks, dismiss } = useConcentrationNotifications();
+    const { checks, resolve, dismiss } = useConcentrationNotifications();
+    const initiativeRequest = useInitiativeRequest();
+    const virtualEntries = useVirtualEntries();
+    const shotClock = useShotClock();
 
     // Readiness management
     const rafsRef = useRef<number[]>([]);
@@ -68,9 +96,12 @@ export function InitiativeTracker() {
     }, []);
 
     // Turn management - now includes groups
-    const { handleStart, handleEnd, handleNext, handlePrev } = useTurns(
+    const { handleStart, handleEnd, handleNext, handlePrev, handleDelay, handleResume, handleHandoff } = useTurns(
         setRows, round, setRound, started, setStarted, saveSceneState
     );
+    const popcorn = settings.initiativeMode === "popcorn";
+    usePopcornHandoffs(role === "GM" && popcorn && started, handleHandoff, handleNext);
+    useShotClockExpiry(role === "GM" && started, shotClock.clock, settings.shotClockExpiry ?? "notify", handleNext);
 
     // Token management
     const handleAddAll = useAddAll(rows, cmTokens);
@@ -84,8 +115,30 @@ export function InitiativeTracker() {
         }
     };
 
+    const handleRollInitiative = async (scope: "npcs" | "all") => {
+        try {
+            const count = settings.initiativeMode === "cards"
+                ? (await withHistory("Deal initiative cards", (tx) => dealInitiativeCards(rows, scope, tx))).length
+                : await rollInitiativeFor(rows, scope);
+            if (count === 0) OBR.notification.show("No combatants to roll for", "INFO");
+        } catch (e) {
+            console.error("Failed to roll initiative:", e);
+        }
+    };
+
+    const handleRequestInitiative = async () => {
+        try {
+            await startInitiativeRequest(rows.filter((r) => r.playerCharacter).map((r) => r.id));
+            kickMeasure();
+        } catch (e) {
+            console.error("Failed to request initiative:", e);
+        }
+    };
+
     // Initialize context menu
     useEffect(() => registerInitiativeContextMenu(), []);
+    useEffect(() => role === "GM" ? relayPlayerCombatLog() : undefined, [role]);
+    useEffect(() => role === "GM" ? archiveCombatLog() : undefined, [role]);
 
     return (
         <Box
@@ -108,7 +161,7 @@ export function InitiativeTracker() {
                 >
                     {checks.map((check) => (
                         <Alert
-                            key={check.tokenId}
+                            key={check.id}
                             severity="warning"
                             sx={{
                                 py: 0.5,
@@ -116,19 +169,30 @@ export function InitiativeTracker() {
                                 boxShadow: 2
                             }}
                             action={
-                                <IconButton
-                                    aria-label="close"
-                                    color="inherit"
-                                    size="small"
-                                    onClick={() => dismiss(check.tokenId)}
-                                >
-                                    <CloseRounded fontSize="small" />
-                                </IconButton>
+                                <Stack direction="row" spacing={0.25} alignItems="center">
+                                    <Button color="success" size="small" onClick={() => resolve(check, "pass")} sx={{ minWidth: 0, px: 0.75 }}>
+                                        Pass
+                                    </Button>
+                                    <Button color="error" size="small" onClick={() => resolve(check, "fail")} sx={{ minWidth: 0, px: 0.75 }}>
+                                        Fail
+                                    </Button>
+                                    <IconButton
+                                        aria-label="close"
+                                        color="inherit"
+                                        size="small"
+                                        onClick={() => dismiss(check.id)}
+                                    >
+                                        <CloseRounded fontSize="small" />
+                                    </IconButton>
+                                </Stack>
                             }
                         >
                             <Typography variant="body2" sx={{ fontWeight: 600 }}>
                                 {check.tokenName} Concentration Check, DC {check.dc}
                             </Typography>
+                            <Typography variant="caption" sx={{ opacity: 0.8 }}>
+                                {check.damage} damage
+                            </Typography>
                         </Alert>
                     ))}
                 </Stack>
@@ -145,6 +209,10 @@ export function InitiativeTracker() {
             >
                 {role === "GM" ? (
                     <Box sx={{ width: '100%', bgcolor: 'background.paper' }}>
+                        {initiativeRequest && (
+                            <InitiativeRequestPanel request={initiativeRequest} items={rows} />
+                        )}
+                        {sides && <SideInitiativeBar sides={sides} items={rows} />}
                         <GmTable
                             items={sortedRows}
                             expandedIds={expandedIds}
@@ -161,57 +229,91 @@ export function InitiativeTracker() {
                             onStart={handleStart}
                             onEnd={handleEnd}
                             onNext={handleNext}
+                            shotClock={started ? shotClock.clock : null}
+                            shotClockRemaining={shotClock.remaining}
                             onPrev={handlePrev}
+                            onDelay={handleDelay}
+                            onResume={handleResume}
                             tokens={initiativeTokens}
                             onAddAll={handleAddAll}
                             onOpenSettings={() => {
                                 setView("settings");
                                 kickMeasure();
                             }}
+                            onOpenLog={() => {
+                                setView("log");
+                                kickMeasure();
+                            }}
+                            onOpenAreaDamage={() => openAreaDamage()}
+                            onRollInitiative={handleRollInitiative}
+                            onRequestInitiative={handleRequestInitiative}
+                            initiativeRequested={!!initiativeRequest}
+                            undoLabel={undoLabel}
+                            redoLabel={redoLabel}
+                            onUndo={onUndo}
+                            onRedo={onRedo}
                             groups={groups}
+                            virtualEntries={virtualEntries}
+                            sides={sides}
+                            pass={pass}
+                            popcorn={popcorn}
+                            onHandoff={handleHandoff}
                             onRequestResize={kickMeasure}
                             ready={ready}
                         />
                     </Box>
                 ) : (
-                    // Player view logic
-                    settings.disablePlayerList ? (
-                        <Box sx={{
-                            flex: 1,
-                            display: "flex",
-                            alignItems: "center",
-                            justifyContent: "center",
-                            p: 2,
-                            textAlign: "center",
-                            color: "text.secondary"
-                        }}>
-                            <Typography variant="body2">
-                                The DM has disabled the player initiative list.
-                            </Typography>
-                        </Box>
-                    ) : !started ? (
-                        <Box sx={{
-                            flex: 1,
-                            display: "flex",
-                            alignItems: "center",
-                            justifyContent: "center",
-                            p: 2,
-                            textAlign: "center",
-                            color: "text.secondary"
-                        }}>
-                            <Typography variant="body2">
-                                Initiative has not started yet.
-                            </Typography>
-                        </Box>
-                    ) : (
-                        <PlayerTable
-                            items={visibleRows}
-                            settings={settings}
-                            tokens={initiativeTokens}
-                            showHealthColumn={showHealthColumn}
-                            updateRow={updateRow}
-                        />
-                    )
+                    <>
+                        {initiativeRequest && (
+                            <PlayerInitiativeEntry
+                                request={initiativeRequest}
+                                items={rows}
+                                applyDirectly={!!settings.autoApplyPlayerInitiative}
+                            />
+                        )}
+                        {/* Player view logic */}
+                        {settings.disablePlayerList ? (
+                            <Box sx={{
+                                flex: 1,
+                                display: "flex",
+                                alignItems: "center",
+                                justifyContent: "center",
+                                p: 2,
+                                textAlign: "center",
+                                color: "text.secondary"
+                            }}>
+                                <Typography variant="body2">
+                                    The DM has disabled the player initiative list.
+                                </Typography>
+                            </Box>
+                        ) : !started ? (
+                            <Box sx={{
+                                flex: 1,
+                                display: "flex",
+                                alignItems: "center",
+                                justifyContent: "center",
+                                p: 2,
+                                textAlign: "center",
+                                color: "text.secondary"
+                            }}>
+                                <Typography variant="body2">
+                                    Initiative has not started yet.
+                                </Typography>
+                            </Box>
+                        ) : (
+                            <PlayerTable
+                                items={visibleRows}
+                                entries={virtualEntries}
+                                popcorn={popcorn}
+                                shotClock={shotClock.clock}
+                                shotClockRemaining={shotClock.remaining}
+                                settings={settings}
+                                tokens={initiativeTokens}
+                                showHealthColumn={showHealthColumn}
+                                updateRow={updateRow}
+                            />
+                        )}
+                    </>
                 )}
             </Box>
 
@@ -234,6 +336,25 @@ export function InitiativeTracker() {
                 </Box>
             )}
 
+            {/* Combat Log View */}
+            {role === "GM" && (
+                <Box
+                    sx={{
+                        display: view === "log" ? "block" : "none",
+                        flex: 1,
+                        minHeight: 0,
+                    }}
+                >
+                    <CombatLogView
+                        active={view === "log"}
+                        onBack={() => {
+                            setView("tracker");
+                            kickMeasure();
+                        }}
+                    />
+                </Box>
+            )}
+
         </Box>
     );
 }
\ No newline at end of file
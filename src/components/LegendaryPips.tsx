@@ -0,0 +1,55 @@
+import Box from "@mui/material/Box";
+import Tooltip from "@mui/material/Tooltip";
+
+type Props = {
+    /** Short label before the pips, e.g. "LA" */
+    label: string;
+    /** Full name for the tooltip */
+    name: string;
+    max: number;
+    used: number;
+    onChange: (used: number) => void;
+};
+
+/**
+ * One pip per use: filled while available, hollow once spent. Clicking an
+ * available pip spends one; clicking a spent pip gives one back.
+ */
+export function LegendaryPips({ label, name, max, used, onChange }: Props) {
+    if (max <= 0) return null;
+    const left = Math.max(0, max - used);
+
+    return (
+        <Tooltip title={`${name}: ${left} of ${max} left`}>
+            <Box
+                sx={{ display: "inline-flex", alignItems: "center", gap: 0.25, flexShrink: 0 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <Box component="span" sx={{ fontSize: "0.6rem", fontWeight: 700, color: "warning.main", lineHeight: 1 }}>
+                    {label}
+                </Box>
+                {Array.from({ length: max }, (_, i) => {
+                    const available = i < left;
+                    return (
+                        <Box
+                            key={i}
+                            component="button"
+                            onClick={() => onChange(Math.min(max, Math.max(0, used + (available ? 1 : -1))))}
+                            aria-label={available ? `spend ${name.toLowerCase()}` : `restore ${name.toLowerCase()}`}
+                            sx={{
+                                all: "unset",
+                                width: 8,
+                                height: 8,
+                                borderRadius: "50%",
+                                border: 1,
+                                borderColor: "warning.main",
+                                bgcolor: available ? "warning.main" : "transparent",
+                                cursor: "pointer",
+                            }}
+                        />
+                    );
+                })}
+            </Box>
+        </Tooltip>
+    );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import Alert from "@mui/material/Alert";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Stack from "@mui/material/Stack";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import OBR from "@owlbear-rodeo/sdk";
+import type { InitiativeItem } from "./InitiativeItem";
+import { evaluateMath, describeMath } from "./dice";
+import { requestStatus, submitInitiative, type InitiativeRequest } from "./initiativeRequest";
+
+type Props = {
+    request: InitiativeRequest;
+    items: InitiativeItem[];
+    /** Skip the GM approval queue */
+    applyDirectly: boolean;
+};
+
+const inputSx = {
+    "& .MuiOutlinedInput-root": { borderRadius: 0.5, fontSize: "0.8rem", height: 28 },
+};
+
+function EntryRow({ item, request, applyDirectly, playerName }: { item: InitiativeItem; request: InitiativeRequest; applyDirectly: boolean; playerName: string }) {
+    const [text, setText] = useState("");
+    const [sending, setSending] = useState(false);
+    const status = requestStatus(request, item.id);
+    const pending = request.pending.find((s) => s.tokenId === item.id);
+    const name = item.name || "Unnamed";
+
+    const submit = async () => {
+        const roll = evaluateMath(text, 0);
+        if (!roll) return;
+        setSending(true);
+        try {
+            await submitInitiative({
+                tokenId: item.id,
+                tokenName: name,
+                value: roll.value,
+                detail: describeMath(roll),
+                playerName,
+            }, applyDirectly);
+            setText("");
+        } catch (error) {
+            console.error("Failed to submit initiative:", error);
+            OBR.notification.show("Failed to submit initiative", "ERROR");
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <Stack direction="row" spacing={1} alignItems="center">
+            <Typography noWrap sx={{ flex: 1, minWidth: 0, fontSize: "0.8rem", fontWeight: 600 }}>{name}</Typography>
+            {status === "done" ? (
+                <Typography sx={{ fontSize: "0.8rem", color: "success.main" }}>✓ {Math.floor(item.initiative)}</Typography>
+            ) : status === "pending" ? (
+                <Typography sx={{ fontSize: "0.8rem", color: "text.secondary" }}>{pending?.value}, waiting for GM</Typography>
+            ) : (
+                <>
+                    <TextField
+                        size="small"
+                        placeholder="d20+2"
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter") submit();
+                        }}
+                        sx={{ ...inputSx, width: 88 }}
+                        slotProps={{ htmlInput: { "aria-label": `initiative for ${name}` } }}
+                    />
+                    <Button size="small" variant="outlined" onClick={submit} disabled={sending || !text.trim()}>
+                        Submit
+                    </Button>
+                </>
+            )}
+        </Stack>
+    );
+}
+
+/**
+ * Initiative entry for the player's own PCs while the GM has a request open.
+ * Accepts a number or a roll ("d20+2").
+ */
+export function PlayerInitiativeEntry({ request, items, applyDirectly }: Props) {
+    const [playerId, setPlayerId] = useState<string | null>(null);
+    const [playerName, setPlayerName] = useState("A player");
+
+    useEffect(() => {
+        OBR.player.getId().then(setPlayerId);
+        OBR.player.getName().then(setPlayerName);
+    }, []);
+
+    const requested = new Set(request.tokenIds);
+    const mine = items.filter((item) => requested.has(item.id) && item.createdUserId === playerId);
+    if (mine.length === 0) return null;
+
+    return (
+        <Alert severity="info" icon={false} sx={{ borderRadius: 0, py: 0.5, "& .MuiAlert-message": { width: "100%" } }}>
+            <Typography sx={{ fontSize: "0.8rem", fontWeight: 700, mb: 0.5 }}>Roll initiative!</Typography>
+            <Box sx={{ display: "flex", flexDirection: "column", gap: 0.5 }}>
+                {mine.map((item) => (
+                    <EntryRow key={item.id} item={item} request={request} applyDirectly={applyDirectly} playerName={playerName} />
+                ))}
+            </Box>
+        </Alert>
+    );
+}
@@ -6,6 +6,8 @@ import TableCell from "@mui/material/TableCell";
 import TableRow from "@mui/material/TableRow";
 import Typography from "@mui/material/Typography";
 import Avatar from "@mui/material/Avatar";
+import Chip from "@mui/material/Chip";
+import Tooltip from "@mui/material/Tooltip";
 import KeyboardArrowDown from "@mui/icons-material/KeyboardArrowDown";
 import KeyboardArrowUp from "@mui/icons-material/KeyboardArrowUp";
 import { alpha } from "@mui/material/styles";
@@ -21,6 +23,19 @@ import { CommitNumberField } from "./CommitFields";
 import type { CMToken } from "./tokens";
 import type { InitiativeSettings } from "./SceneState";
 import { focusToken } from "./focusToken";
+import { StatusChips } from "./StatusChips";
+import { effectLabel } from "./effects";
+import InitiativeCard from "./InitiativeCard";
+import { isDefeated } from "./deathSaves";
+import ActionEconomyToggles from "./ActionEconomyToggles";
+
+const statusChipSx = {
+    height: 16,
+    fontSize: "0.65rem",
+    fontWeight: 600,
+    flexShrink: 0,
+    "& .MuiChip-label": { px: 0.5 },
+};
 
 type Props = {
     row: InitiativeItem;
@@ -31,6 +46,8 @@ type Props = {
     colSpan?: number;
     showHealthColumn?: boolean;
     updateRow?: (id: string, patch: Partial<InitiativeItem>) => void;
+    /** The token belongs to this player, who can then mark its actions used */
+    owned?: boolean;
 };
 
 export default function PlayerRow({
@@ -42,6 +59,7 @@ export default function PlayerRow({
     colSpan,
     showHealthColumn,
     updateRow,
+    owned = false,
 }: Props) {
     const [open, setOpen] = useState(false);
     const [avatarUrl, setAvatarUrl] = useState<string | undefined>(tokenUrl);
@@ -61,6 +79,7 @@ export default function PlayerRow({
         setEditingField,
         commitCurrentHP,
         commitTempHP,
+        rollBreakdown,
     } = useHPEditing(row, false, onChange); // false = not started check (players always edit same way)
 
     // Styling for input fields to match DM view
@@ -126,7 +145,8 @@ export default function PlayerRow({
         };
     }, [row.id]);
 
-    const isActive = row.active;
+    // Highlighted on its own initiative, not on its extra turns
+    const isActive = !!row.active && !row.activeSlot;
     const computedShowHealthColumn = showHealthColumn ?? healthInfo.showColumn;
 
     // Double-click to focus viewport on token; single-click still toggles expand
@@ -169,6 +189,7 @@ export default function PlayerRow({
                     outline: isActive ? (t) => `1px solid ${alpha(t.palette.success.main, 0.35)}` : "none",
                     transform: isActive ? "scale(1.01)" : "scale(1)",
                     cursor: "pointer",
+                    opacity: settings.skipDefeated && isDefeated(row) ? 0.4 : 1,
                 }}
             >
                 {/* Expand / Collapse */}
@@ -194,20 +215,24 @@ export default function PlayerRow({
 
                 {/* Initiative */}
                 <TableCell width={40} align="center">
-                    <Box
-                        sx={{
-                            display: "inline-flex",
-                            px: 0.6,
-                            py: 0.25,
-                            borderRadius: 1,
-                            bgcolor: "action.selected",
-                            fontSize: "0.7rem",
-                            fontWeight: 700,
-                            lineHeight: 1,
-                        }}
-                    >
-                        {row.initiative}
-                    </Box>
+                    {settings.initiativeMode === "cards" && row.initiativeCard ? (
+                        <InitiativeCard card={row.initiativeCard} large />
+                    ) : (
+                        <Box
+                            sx={{
+                                display: "inline-flex",
+                                px: 0.6,
+                                py: 0.25,
+                                borderRadius: 1,
+                                bgcolor: "action.selected",
+                                fontSize: "0.7rem",
+                                fontWeight: 700,
+                                lineHeight: 1,
+                            }}
+                        >
+                            {row.initiative}
+                        </Box>
+                    )}
                 </TableCell>
 
                 {/* Avatar */}
@@ -261,6 +286,25 @@ export default function PlayerRow({
                                 </Typography>
                             </Box>
                         )}
+                        {settings.showConditions && <StatusChips labels={row.conditions} />}
+                        {settings.showEffectsToPlayers && (
+                            <StatusChips labels={row.effects?.map(effectLabel)} color="info" max={1} />
+                        )}
+                        {row.delayed && (
+                            <Chip label="Delayed" size="small" color="warning" variant="outlined" sx={statusChipSx} />
+                        )}
+                        {row.readied && (
+                            <Chip label="Ready" size="small" color="info" variant="outlined" sx={statusChipSx} />
+                        )}
+                        {row.acted && !row.active && (
+                            <Chip label="Acted" size="small" variant="outlined" sx={statusChipSx} />
+                        )}
+                        {settings.showActionEconomy && row.playerCharacter && (
+                            <ActionEconomyToggles
+                                used={row.actionsUsed}
+                                onChange={owned ? (actionsUsed) => onChange({ actionsUsed }) : undefined}
+                            />
+                        )}
                     </Box>
                 </TableCell>
 
@@ -276,6 +320,7 @@ export default function PlayerRow({
                                         variant="outlined"
                                         value={row.currentHP}
                                         allowMath
+                                        allowDamageType
                                         min={0}
                                         max={Math.max(0, row.maxHP)}
                                         onCommit={commitCurrentHP}
@@ -292,18 +337,20 @@ export default function PlayerRow({
                                         }}
                                     />
                                 ) : (
-                                    <Typography
-                                        component="button"
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            setEditingField("cur");
-                                        }}
-                                        style={{ all: "unset", cursor: "text" }}
-                                    >
-                                        <Typography component="span" sx={hpTextSx}>
-                                            {row.currentHP}
+                                    <Tooltip title={rollBreakdown("cur") ?? ""}>
+                                        <Typography
+                                            component="button"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                setEditingField("cur");
+                                            }}
+                                            style={{ all: "unset", cursor: "text" }}
+                                        >
+                                            <Typography component="span" sx={hpTextSx}>
+                                                {row.currentHP}
+                                            </Typography>
                                         </Typography>
-                                    </Typography>
+                                    </Tooltip>
                                 )}
 
                                 <Typography component="span" sx={{ fontSize: "0.95rem", opacity: 0.85 }}>
@@ -346,18 +393,20 @@ export default function PlayerRow({
                                         }}
                                     />
                                 ) : (
-                                    <Typography
-                                        component="button"
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            setEditingField("temp");
-                                        }}
-                                        style={{ all: "unset", cursor: "text" }}
-                                    >
-                                        <Typography component="span" sx={hpTextSx}>
-                                            {row.tempHP || 0}
+                                    <Tooltip title={rollBreakdown("temp") ?? ""}>
+                                        <Typography
+                                            component="button"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                setEditingField("temp");
+                                            }}
+                                            style={{ all: "unset", cursor: "text" }}
+                                        >
+                                            <Typography component="span" sx={hpTextSx}>
+                                                {row.tempHP || 0}
+                                            </Typography>
                                         </Typography>
-                                    </Typography>
+                                    </Tooltip>
                                 )}
                             </Box>
                         </TableCell>
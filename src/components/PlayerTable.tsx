@@ -1,5 +1,10 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Paper from "@mui/material/Paper";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Chip from "@mui/material/Chip";
+import Typography from "@mui/material/Typography";
+import OBR from "@owlbear-rodeo/sdk";
 import Table from "@mui/material/Table";
 import TableBody from "@mui/material/TableBody";
 import TableCell from "@mui/material/TableCell";
@@ -8,24 +13,117 @@ import TableHead from "@mui/material/TableHead";
 import TableRow from "@mui/material/TableRow";
 import type { InitiativeItem } from "./InitiativeItem";
 import PlayerRow from "./PlayerRow";
+import { PlayerVirtualEntryRow } from "./VirtualEntryRow";
+import { PlayerExtraTurnRow } from "./ExtraTurnRow";
+import { compareInitiative, type InitiativeOrderKey } from "./utils";
+import type { VirtualEntry } from "./virtualEntries";
+import { requestPopcornHandoff } from "./popcorn";
+import { cardOrderKey } from "./cards";
+import { ShotClockBar } from "./ShotClockBar";
+import type { ShotClock } from "./shotClock";
 import type { CMToken } from "./tokens";
 import type { InitiativeSettings } from "./SceneState";
 
 type PlayerTableProps = {
     items: InitiativeItem[];
+    /** Token-less entries; hidden ones are left out */
+    entries?: VirtualEntry[];
     settings: InitiativeSettings;
     tokens: CMToken[];
     showHealthColumn?: boolean; // Optional override
     updateRow?: (id: string, patch: Partial<InitiativeItem>) => void;
+    /** Popcorn initiative: the player whose PC is active picks who goes next */
+    popcorn?: boolean;
+    /** Countdown for the current turn, when the room uses a shot clock */
+    shotClock?: ShotClock | null;
+    shotClockRemaining?: number;
 };
 
+type Row =
+    | { type: "item"; item: InitiativeItem }
+    | { type: "virtual"; entry: VirtualEntry }
+    | { type: "extra"; item: InitiativeItem; slot: number };
+
+const rowOrderKey = (r: Row, cards: boolean): InitiativeOrderKey =>
+    r.type === "virtual" ? r.entry
+        : r.type === "extra" ? { initiative: r.item.extraTurns?.[r.slot - 1] ?? 0, name: r.item.name }
+            : cards ? cardOrderKey(r.item) : r.item;
+
+const handoffChipSx = {
+    height: 22,
+    fontSize: "0.75rem",
+    fontWeight: 600,
+};
+
+const sendHandoff = (targetId: string | null) =>
+    OBR.player.getName()
+        .then((playerName) => requestPopcornHandoff({ targetId, playerName }))
+        .catch((error) => {
+            console.error("Failed to hand off turn:", error);
+            OBR.notification.show("Failed to hand off turn", "ERROR");
+        });
+
+/**
+ * Popcorn initiative: shown to the owner of the active PC. Lists everyone who
+ * hasn't acted this round (groups once); with nobody left, ends the round.
+ */
+function HandoffBar({ rows, playerId }: { rows: Row[]; playerId: string | null }) {
+    const mine = rows.some((r) => r.type === "item" && r.item.active && r.item.createdUserId === playerId);
+    if (!mine) return null;
+
+    const seen = new Set<string>();
+    const waiting: { id: string; name: string }[] = [];
+    for (const r of rows) {
+        if (r.type === "virtual") {
+            if (!r.entry.acted && !r.entry.active) waiting.push({ id: r.entry.id, name: r.entry.name });
+            continue;
+        }
+        if (r.type === "extra") continue;
+        const { item } = r;
+        if (item.acted || item.active || item.delayed) continue;
+        const key = item.groupId ?? item.id;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        waiting.push({ id: key, name: (item.groupId ? item.groupName : item.name) || "Unnamed" });
+    }
+
+    return (
+        <Box sx={{ px: 1, py: 0.75, borderBottom: 1, borderColor: "divider", bgcolor: "background.default" }}>
+            {waiting.length > 0 ? (
+                <>
+                    <Typography sx={{ fontSize: "0.8rem", fontWeight: 700, mb: 0.5 }}>Done? Hand off to:</Typography>
+                    <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5 }}>
+                        {waiting.map((w) => (
+                            <Chip key={w.id} label={w.name} size="small" variant="outlined" onClick={() => sendHandoff(w.id)} sx={handoffChipSx} />
+                        ))}
+                    </Box>
+                </>
+            ) : (
+                <Button size="small" variant="outlined" onClick={() => sendHandoff(null)}>
+                    End round
+                </Button>
+            )}
+        </Box>
+    );
+}
+
 export default function PlayerTable({
     items,
+    entries = [],
     settings,
     tokens,
     showHealthColumn,
-    updateRow
+    updateRow,
+    popcorn = false,
+    shotClock = null,
+    shotClockRemaining = 0,
 }: PlayerTableProps) {
+    const [playerId, setPlayerId] = useState<string | null>(null);
+
+    useEffect(() => {
+        OBR.player.getId().then(setPlayerId);
+    }, []);
+
     // Calculate column count: base (4) + health (1) + temp HP (1 if editable)
     const hasEditableHealth = settings.playerEditableHealth && items.some(item => item.playerCharacter);
     const colCount = 4 + (showHealthColumn ? 1 : 0) + (showHealthColumn && hasEditableHealth ? 1 : 0);
@@ -42,6 +140,25 @@ export default function PlayerTable({
         [tokens, initiativeTokenIds]
     );
 
+    // Slot extra turns and visible virtual entries into the (already sorted) token list
+    const sideMode = settings.initiativeMode === "side";
+    const cardMode = settings.initiativeMode === "cards";
+    const rows = useMemo(() => {
+        const merged: Row[] = items.map((item) => ({ type: "item", item }));
+        const insert = (row: Row) => {
+            const at = merged.findIndex((r) => compareInitiative(rowOrderKey(row, cardMode), rowOrderKey(r, cardMode)) < 0);
+            merged.splice(at === -1 ? merged.length : at, 0, row);
+        };
+        for (const item of sideMode ? [] : items) {
+            if (item.groupId || item.delayed) continue;
+            item.extraTurns?.forEach((_, i) => insert({ type: "extra", item, slot: i + 1 }));
+        }
+        for (const entry of entries) {
+            if (entry.visible) insert({ type: "virtual", entry });
+        }
+        return merged;
+    }, [items, entries, sideMode, cardMode]);
+
     return (
         <TableContainer
             component={Paper}
@@ -54,6 +171,8 @@ export default function PlayerTable({
                 flexDirection: "column",
             }}
         >
+            {shotClock && <ShotClockBar clock={shotClock} remaining={shotClockRemaining} />}
+            {popcorn && <HandoffBar playerId={playerId} rows={rows} />}
             <Table
                 stickyHeader
                 size="small"
@@ -77,7 +196,14 @@ export default function PlayerTable({
                 </TableHead>
 
                 <TableBody>
-                    {items.map((item) => {
+                    {rows.map((r) => {
+                        if (r.type === "virtual") {
+                            return <PlayerVirtualEntryRow key={r.entry.id} entry={r.entry} colSpan={colCount} />;
+                        }
+                        if (r.type === "extra") {
+                            return <PlayerExtraTurnRow key={`${r.item.id}-turn-${r.slot}`} row={r.item} slot={r.slot} colSpan={colCount} />;
+                        }
+                        const item = r.item;
                         // Get the current token data for this item
                         const tokenData = tokens.find(token => token.id === item.id);
 
@@ -92,6 +218,7 @@ export default function PlayerTable({
                                 colSpan={colCount}
                                 showHealthColumn={showHealthColumn}
                                 updateRow={updateRow}
+                                owned={!!playerId && item.createdUserId === playerId}
                             />
                         );
                     })}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import TextField from "@mui/material/TextField";
+import Select from "@mui/material/Select";
+import MenuItem from "@mui/material/MenuItem";
+import IconButton from "@mui/material/IconButton";
+import AddRounded from "@mui/icons-material/AddRounded";
+import CloseRounded from "@mui/icons-material/CloseRounded";
+import { createRechargeAbility, rechargeLabel, type RechargeAbility } from "./recharge";
+
+type Props = {
+    abilities: RechargeAbility[];
+    onChange: (abilities: RechargeAbility[]) => void;
+};
+
+const selectSx = {
+    height: 28,
+    fontSize: "0.8rem",
+    "& .MuiSelect-select": { py: 0.25, pl: 1 },
+};
+
+const inputSx = {
+    "& .MuiOutlinedInput-root": { borderRadius: 0.5, fontSize: "0.8rem", height: 28 },
+};
+
+/**
+ * Recharge abilities editor for the expanded row. Expend an ability when it's
+ * used; the turn engine rolls to recharge it at the start of the turn.
+ */
+export function RechargePanel({ abilities, onChange }: Props) {
+    const [name, setName] = useState("");
+    const [rechargeOn, setRechargeOn] = useState(5);
+
+    const add = () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        onChange([...abilities, createRechargeAbility(trimmed, rechargeOn)]);
+        setName("");
+    };
+
+    const setExpended = (id: string, expended: boolean) =>
+        onChange(abilities.map((a) => (a.id === id ? { ...a, expended } : a)));
+
+    const remove = (id: string) => onChange(abilities.filter((a) => a.id !== id));
+
+    return (
+        <Box sx={{ minWidth: 0 }} onClick={(e) => e.stopPropagation()}>
+            <Typography sx={{ fontWeight: 700, fontSize: "0.95rem", textAlign: "center", mb: 0.75 }}>
+                Recharge Abilities
+            </Typography>
+
+            {/* Existing abilities */}
+            <Stack spacing={0.5} sx={{ mb: 1 }}>
+                {abilities.length === 0 ? (
+                    <Typography sx={{ fontSize: "0.8rem", color: "text.secondary", textAlign: "center" }}>
+                        No recharge abilities.
+                    </Typography>
+                ) : (
+                    abilities.map((a) => (
+                        <Box key={a.id} sx={{ display: "flex", alignItems: "center", gap: 0.75, minWidth: 0 }}>
+                            <Box sx={{ flex: 1, minWidth: 0 }}>
+                                <Typography
+                                    noWrap
+                                    sx={{
+                                        fontSize: "0.8rem",
+                                        fontWeight: 600,
+                                        color: a.expended ? "text.disabled" : "text.primary",
+                                    }}
+                                >
+                                    {a.name}
+                                </Typography>
+                                <Typography noWrap sx={{ fontSize: "0.7rem", color: "text.secondary" }}>
+                                    {rechargeLabel(a.rechargeOn)}
+                                    {a.expended ? " · expended" : " · ready"}
+                                </Typography>
+                            </Box>
+                            <Button
+                                size="small"
+                                variant="outlined"
+                                color={a.expended ? "inherit" : "warning"}
+                                onClick={() => setExpended(a.id, !a.expended)}
+                                sx={{ minWidth: 0, px: 1, py: 0, fontSize: "0.7rem", height: 24 }}
+                            >
+                                {a.expended ? "Restore" : "Expend"}
+                            </Button>
+                            <IconButton size="small" aria-label="remove ability" onClick={() => remove(a.id)} sx={{ p: 0.25 }}>
+                                <CloseRounded sx={{ fontSize: "1rem" }} />
+                            </IconButton>
+                        </Box>
+                    ))
+                )}
+            </Stack>
+
+            {/* New ability */}
+            <Box sx={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 0.75 }}>
+                <TextField
+                    size="small"
+                    placeholder="Ability (e.g. Fire Breath)"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") add();
+                    }}
+                    sx={{ ...inputSx, flex: "1 1 140px" }}
+                />
+                <Select
+                    size="small"
+                    value={rechargeOn}
+                    onChange={(e) => setRechargeOn(Number(e.target.value))}
+                    sx={{ ...selectSx, flex: "0 1 110px", minWidth: 0 }}
+                    MenuProps={{ disableScrollLock: true }}
+                    inputProps={{ "aria-label": "recharge range" }}
+                >
+                    {[6, 5, 4, 3, 2].map((n) => (
+                        <MenuItem key={n} value={n} sx={{ fontSize: "0.8rem" }}>
+                            {rechargeLabel(n)}
+                        </MenuItem>
+                    ))}
+                </Select>
+                <IconButton size="small" aria-label="add ability" onClick={add} disabled={!name.trim()}>
+                    <AddRounded sx={{ fontSize: "1.1rem" }} />
+                </IconButton>
+            </Box>
+        </Box>
+    );
+}
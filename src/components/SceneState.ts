@@ -1,6 +1,8 @@
 import OBR from "@owlbear-rodeo/sdk";
 import { getPluginId } from "../getPluginId";
 import { deriveGroupsFromItems, META_KEY, batchUpdateMeta } from "./metadata";
+import { UNRECORDED, type HistoryTransaction } from "./history";
+import { DEFAULT_PASS_REDUCTION } from "./passes";
 
 export const SCENE_META_KEY = getPluginId("sceneState");
 export const ROOM_META_KEY = getPluginId("roomSettings");
@@ -8,6 +10,16 @@ export const ROOM_META_KEY = getPluginId("roomSettings");
 /** New unified health mode for what players can see */
 export type HealthMode = "none" | "status" | "numbers";
 
+/**
+ * How the turn order is built: per combatant/group, one roll per side,
+ * popcorn (whoever just acted picks who goes next), cards dealt each round,
+ * or Shadowrun-style passes
+ */
+export type InitiativeMode = "standard" | "side" | "popcorn" | "cards" | "passes";
+
+/** What happens when the shot clock runs out: announce it, end the turn, or end it with the Dodge action */
+export type ShotClockExpiry = "notify" | "advance" | "dodge";
+
 /**
  * Group type for compatibility with existing code.
  * NOTE: Groups are now derived from tokens, not stored in scene metadata.
@@ -51,6 +63,35 @@ export type InitiativeSettings = {
     playerEditableHealth?: boolean;
     /** Show concentration tracking column in DM view */
     showConcentration?: boolean;
+    /** Show action / bonus action / reaction / movement toggles on each row (players see their PCs') */
+    showActionEconomy?: boolean;
+    /** Show timed effects (name + rounds left) in the player list */
+    showEffectsToPlayers?: boolean;
+    /** Draw HP bars / status pips under tokens (players see what the health modes allow) */
+    showHealthBars?: boolean;
+    /** Roll death saves automatically at the start of a dying PC's turn (otherwise just remind) */
+    autoRollDeathSaves?: boolean;
+    /** After each other combatant's turn, remind the GM of bosses with legendary actions left */
+    legendaryActionReminders?: boolean;
+    /** Next Turn passes over NPCs at 0 HP and PCs who died (they're greyed out in the list) */
+    skipDefeated?: boolean;
+    /** Next Turn passes over creatures that are stunned, paralyzed, ... and says so */
+    skipIncapacitated?: boolean;
+    /** Player-entered initiative goes straight onto the token instead of waiting for GM approval */
+    autoApplyPlayerInitiative?: boolean;
+    /**
+     * Turn order mode; "side" has all PCs act together, then all NPCs; "popcorn" hands the turn off;
+     * "cards" deals from a deck; "passes" has high scores act again in later passes of the round
+     */
+    initiativeMode?: InitiativeMode;
+    /** Initiative passes: how much every score drops after each pass */
+    passReduction?: number;
+    /** Shot clock length in seconds for turns with a PC / NPCs only (0 = no clock) */
+    shotClockPcSeconds?: number;
+    shotClockNpcSeconds?: number;
+    shotClockExpiry?: ShotClockExpiry;
+    /** Roll new initiative when the round wraps (everyone from their modifiers, or each side) */
+    rerollEachRound?: boolean;
 };
 
 /**
@@ -92,6 +133,20 @@ export const DEFAULT_SETTINGS: InitiativeSettings = {
     playerEditableHealth: false,
     // Concentration tracking - default to false (disabled)
     showConcentration: false,
+    showActionEconomy: false,
+    showEffectsToPlayers: false,
+    showHealthBars: false,
+    autoRollDeathSaves: false,
+    legendaryActionReminders: false,
+    skipDefeated: false,
+    skipIncapacitated: false,
+    autoApplyPlayerInitiative: false,
+    initiativeMode: "standard",
+    rerollEachRound: false,
+    passReduction: DEFAULT_PASS_REDUCTION,
+    shotClockPcSeconds: 0,
+    shotClockNpcSeconds: 0,
+    shotClockExpiry: "notify",
 };
 
 /** Apply backward-compatible migrations to a settings object */
@@ -366,33 +421,33 @@ export async function createGroup(name: string, initiative: number = 0, staged:
 /**
  * Update initiative for all tokens in a group.
  */
-export async function updateGroupInitiative(groupId: string, initiative: number): Promise<void> {
+export async function updateGroupInitiative(groupId: string, initiative: number, tx: HistoryTransaction = UNRECORDED): Promise<void> {
     const { syncGroupTokensInitiative } = await import("./metadata");
-    await syncGroupTokensInitiative(OBR, groupId, initiative);
+    await syncGroupTokensInitiative(OBR, groupId, initiative, tx);
 }
 
 /**
  * Rename a group by updating all its member tokens.
  */
-export async function renameGroup(id: string, newName: string): Promise<void> {
+export async function renameGroup(id: string, newName: string, tx: HistoryTransaction = UNRECORDED): Promise<void> {
     const { updateGroupName } = await import("./metadata");
-    await updateGroupName(OBR, id, newName.trim());
+    await updateGroupName(OBR, id, newName.trim(), tx);
 }
 
 /**
  * Delete a group by removing all tokens from it.
  */
-export async function deleteGroup(id: string): Promise<void> {
+export async function deleteGroup(id: string, tx: HistoryTransaction = UNRECORDED): Promise<void> {
     const { deleteGroup: deleteGroupMeta } = await import("./metadata");
-    await deleteGroupMeta(OBR, id);
+    await deleteGroupMeta(OBR, id, tx);
 }
 
 /**
  * Set active status for a group by updating all its member tokens.
  */
-export async function setGroupActive(id: string, active: boolean): Promise<void> {
+export async function setGroupActive(id: string, active: boolean, tx: HistoryTransaction = UNRECORDED): Promise<void> {
     const { updateGroupActive } = await import("./metadata");
-    await updateGroupActive(OBR, id, active);
+    await updateGroupActive(OBR, id, active, tx);
 }
 
 /**
@@ -401,7 +456,7 @@ export async function setGroupActive(id: string, active: boolean): Promise<void>
  * UPDATED: Uses atomic batching to clear all groups at once instead of
  * sequential awaits, reducing race condition window.
  */
-export async function clearAllGroupsActive(): Promise<void> {
+export async function clearAllGroupsActive(tx: HistoryTransaction = UNRECORDED): Promise<void> {
     const groups = await getGroups();
     const activeGroups = groups.filter(g => g.active);
 
@@ -422,16 +477,16 @@ export async function clearAllGroupsActive(): Promise<void> {
             id,
             patch: { active: false }
         }));
-        await batchUpdateMeta(OBR, patches);
+        await batchUpdateMeta(OBR, patches, tx);
     }
 }
 
 /**
  * Set staged status for a group by updating all its member tokens.
  */
-export async function setGroupStaged(id: string, staged: boolean): Promise<void> {
+export async function setGroupStaged(id: string, staged: boolean, tx: HistoryTransaction = UNRECORDED): Promise<void> {
     const { updateGroupStaged } = await import("./metadata");
-    await updateGroupStaged(OBR, id, staged);
+    await updateGroupStaged(OBR, id, staged, tx);
 }
 
 /**
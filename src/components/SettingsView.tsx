@@ -17,9 +17,12 @@ import ExpandMoreRounded from "@mui/icons-material/ExpandMoreRounded";
 import Select from "@mui/material/Select";
 import MenuItem from "@mui/material/MenuItem";
 
-import type { InitiativeSettings } from "./SceneState";
-import { META_KEY, isMetadata } from "./metadata";
+import type { InitiativeMode, InitiativeSettings, ShotClockExpiry } from "./SceneState";
+import { DEFAULT_PASS_REDUCTION } from "./passes";
+import { META_KEY, isMetadata, readMeta } from "./metadata";
 import { ensureRings, clearRings } from "./rings";
+import { appendCombatLog, rosterEvents } from "./combatLog";
+import { withHistory } from "./history";
 import type { InitiativeItem } from "./InitiativeItem";
 import CircularProgress from "@mui/material/CircularProgress";
 
@@ -180,6 +183,86 @@ function HealthModeSelect({
     );
 }
 
+/* Compact Select for initiative mode */
+function InitiativeModeSelect({
+    value,
+    onChange,
+    width = 120,
+}: {
+    value: InitiativeMode;
+    onChange: (next: InitiativeMode) => void;
+    width?: number;
+}) {
+    return (
+        <Select
+            size="small"
+            value={value}
+            onChange={(e) => onChange(e.target.value as InitiativeMode)}
+            sx={{
+                width,
+                "& .MuiSelect-select": { py: 0.5 },
+            }}
+            MenuProps={{ disableScrollLock: true }}
+        >
+            <MenuItem value="standard">Standard</MenuItem>
+            <MenuItem value="side">Side</MenuItem>
+            <MenuItem value="popcorn">Popcorn</MenuItem>
+            <MenuItem value="cards">Cards</MenuItem>
+            <MenuItem value="passes">Passes</MenuItem>
+        </Select>
+    );
+}
+
+const SHOT_CLOCK_SECONDS = [0, 30, 60, 90, 120, 180];
+
+function ShotClockSecondsSelect({
+    value,
+    onChange,
+    label,
+}: {
+    value: number;
+    onChange: (next: number) => void;
+    label: string;
+}) {
+    return (
+        <Select
+            size="small"
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            sx={{ width: 120, "& .MuiSelect-select": { py: 0.5 } }}
+            MenuProps={{ disableScrollLock: true }}
+            inputProps={{ "aria-label": label }}
+        >
+            {SHOT_CLOCK_SECONDS.map((n) => (
+                <MenuItem key={n} value={n}>{n === 0 ? "Off" : `${n} seconds`}</MenuItem>
+            ))}
+        </Select>
+    );
+}
+
+function ShotClockExpirySelect({
+    value,
+    onChange,
+}: {
+    value: ShotClockExpiry;
+    onChange: (next: ShotClockExpiry) => void;
+}) {
+    return (
+        <Select
+            size="small"
+            value={value}
+            onChange={(e) => onChange(e.target.value as ShotClockExpiry)}
+            sx={{ width: 120, "& .MuiSelect-select": { py: 0.5 } }}
+            MenuProps={{ disableScrollLock: true }}
+            inputProps={{ "aria-label": "shot clock expiry" }}
+        >
+            <MenuItem value="notify">Notify only</MenuItem>
+            <MenuItem value="advance">End turn</MenuItem>
+            <MenuItem value="dodge">Dodge</MenuItem>
+        </Select>
+    );
+}
+
 function ConfirmProgress({ value, size = 18 }: { value: number; size?: number }) {
     return (
         <Box sx={{ position: "relative", width: size, height: size }}>
@@ -346,16 +429,23 @@ export default function SettingsView({ value, onChange, onBack, rows, ready = tr
         try {
             const items = await OBR.scene.items.getItems();
             const ids = items.map((it) => it.id);
-            await OBR.scene.items.updateItems(ids, (items) => {
+            const leaving = items.filter((it) => {
+                const meta = readMeta(it);
+                return meta && meta.inInitiative !== false;
+            });
+            await withHistory("Clear all from initiative", (tx) => tx.updateItems(ids, (items) => {
                 for (const it of items) {
                     const meta = (it.metadata as any)[META_KEY];
                     if (meta) {
                         meta.initiative = 0;
                         meta.active = false;
                         meta.inInitiative = false;
+                        meta.extraTurns = [];
+                        meta.activeSlot = 0;
                     }
                 }
-            });
+            }));
+            await appendCombatLog(rosterEvents("removed", leaving));
         } catch (err) {
             console.error("Failed to clear initiative list:", err);
         }
@@ -438,6 +528,18 @@ export default function SettingsView({ value, onChange, onBack, rows, ready = tr
                                     }
                                 />
                                 <Divider />
+                                <RowShell
+                                    title="Action Economy"
+                                    description="Track actions used each turn."
+                                    right={
+                                        <Toggle
+                                            checked={!!value.showActionEconomy}
+                                            onChange={(next) => set({ showActionEconomy: next })}
+                                            aria-label="toggle-action-economy"
+                                        />
+                                    }
+                                />
+                                <Divider />
                                 <RowShell
                                     title="Range Ring Toggle"
                                     description="Show DM ring button."
@@ -545,6 +647,18 @@ export default function SettingsView({ value, onChange, onBack, rows, ready = tr
                                         />
                                     }
                                 />
+                                <Divider />
+                                <RowShell
+                                    title="Timed Effects"
+                                    description="Show effects and rounds left."
+                                    right={
+                                        <Toggle
+                                            checked={!!value.showEffectsToPlayers}
+                                            onChange={(next) => set({ showEffectsToPlayers: next })}
+                                            aria-label="toggle-effects-to-players"
+                                        />
+                                    }
+                                />
                             </AccordionDetails>
                         </Accordion>
 
@@ -589,6 +703,30 @@ export default function SettingsView({ value, onChange, onBack, rows, ready = tr
                                         />
                                     }
                                 />
+                                <Divider />
+                                <RowShell
+                                    title="Conditions"
+                                    description="Show condition chips and token badges."
+                                    right={
+                                        <Toggle
+                                            checked={!!value.showConditions}
+                                            onChange={(next) => set({ showConditions: next })}
+                                            aria-label="toggle-conditions"
+                                        />
+                                    }
+                                />
+                                <Divider />
+                                <RowShell
+                                    title="Health Bars"
+                                    description="Show HP bars under tokens. Players see what the health settings allow."
+                                    right={
+                                        <Toggle
+                                            checked={!!value.showHealthBars}
+                                            onChange={(next) => set({ showHealthBars: next })}
+                                            aria-label="toggle-health-bars"
+                                        />
+                                    }
+                                />
                             </AccordionDetails>
                         </Accordion>
                     </Box>
@@ -640,6 +778,209 @@ export default function SettingsView({ value, onChange, onBack, rows, ready = tr
                                 }
                             />
                         </Box>
+
+                        {/* Death Saves */}
+                        <Box
+                            sx={{
+                                borderRadius: 1,
+                                overflow: "hidden",
+                                border: (t) => `1px solid ${t.palette.divider}`,
+                                mb: 1,
+                            }}
+                        >
+                            <RowShell
+                                title="Auto-roll Death Saves"
+                                description="Roll for dying PCs when their turn starts instead of just reminding."
+                                right={
+                                    <Toggle
+                                        checked={!!value.autoRollDeathSaves}
+                                        onChange={(next) => set({ autoRollDeathSaves: next })}
+                                        aria-label="toggle-auto-roll-death-saves"
+                                    />
+                                }
+                            />
+                        </Box>
+
+                        {/* Legendary Actions */}
+                        <Box
+                            sx={{
+                                borderRadius: 1,
+                                overflow: "hidden",
+                                border: (t) => `1px solid ${t.palette.divider}`,
+                                mb: 1,
+                            }}
+                        >
+                            <RowShell
+                                title="Legendary Action Reminders"
+                                description="After each other turn, remind you which bosses have legendary actions left."
+                                right={
+                                    <Toggle
+                                        checked={!!value.legendaryActionReminders}
+                                        onChange={(next) => set({ legendaryActionReminders: next })}
+                                        aria-label="toggle-legendary-action-reminders"
+                                    />
+                                }
+                            />
+                        </Box>
+
+                        {/* Skipping Turns */}
+                        <Box
+                            sx={{
+                                borderRadius: 1,
+                                overflow: "hidden",
+                                border: (t) => `1px solid ${t.palette.divider}`,
+                                mb: 1,
+                            }}
+                        >
+                            <RowShell
+                                title="Skip Defeated"
+                                description="Pass over NPCs at 0 HP and dead PCs, and grey them out. Dying PCs still get their turn."
+                                right={
+                                    <Toggle
+                                        checked={!!value.skipDefeated}
+                                        onChange={(next) => set({ skipDefeated: next })}
+                                        aria-label="toggle-skip-defeated"
+                                    />
+                                }
+                            />
+                            <Divider />
+                            <RowShell
+                                title="Skip Incapacitated"
+                                description="Pass over stunned, paralyzed, petrified, unconscious or incapacitated creatures with a notification."
+                                right={
+                                    <Toggle
+                                        checked={!!value.skipIncapacitated}
+                                        onChange={(next) => set({ skipIncapacitated: next })}
+                                        aria-label="toggle-skip-incapacitated"
+                                    />
+                                }
+                            />
+                        </Box>
+
+                        {/* Player Initiative */}
+                        <Box
+                            sx={{
+                                borderRadius: 1,
+                                overflow: "hidden",
+                                border: (t) => `1px solid ${t.palette.divider}`,
+                                mb: 1,
+                            }}
+                        >
+                            <RowShell
+                                title="Auto-apply Player Initiative"
+                                description="Apply initiative players enter without GM approval."
+                                right={
+                                    <Toggle
+                                        checked={!!value.autoApplyPlayerInitiative}
+                                        onChange={(next) => set({ autoApplyPlayerInitiative: next })}
+                                        aria-label="toggle-auto-apply-player-initiative"
+                                    />
+                                }
+                            />
+                        </Box>
+
+                        {/* Initiative Mode */}
+                        <Box
+                            sx={{
+                                borderRadius: 1,
+                                overflow: "hidden",
+                                border: (t) => `1px solid ${t.palette.divider}`,
+                                mb: 1,
+                            }}
+                        >
+                            <RowShell
+                                title="Initiative Mode"
+                                description="How the turn order is built each round."
+                                right={
+                                    <InitiativeModeSelect
+                                        value={value.initiativeMode ?? "standard"}
+                                        onChange={(next) => set({ initiativeMode: next })}
+                                    />
+                                }
+                            />
+                            <RowShell
+                                dense
+                                title="Reroll Each Round"
+                                description="Roll new initiative when the round wraps (standard, side and passes modes; cards are always redealt)."
+                                right={
+                                    <Toggle
+                                        checked={!!value.rerollEachRound}
+                                        onChange={(next) => set({ rerollEachRound: next })}
+                                        aria-label="toggle-reroll-each-round"
+                                    />
+                                }
+                            />
+                            {value.initiativeMode === "passes" && (
+                                <RowShell
+                                    dense
+                                    title="Pass Reduction"
+                                    description="Every score drops by this much after each pass."
+                                    right={
+                                        <Select
+                                            size="small"
+                                            value={value.passReduction ?? DEFAULT_PASS_REDUCTION}
+                                            onChange={(e) => set({ passReduction: Number(e.target.value) })}
+                                            sx={{ width: 120, "& .MuiSelect-select": { py: 0.5 } }}
+                                            MenuProps={{ disableScrollLock: true }}
+                                            inputProps={{ "aria-label": "pass reduction" }}
+                                        >
+                                            {[5, 10, 15, 20].map((n) => (
+                                                <MenuItem key={n} value={n}>{n}</MenuItem>
+                                            ))}
+                                        </Select>
+                                    }
+                                />
+                            )}
+                        </Box>
+
+                        {/* Shot Clock */}
+                        <Box
+                            sx={{
+                                borderRadius: 1,
+                                overflow: "hidden",
+                                border: (t) => `1px solid ${t.palette.divider}`,
+                                mb: 1,
+                            }}
+                        >
+                            <RowShell
+                                title="Shot Clock"
+                                description="Time limit for each turn, counted down for everyone."
+                                right={null}
+                            />
+                            <RowShell
+                                dense
+                                title="PC Turns"
+                                right={
+                                    <ShotClockSecondsSelect
+                                        value={value.shotClockPcSeconds ?? 0}
+                                        onChange={(next) => set({ shotClockPcSeconds: next })}
+                                        label="shot clock for PC turns"
+                                    />
+                                }
+                            />
+                            <RowShell
+                                dense
+                                title="NPC Turns"
+                                right={
+                                    <ShotClockSecondsSelect
+                                        value={value.shotClockNpcSeconds ?? 0}
+                                        onChange={(next) => set({ shotClockNpcSeconds: next })}
+                                        label="shot clock for NPC turns"
+                                    />
+                                }
+                            />
+                            <RowShell
+                                dense
+                                title="When Time Runs Out"
+                                description="Dodge ends the turn with the Dodge action."
+                                right={
+                                    <ShotClockExpirySelect
+                                        value={value.shotClockExpiry ?? "notify"}
+                                        onChange={(next) => set({ shotClockExpiry: next })}
+                                    />
+                                }
+                            />
+                        </Box>
                     </Box>
                 </Stack>
             </Box>
@@ -0,0 +1,68 @@
+import Box from "@mui/material/Box";
+import IconButton from "@mui/material/IconButton";
+import LinearProgress from "@mui/material/LinearProgress";
+import Stack from "@mui/material/Stack";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+import TimerRounded from "@mui/icons-material/TimerRounded";
+import PauseRounded from "@mui/icons-material/PauseRounded";
+import PlayArrowRounded from "@mui/icons-material/PlayArrowRounded";
+import OBR from "@owlbear-rodeo/sdk";
+import { pauseShotClock, resumeShotClock, SHOT_CLOCK_WARNING, type ShotClock } from "./shotClock";
+
+type Props = {
+    clock: ShotClock;
+    /** Seconds left */
+    remaining: number;
+    /** GM: show the pause / resume button */
+    controls?: boolean;
+};
+
+const formatTime = (seconds: number) => {
+    const s = Math.ceil(seconds);
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+};
+
+/** Countdown for the current turn, shared by every client. Turns orange in the last seconds. */
+export function ShotClockBar({ clock, remaining, controls = false }: Props) {
+    const paused = clock.pausedAt !== null;
+    const color = remaining <= 0 ? "error" : remaining <= SHOT_CLOCK_WARNING ? "warning" : "primary";
+
+    const togglePause = () =>
+        (paused ? resumeShotClock() : pauseShotClock()).catch((error) => {
+            console.error("Failed to update shot clock:", error);
+            OBR.notification.show("Failed to update shot clock", "ERROR");
+        });
+
+    return (
+        <Box sx={{ px: 1, py: 0.5, borderBottom: 1, borderColor: "divider", bgcolor: "background.default" }}>
+            <Stack direction="row" alignItems="center" spacing={1}>
+                <TimerRounded sx={{ fontSize: 16, color: `${color}.main` }} />
+                <Typography noWrap sx={{ fontSize: "0.8rem", fontWeight: 700, flex: 1, minWidth: 0 }}>
+                    {clock.name || "Unnamed"}
+                    {paused && (
+                        <Box component="span" sx={{ ml: 0.75, fontWeight: 400, color: "text.secondary" }}>
+                            (paused)
+                        </Box>
+                    )}
+                </Typography>
+                <Typography sx={{ fontSize: "0.8rem", fontWeight: 700, color: `${color}.main`, fontVariantNumeric: "tabular-nums" }}>
+                    {remaining <= 0 ? "Time's up" : formatTime(remaining)}
+                </Typography>
+                {controls && (
+                    <Tooltip title={paused ? "Resume clock" : "Pause clock"}>
+                        <IconButton size="small" onClick={togglePause} sx={{ p: 0.25 }}>
+                            {paused ? <PlayArrowRounded sx={{ fontSize: 16 }} /> : <PauseRounded sx={{ fontSize: 16 }} />}
+                        </IconButton>
+                    </Tooltip>
+                )}
+            </Stack>
+            <LinearProgress
+                variant="determinate"
+                color={color}
+                value={clock.duration > 0 ? (remaining / clock.duration) * 100 : 0}
+                sx={{ mt: 0.5, height: 3, borderRadius: 1 }}
+            />
+        </Box>
+    );
+}
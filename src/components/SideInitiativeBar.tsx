@@ -0,0 +1,52 @@
+import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
+import IconButton from "@mui/material/IconButton";
+import Stack from "@mui/material/Stack";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+import CasinoRounded from "@mui/icons-material/CasinoRounded";
+import OBR from "@owlbear-rodeo/sdk";
+import type { InitiativeItem } from "./InitiativeItem";
+import { withHistory } from "./history";
+import { rollSideInitiative, SIDE_LABELS, SIDES, type SideInitiative } from "./sides";
+
+type Props = {
+    sides: SideInitiative;
+    items: InitiativeItem[];
+};
+
+const chipSx = {
+    height: 18,
+    fontSize: "0.7rem",
+    fontWeight: 600,
+    "& .MuiChip-label": { px: 0.75 },
+};
+
+/** GM strip showing each side's roll, with a button to reroll both. */
+export function SideInitiativeBar({ sides, items }: Props) {
+    const reroll = () =>
+        withHistory("Roll side initiative", () => rollSideInitiative(items)).catch((error) => {
+            console.error("Failed to roll side initiative:", error);
+            OBR.notification.show("Failed to roll side initiative", "ERROR");
+        });
+
+    const order = [...SIDES].sort((a, b) => sides[b] - sides[a]);
+
+    return (
+        <Box sx={{ px: 1, py: 0.5, borderBottom: 1, borderColor: "divider", bgcolor: "background.default" }}>
+            <Stack direction="row" alignItems="center" spacing={1}>
+                <Typography sx={{ fontSize: "0.8rem", fontWeight: 700 }}>Side initiative</Typography>
+                <Stack direction="row" spacing={0.5} sx={{ flex: 1 }}>
+                    {order.map((side) => (
+                        <Chip key={side} label={`${SIDE_LABELS[side]} ${sides[side]}`} size="small" variant="outlined" sx={chipSx} />
+                    ))}
+                </Stack>
+                <Tooltip title="Reroll sides">
+                    <IconButton size="small" onClick={reroll} sx={{ p: 0.25 }}>
+                        <CasinoRounded sx={{ fontSize: 16 }} />
+                    </IconButton>
+                </Tooltip>
+            </Stack>
+        </Box>
+    );
+}
@@ -0,0 +1,42 @@
+import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
+import Tooltip from "@mui/material/Tooltip";
+
+type Props = {
+    labels?: string[];
+    color?: "default" | "secondary" | "info" | "warning";
+    /** How many chips to show before collapsing the rest into "+N" */
+    max?: number;
+};
+
+const chipSx = {
+    height: 16,
+    fontSize: "0.65rem",
+    fontWeight: 600,
+    borderRadius: 1,
+    flexShrink: 0,
+    "& .MuiChip-label": { px: 0.5 },
+};
+
+/**
+ * Compact, read-only chips for table rows (conditions, timed effects).
+ */
+export function StatusChips({ labels, color = "secondary", max = 2 }: Props) {
+    if (!labels || labels.length === 0) return null;
+
+    const shown = labels.slice(0, max);
+    const hidden = labels.slice(max);
+
+    return (
+        <Box sx={{ display: "inline-flex", alignItems: "center", gap: 0.25, flexShrink: 0 }}>
+            {shown.map((c) => (
+                <Chip key={c} label={c} size="small" color={color} variant="outlined" sx={chipSx} />
+            ))}
+            {hidden.length > 0 && (
+                <Tooltip title={hidden.join(", ")}>
+                    <Chip label={`+${hidden.length}`} size="small" variant="outlined" sx={chipSx} />
+                </Tooltip>
+            )}
+        </Box>
+    );
+}
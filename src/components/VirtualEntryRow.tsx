@@ -0,0 +1,194 @@
+import TableRow from "@mui/material/TableRow";
+import TableCell from "@mui/material/TableCell";
+import Box from "@mui/material/Box";
+import IconButton from "@mui/material/IconButton";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+import { alpha } from "@mui/material/styles";
+import CastleRounded from "@mui/icons-material/CastleRounded";
+import WarningAmberRounded from "@mui/icons-material/WarningAmberRounded";
+import HourglassBottomRounded from "@mui/icons-material/HourglassBottomRounded";
+import VisibilityRounded from "@mui/icons-material/VisibilityRounded";
+import VisibilityOffRounded from "@mui/icons-material/VisibilityOffRounded";
+import DeleteOutlineRounded from "@mui/icons-material/DeleteOutlineRounded";
+import OBR from "@owlbear-rodeo/sdk";
+import { CommitNumberField, CommitTextField } from "./CommitFields";
+import {
+    removeVirtualEntry,
+    updateVirtualEntry,
+    VIRTUAL_KIND_LABELS,
+    type VirtualEntry,
+    type VirtualEntryKind,
+} from "./virtualEntries";
+
+type Props = {
+    entry: VirtualEntry;
+    /** Number of columns in the table */
+    colSpan: number;
+};
+
+const VIRTUAL_KIND_ICONS: Record<VirtualEntryKind, typeof CastleRounded> = {
+    lair: CastleRounded,
+    hazard: WarningAmberRounded,
+    countdown: HourglassBottomRounded,
+};
+
+const inputSx = {
+    "& .MuiOutlinedInput-root": { borderRadius: 0.25, height: 28, p: 0 },
+    "& .MuiOutlinedInput-input": { fontSize: "0.8rem", lineHeight: 1.25, py: 0 },
+};
+
+const numberInput = {
+    inputMode: "numeric" as const,
+    pattern: "[0-9]*",
+    style: { textAlign: "center" as const, padding: "0 1px", fontSize: "0.8rem" },
+};
+
+const run = (action: Promise<void>) =>
+    action.catch((error) => {
+        console.error("Failed to update entry:", error);
+        OBR.notification.show("Failed to update entry", "ERROR");
+    });
+
+/** GM row for a token-less turn-order entry (lair actions, hazards, countdowns). */
+export default function VirtualEntryRow({ entry, colSpan }: Props) {
+    const Icon = VIRTUAL_KIND_ICONS[entry.kind];
+    const update = (patch: Partial<Omit<VirtualEntry, "id">>) => run(updateVirtualEntry(entry.id, patch));
+
+    return (
+        <TableRow
+            hover
+            selected={entry.active}
+            sx={{
+                "& td": { py: 0.5, px: 0.5 },
+                borderLeft: "3px solid",
+                borderLeftColor: entry.active ? "success.light" : "transparent",
+            }}
+        >
+            <TableCell width={18} align="center">
+                <Tooltip title={VIRTUAL_KIND_LABELS[entry.kind]}>
+                    <Icon sx={{ fontSize: "1rem", display: "block", color: "text.secondary" }} />
+                </Tooltip>
+            </TableCell>
+
+            <TableCell width={40} align="center">
+                <CommitNumberField
+                    size="small"
+                    variant="outlined"
+                    value={entry.initiative}
+                    inputMode="decimal"
+                    pattern="[0-9]*\\.?[0-9]?"
+                    finalize={(n) => Math.round(n * 10) / 10}
+                    onCommit={(initiative) => update({ initiative })}
+                    sx={inputSx}
+                    slotProps={{
+                        htmlInput: {
+                            ...numberInput,
+                            onFocus: (e: React.FocusEvent<HTMLInputElement>) => e.currentTarget.select(),
+                            "aria-label": "initiative",
+                            style: { ...numberInput.style, width: 32 },
+                        },
+                    }}
+                />
+            </TableCell>
+
+            <TableCell colSpan={Math.max(1, colSpan - 2)}>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 0.5, minWidth: 0 }}>
+                    <CommitTextField
+                        size="small"
+                        variant="outlined"
+                        value={entry.name}
+                        onCommit={(name: string) => update({ name: name.trim() || VIRTUAL_KIND_LABELS[entry.kind] })}
+                        sx={{ ...inputSx, flex: 1, minWidth: 0, "& .MuiOutlinedInput-input": { ...inputSx["& .MuiOutlinedInput-input"], fontWeight: 600, px: 0.75 } }}
+                        slotProps={{ htmlInput: { "aria-label": "entry name" } }}
+                    />
+                    {entry.kind === "countdown" && (
+                        <Tooltip title="Turns left">
+                            <Box sx={{ display: "flex", alignItems: "center", gap: 0.25 }}>
+                                <CommitNumberField
+                                    size="small"
+                                    variant="outlined"
+                                    value={entry.rounds ?? 0}
+                                    min={0}
+                                    finalize={(n) => Math.floor(n)}
+                                    onCommit={(rounds) => update({ rounds })}
+                                    sx={inputSx}
+                                    slotProps={{
+                                        htmlInput: {
+                                            ...numberInput,
+                                            "aria-label": "turns left",
+                                            style: { ...numberInput.style, width: 28 },
+                                        },
+                                    }}
+                                />
+                                {entry.rounds === 0 && (
+                                    <Typography sx={{ fontSize: "0.7rem", fontWeight: 700, color: "warning.main" }}>Done</Typography>
+                                )}
+                            </Box>
+                        </Tooltip>
+                    )}
+                    <Tooltip title={entry.visible ? "Shown to players" : "Hidden from players"}>
+                        <IconButton size="small" onClick={() => update({ visible: !entry.visible })} sx={{ p: 0.25 }}>
+                            {entry.visible
+                                ? <VisibilityRounded sx={{ fontSize: 16 }} />
+                                : <VisibilityOffRounded sx={{ fontSize: 16, opacity: 0.7 }} />}
+                        </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Remove">
+                        <IconButton size="small" onClick={() => run(removeVirtualEntry(entry.id))} sx={{ p: 0.25 }}>
+                            <DeleteOutlineRounded sx={{ fontSize: 16 }} />
+                        </IconButton>
+                    </Tooltip>
+                </Box>
+            </TableCell>
+        </TableRow>
+    );
+}
+
+/** Read-only player row for a visible virtual entry. */
+export function PlayerVirtualEntryRow({ entry, colSpan }: Props) {
+    const Icon = VIRTUAL_KIND_ICONS[entry.kind];
+
+    return (
+        <TableRow
+            selected={entry.active}
+            sx={{
+                height: "45px",
+                "& td": { py: 0.4, px: 0.5 },
+                backgroundColor: entry.active ? (t) => alpha(t.palette.success.main, 0.12) : "inherit",
+                outline: entry.active ? (t) => `1px solid ${alpha(t.palette.success.main, 0.35)}` : "none",
+            }}
+        >
+            <TableCell width={28} />
+            <TableCell width={40} align="center">
+                <Box
+                    sx={{
+                        display: "inline-flex",
+                        px: 0.6,
+                        py: 0.25,
+                        borderRadius: 1,
+                        bgcolor: "action.selected",
+                        fontSize: "0.7rem",
+                        fontWeight: 700,
+                        lineHeight: 1,
+                    }}
+                >
+                    {entry.initiative}
+                </Box>
+            </TableCell>
+            <TableCell align="center">
+                <Icon sx={{ fontSize: 24, color: "text.secondary", display: "block", mx: "auto" }} />
+            </TableCell>
+            <TableCell colSpan={Math.max(1, colSpan - 3)}>
+                <Typography noWrap sx={{ fontWeight: entry.active ? 700 : 600, fontSize: "0.85rem", fontStyle: "italic", userSelect: "none" }}>
+                    {entry.name}
+                    {entry.kind === "countdown" && entry.rounds != null && (
+                        <Box component="span" sx={{ ml: 0.75, fontStyle: "normal", fontWeight: 400, color: "text.secondary" }}>
+                            {entry.rounds === 0 ? "(done)" : `(${entry.rounds} left)`}
+                        </Box>
+                    )}
+                </Typography>
+            </TableCell>
+        </TableRow>
+    );
+}
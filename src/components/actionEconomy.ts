@@ -0,0 +1,25 @@
+/* =========================
+   Action economy
+   =========================
+   What a combatant has spent this turn. Stored on the token as the list of
+   used kinds; everything comes back at the start of its own turn.
+*/
+
+export type ActionKind = "action" | "bonus" | "reaction" | "movement";
+
+export const ACTION_KINDS: ActionKind[] = ["action", "bonus", "reaction", "movement"];
+
+export const ACTION_LABELS: Record<ActionKind, { short: string; name: string }> = {
+    action: { short: "A", name: "Action" },
+    bonus: { short: "B", name: "Bonus action" },
+    reaction: { short: "R", name: "Reaction" },
+    movement: { short: "M", name: "Movement" },
+};
+
+/** Flip one kind between used and available, keeping the list in ACTION_KINDS order. */
+export function toggleActionUsed(used: ActionKind[] | undefined, kind: ActionKind): ActionKind[] {
+    const set = new Set(used ?? []);
+    if (set.has(kind)) set.delete(kind);
+    else set.add(kind);
+    return ACTION_KINDS.filter((k) => set.has(k));
+}
@@ -0,0 +1,192 @@
+import OBR, { type Item } from "@owlbear-rodeo/sdk";
+import { META_KEY, readMeta, type MetaShape } from "./metadata";
+import { adjustDamage, applyDamageToHP, describeAdjustment, type DamageAdjustment, type DamageType } from "./damage";
+import { rollDie } from "./dice";
+import { appendCombatLog, hpChangeEvents, type CombatLogEvent } from "./combatLog";
+import { withHistory } from "./history";
+import { requestConcentrationChecks } from "./concentration";
+import { EMPTY_DEATH_SAVES, deathSavesAfterHPChange, describeDeathSaveChange, type DeathSaves } from "./deathSaves";
+
+/* =========================
+   Area damage (Fireball & co.)
+   ========================= */
+
+export const AREA_DAMAGE_MODAL_ID = META_KEY + "/area-damage-modal";
+const PENDING_KEY = META_KEY + "/pendingDamageTokens";
+
+export const SAVE_ABILITIES = ["STR", "DEX", "CON", "INT", "WIS", "CHA"] as const;
+export type SaveAbility = (typeof SAVE_ABILITIES)[number];
+
+export type SaveOutcome = "pass" | "fail";
+
+export type AreaTarget = {
+    id: string;
+    name: string;
+    currentHP: number;
+    maxHP: number;
+    tempHP: number;
+    concentrating: boolean;
+    playerCharacter: boolean;
+    deathSaves: DeathSaves | null;
+    resistances: string[];
+    vulnerabilities: string[];
+    immunities: string[];
+    /** Bonus added to auto-rolled saves */
+    saveBonus: number;
+    outcome: SaveOutcome | null;
+    /** Last auto-rolled save total, for display */
+    saveRoll?: number | null;
+};
+
+export type AreaDamageOptions = {
+    amount: number;
+    damageType: DamageType | null;
+    /** Null when the effect allows no save */
+    save: { ability: SaveAbility; dc: number } | null;
+    halfOnSuccess: boolean;
+    /** A critical hit: damage to a creature at 0 HP counts as two death save failures */
+    critical: boolean;
+};
+
+export type TargetResult = {
+    damage: number;
+    saved: boolean;
+    adjustment: DamageAdjustment | null;
+    next: { currentHP: number; tempHP: number };
+    /** Updated death save counters, when the hit changes them */
+    deathSaves?: DeathSaves;
+};
+
+export function targetFromItem(item: Item): AreaTarget | null {
+    const meta = readMeta(item);
+    if (!meta) return null;
+    return {
+        id: item.id,
+        name: meta.name || item.name || "Unnamed",
+        currentHP: meta.currentHP,
+        maxHP: meta.maxHP,
+        tempHP: meta.tempHP || 0,
+        concentrating: !!meta.concentrating,
+        playerCharacter: !!meta.playerCharacter,
+        deathSaves: meta.deathSaves ?? null,
+        resistances: meta.resistances ?? [],
+        vulnerabilities: meta.vulnerabilities ?? [],
+        immunities: meta.immunities ?? [],
+        saveBonus: 0,
+        outcome: null,
+    };
+}
+
+/** Roll d20 + bonus against the DC. */
+export function rollSave(target: AreaTarget, dc: number): AreaTarget {
+    const total = rollDie(20) + target.saveBonus;
+    return { ...target, saveRoll: total, outcome: total >= dc ? "pass" : "fail" };
+}
+
+/** Damage one target takes: the save halves (or negates) first, then defenses apply. */
+export function resolveTarget(target: AreaTarget, options: AreaDamageOptions): TargetResult {
+    const saved = !!options.save && target.outcome === "pass";
+    let damage = saved ? (options.halfOnSuccess ? Math.floor(options.amount / 2) : 0) : options.amount;
+
+    let adjustment: DamageAdjustment | null = null;
+    if (options.damageType && damage > 0) {
+        adjustment = adjustDamage(damage, options.damageType, target);
+        damage = adjustment.amount;
+    }
+
+    const next = applyDamageToHP(target, damage);
+    const hpDamage = Math.max(0, damage - (target.tempHP - next.tempHP));
+    const deathSaves = damage > 0 ? deathSavesAfterHPChange(target, next.currentHP, hpDamage, options.critical) : undefined;
+    return { damage, saved, adjustment, next, deathSaves };
+}
+
+/**
+ * Apply the damage to every target in one metadata write (one undo step),
+ * then log it and queue a concentration check for each concentrating target.
+ * `targets` supply the save outcomes and bonuses; HP, defenses and death saves
+ * are read from each token as it is written, so edits made while the dialog
+ * was open are kept.
+ */
+export async function applyAreaDamage(targets: AreaTarget[], options: AreaDamageOptions, label: string): Promise<void> {
+    const byId = new Map(targets.map((t) => [t.id, t]));
+    const results: { target: AreaTarget; result: TargetResult }[] = [];
+
+    await withHistory(label, (tx) => tx.updateItems([...byId.keys()], (items) => {
+        for (const item of items) {
+            const fresh = targetFromItem(item);
+            const chosen = byId.get(item.id);
+            if (!fresh || !chosen) continue;
+            // Plain copy: the draft is gone once the write is done
+            const target: AreaTarget = {
+                ...JSON.parse(JSON.stringify(fresh)),
+                saveBonus: chosen.saveBonus,
+                outcome: chosen.outcome,
+                saveRoll: chosen.saveRoll,
+            };
+            const result = resolveTarget(target, options);
+            results.push({ target, result });
+
+            if (result.next.currentHP === target.currentHP && result.next.tempHP === target.tempHP && !result.deathSaves) continue;
+            const meta = (item.metadata as Record<string, unknown>)[META_KEY] as MetaShape;
+            Object.assign(meta, result.next);
+            if (result.deathSaves) meta.deathSaves = result.deathSaves;
+        }
+    }));
+
+    const events: CombatLogEvent[] = [];
+    for (const { target, result } of results) {
+        const notes: string[] = [];
+        if (options.save) {
+            const roll = target.saveRoll != null ? ` (${target.saveRoll})` : "";
+            notes.push(`${options.save.ability} save${roll} ${result.saved ? "succeeded" : "failed"}`);
+        }
+        if (result.adjustment) notes.push(describeAdjustment(result.adjustment));
+        if (options.critical) notes.push("critical hit");
+        const detail = [label, ...notes].join("; ");
+
+        const hpEvents = hpChangeEvents(target, target, result.next, detail);
+        if (hpEvents.length === 0) {
+            events.push({ kind: "damage", actorId: target.id, actorName: target.name, amount: 0, text: `${target.name} takes no damage — ${detail}` });
+        } else {
+            events.push(...hpEvents);
+        }
+
+        if (result.deathSaves) {
+            const text = describeDeathSaveChange(target.name, target.deathSaves ?? EMPTY_DEATH_SAVES, result.deathSaves);
+            if (text) events.push({ kind: "deathSave", actorId: target.id, actorName: target.name, text });
+        }
+
+    }
+    await appendCombatLog(events);
+
+    await requestConcentrationChecks(results
+        .filter(({ target, result }) => result.damage > 0 && target.concentrating)
+        .map(({ target, result }) => ({ tokenId: target.id, tokenName: target.name, damage: result.damage })));
+}
+
+/* =========================
+   Modal plumbing
+   ========================= */
+
+/** Open the area damage dialog for the given tokens (defaults to the current selection). */
+export async function openAreaDamage(ids?: string[]): Promise<void> {
+    const tokenIds = ids ?? (await OBR.player.getSelection()) ?? [];
+    await OBR.player.setMetadata({ [PENDING_KEY]: tokenIds });
+    await OBR.modal.open({
+        id: AREA_DAMAGE_MODAL_ID,
+        url: "/areadamage.html",
+        height: 560,
+        width: 480,
+    });
+}
+
+export async function readPendingDamageTokens(): Promise<string[]> {
+    const meta = await OBR.player.getMetadata();
+    const ids = meta[PENDING_KEY];
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+}
+
+export async function closeAreaDamage(): Promise<void> {
+    await OBR.player.setMetadata({ [PENDING_KEY]: undefined });
+    await OBR.modal.close(AREA_DAMAGE_MODAL_ID);
+}
@@ -0,0 +1,141 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { batchUpdateMeta, type MetaShape } from "./metadata";
+import { appendCombatLog, type CombatLogEvent } from "./combatLog";
+import { rollersFor, type InitiativeRollScope } from "./initiativeRolls";
+import { UNRECORDED, type HistoryTransaction } from "./history";
+import type { InitiativeItem } from "./InitiativeItem";
+import type { InitiativeOrderKey } from "./utils";
+
+/* =========================
+   Card initiative (Savage Worlds style)
+   =========================
+   A 54-card deck lives in scene metadata. Each round every combatant (groups
+   once) is dealt a card, kept in its own field so the combatant's initiative
+   is left alone; in cards mode the turn order sorts by `cardOrderKey`. Cards
+   are strings: "Q♥", "10♠", "Red Joker".
+*/
+
+export const CARD_DECK_META_KEY = getPluginId("cardDeck");
+
+/** Low to high: ties on rank go clubs, diamonds, hearts, spades */
+const SUITS = ["♣", "♦", "♥", "♠"];
+const RANKS = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
+const JOKERS = ["Black Joker", "Red Joker"];
+
+export type CardDeck = {
+    /** Cards left to draw, top of the deck last */
+    pile: string[];
+    /** A joker came up: shuffle everything back in before the next deal */
+    reshuffle: boolean;
+};
+
+export function isJoker(card: string): boolean {
+    return JOKERS.includes(card);
+}
+
+export function isRedCard(card: string): boolean {
+    return card === "Red Joker" || card.endsWith("♥") || card.endsWith("♦");
+}
+
+/** Sort value of a card: 2♣ = 8 … A♠ = 59, jokers above everything. */
+export function cardValue(card: string): number {
+    const joker = JOKERS.indexOf(card);
+    if (joker !== -1) return 100 + joker;
+    const suit = SUITS.indexOf(card.slice(-1));
+    const rank = RANKS.indexOf(card.slice(0, -1));
+    return (rank + 2) * 4 + suit;
+}
+
+/** Sort key under card initiative: the dealt card's value, or the initiative when there's no card (token-less entries). */
+export function cardOrderKey(item: {
+    initiative: number;
+    initiativeCard?: string | null;
+    name?: string | null;
+}): InitiativeOrderKey {
+    return { initiative: item.initiativeCard ? cardValue(item.initiativeCard) : item.initiative, name: item.name };
+}
+
+function newDeck(): string[] {
+    const cards = [...JOKERS];
+    for (const rank of RANKS) {
+        for (const suit of SUITS) cards.push(`${rank}${suit}`);
+    }
+    // Fisher–Yates
+    for (let i = cards.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [cards[i], cards[j]] = [cards[j], cards[i]];
+    }
+    return cards;
+}
+
+function parseDeck(raw: unknown): CardDeck | null {
+    if (!raw || typeof raw !== "object") return null;
+    const d = raw as Partial<CardDeck>;
+    if (!Array.isArray(d.pile)) return null;
+    return { pile: d.pile.filter((c): c is string => typeof c === "string"), reshuffle: !!d.reshuffle };
+}
+
+export async function readCardDeck(): Promise<CardDeck | null> {
+    const meta = await OBR.scene.getMetadata();
+    return parseDeck(meta[CARD_DECK_META_KEY]);
+}
+
+/**
+ * Deal initiative cards to the combatants in scope. A combatant draws
+ * `initiativeDraw` cards and keeps the best (Level Headed); Quick redraws
+ * anything of 5 or lower. The deck is reshuffled before the deal when a joker
+ * came up last time, or when it runs out. Returns the token patches written.
+ */
+export async function dealInitiativeCards(
+    rows: InitiativeItem[],
+    scope: InitiativeRollScope = "all",
+    tx: HistoryTransaction = UNRECORDED,
+): Promise<{ id: string; patch: Partial<MetaShape> }[]> {
+    const rollers = rollersFor(rows, scope);
+    if (rollers.length === 0) return [];
+
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    const existing = await readCardDeck();
+    let pile = !existing || existing.reshuffle ? newDeck() : existing.pile;
+    let reshuffle = false;
+
+    const draw = (): string => {
+        if (pile.length === 0) pile = newDeck();
+        return pile.pop()!;
+    };
+
+    const patches: { id: string; patch: Partial<MetaShape> }[] = [];
+    const events: CombatLogEvent[] = [];
+    for (const roller of rollers) {
+        const members = roller.ids.map((id) => byId.get(id)).filter((row): row is InitiativeItem => !!row);
+        const count = Math.max(1, ...members.map((row) => row.initiativeDraw ?? 1));
+        const quick = members.some((row) => row.initiativeQuick);
+
+        const drawn = Array.from({ length: count }, draw);
+        let card = drawn.reduce((best, c) => (cardValue(c) > cardValue(best) ? c : best));
+        while (quick && !isJoker(card) && RANKS.indexOf(card.slice(0, -1)) <= RANKS.indexOf("5")) {
+            card = draw();
+            drawn.push(card);
+        }
+        if (drawn.some(isJoker)) reshuffle = true;
+
+        for (const id of roller.ids) {
+            patches.push({ id, patch: { initiativeCard: card } });
+        }
+        const detail = drawn.length > 1 ? ` (drew ${drawn.join(", ")})` : "";
+        events.push({
+            kind: "initiative",
+            actorId: roller.id,
+            actorName: roller.name,
+            text: `${roller.name} is dealt ${card}${detail}`,
+        });
+    }
+
+    await batchUpdateMeta(OBR, patches, tx);
+    await OBR.scene.setMetadata({ [CARD_DECK_META_KEY]: { pile, reshuffle } satisfies CardDeck });
+    if (reshuffle) events.push({ kind: "initiative", text: "A joker was dealt: the deck will be reshuffled next round" });
+    await appendCombatLog(events);
+
+    return patches;
+}
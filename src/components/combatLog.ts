@@ -0,0 +1,300 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { SCENE_META_KEY } from "./SceneState";
+
+/* =========================
+   Combat log (scene metadata)
+   =========================
+   Only the GM writes the log. Players send their entries to the GM over a
+   broadcast, so two clients never rewrite the list at the same time.
+
+   Scene metadata is capped at 16 kB for all extensions together, so the scene
+   only holds the latest entries. Every GM client with the tracker open copies
+   the entries it sees into an archive in its browser storage, and the log
+   view and exports read the archive and the scene together.
+*/
+
+export const COMBAT_LOG_META_KEY = getPluginId("combatLog");
+/** Names this scene's log in the archive; a new one is made when the log is cleared */
+const COMBAT_LOG_ID_KEY = getPluginId("combatLogId");
+const COMBAT_LOG_CHANNEL = getPluginId("combatLogEntries");
+
+/** Entries kept in the scene (about 200 bytes each) */
+const MAX_LOG_ENTRIES = 25;
+/** Entries kept in a GM's archive, per scene log */
+const MAX_ARCHIVED_ENTRIES = 5000;
+
+export type CombatLogKind =
+    | "damage"
+    | "healing"
+    | "tempHP"
+    | "turn"
+    | "round"
+    | "combat"     // start / end of combat
+    | "staging"
+    | "added"
+    | "removed"
+    | "effect"
+    | "deathSave"
+    | "concentration"
+    | "recharge"
+    | "initiative";
+
+export type CombatLogEntry = {
+    id: string;
+    /** Epoch milliseconds */
+    ts: number;
+    /** Round when the event happened (0 outside combat) */
+    round: number;
+    kind: CombatLogKind;
+    /** Token (or group) the entry is about, for filtering */
+    actorId?: string | null;
+    actorName?: string | null;
+    /** Signed amount for HP events (negative = damage) */
+    amount?: number | null;
+    text: string;
+};
+
+export type CombatLogEvent = Omit<CombatLogEntry, "id" | "ts" | "round">;
+
+function isLogEntry(v: unknown): v is CombatLogEntry {
+    if (!v || typeof v !== "object") return false;
+    const e = v as Record<string, unknown>;
+    return typeof e.id === "string" && typeof e.ts === "number" && typeof e.kind === "string" && typeof e.text === "string";
+}
+
+function parseLog(raw: unknown): CombatLogEntry[] {
+    return Array.isArray(raw) ? raw.filter(isLogEntry) : [];
+}
+
+const newLogId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/* =========================
+   Archive (GM browser storage)
+   ========================= */
+
+const archiveKey = (logId: string) => `${COMBAT_LOG_META_KEY}/${OBR.room.id}/${logId}`;
+
+function readArchive(logId: string): CombatLogEntry[] {
+    try {
+        return parseLog(JSON.parse(localStorage.getItem(archiveKey(logId)) ?? "[]"));
+    } catch {
+        return [];
+    }
+}
+
+/** Add entries to the archive. Returns the archive plus the new entries, oldest first. */
+function archiveEntries(logId: string, entries: CombatLogEntry[]): CombatLogEntry[] {
+    const archive = readArchive(logId);
+    const known = new Set(archive.map((e) => e.id));
+    const added = entries.filter((e) => !known.has(e.id));
+    if (added.length === 0) return archive;
+
+    const merged = [...archive, ...added].sort((a, b) => a.ts - b.ts).slice(-MAX_ARCHIVED_ENTRIES);
+    try {
+        localStorage.setItem(archiveKey(logId), JSON.stringify(merged));
+    } catch (error) {
+        console.error("Failed to archive combat log:", error);
+    }
+    return merged;
+}
+
+/** The scene's entries plus what this client archived of the same log. */
+function fullLog(meta: Record<string, unknown>): CombatLogEntry[] {
+    const log = parseLog(meta[COMBAT_LOG_META_KEY]);
+    const logId = meta[COMBAT_LOG_ID_KEY];
+    return typeof logId === "string" ? archiveEntries(logId, log) : log;
+}
+
+export async function readCombatLog(): Promise<CombatLogEntry[]> {
+    return fullLog(await OBR.scene.getMetadata());
+}
+
+// The GM's own appends run one at a time so a burst of events can't drop any
+let writing: Promise<void> = Promise.resolve();
+
+/** GM only. Entries already in the log (sent to a second GM window too) are skipped. */
+function writeEntries(entries: CombatLogEntry[]): Promise<void> {
+    writing = writing.then(async () => {
+        const meta = await OBR.scene.getMetadata();
+        const log = parseLog(meta[COMBAT_LOG_META_KEY]);
+        const known = new Set(log.map((e) => e.id));
+        const added = entries.filter((e) => !known.has(e.id));
+        if (added.length === 0) return;
+        const logId = typeof meta[COMBAT_LOG_ID_KEY] === "string" ? meta[COMBAT_LOG_ID_KEY] as string : newLogId();
+        // Archive before the oldest entries drop out of the scene
+        archiveEntries(logId, [...log, ...added]);
+        await OBR.scene.setMetadata({
+            [COMBAT_LOG_META_KEY]: [...log, ...added].slice(-MAX_LOG_ENTRIES),
+            [COMBAT_LOG_ID_KEY]: logId,
+        });
+    }).catch((error) => console.error("Failed to append to combat log:", error));
+    return writing;
+}
+
+/**
+ * Append events to the log. The current round is read from scene state so
+ * callers outside the turn engine (HP edits, context menus) don't need it.
+ * On a player's client the entries go to the GM, who writes them.
+ */
+export async function appendCombatLog(events: CombatLogEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    try {
+        const meta = await OBR.scene.getMetadata();
+        const scene = meta[SCENE_META_KEY] as { started?: boolean; round?: number } | undefined;
+        const round = scene?.started && typeof scene.round === "number" ? scene.round : 0;
+        const now = Date.now();
+
+        const added = events.map((event, i) => ({
+            ...event,
+            id: `log-${now}-${i}-${Math.random().toString(36).slice(2, 6)}`,
+            ts: now,
+            round,
+        }));
+
+        if ((await OBR.player.getRole()) === "GM") {
+            await writeEntries(added);
+        } else {
+            await OBR.broadcast.sendMessage(COMBAT_LOG_CHANNEL, added, { destination: "REMOTE" });
+        }
+    } catch (error) {
+        console.error("Failed to append to combat log:", error);
+    }
+}
+
+/** GM side: write the entries players send. Returns an unsubscribe. */
+export function relayPlayerCombatLog() {
+    return OBR.broadcast.onMessage(COMBAT_LOG_CHANNEL, (event) => {
+        const entries = parseLog(event.data);
+        if (entries.length > 0) writeEntries(entries);
+    });
+}
+
+/** GM side: archive entries as they arrive, before they drop out of the scene. Returns an unsubscribe. */
+export function archiveCombatLog() {
+    readCombatLog().catch((error) => console.error("Failed to archive combat log:", error));
+    return OBR.scene.onMetadataChange((meta) => {
+        fullLog(meta);
+    });
+}
+
+export function logCombatEvent(event: CombatLogEvent): Promise<void> {
+    return appendCombatLog([event]);
+}
+
+/** Empty the log. It starts over under a new id, so every GM's archive of the old one is left behind. */
+export async function clearCombatLog(): Promise<void> {
+    const meta = await OBR.scene.getMetadata();
+    const logId = meta[COMBAT_LOG_ID_KEY];
+    if (typeof logId === "string") localStorage.removeItem(archiveKey(logId));
+    await OBR.scene.setMetadata({ [COMBAT_LOG_META_KEY]: [], [COMBAT_LOG_ID_KEY]: newLogId() });
+}
+
+export function onCombatLogChange(cb: (log: CombatLogEntry[]) => void) {
+    readCombatLog().then(cb);
+    return OBR.scene.onMetadataChange((meta) => cb(fullLog(meta)));
+}
+
+/* =========================
+   Event helpers
+   ========================= */
+
+/** One "joined"/"left" entry per token. */
+export function rosterEvents(
+    kind: "added" | "removed",
+    actors: { id: string; name?: string | null }[],
+    detail = "",
+): CombatLogEvent[] {
+    return actors.map((actor) => {
+        const name = actor.name || "Unnamed";
+        const verb = kind === "added" ? "joins the fight" : "leaves the fight";
+        return { kind, actorId: actor.id, actorName: name, text: `${name} ${verb}${detail}` };
+    });
+}
+
+/**
+ * Describe a current/temp HP change as log events (damage, healing, temp HP).
+ * `detail` (e.g. a dice breakdown) is appended to each entry.
+ */
+export function hpChangeEvents(
+    actor: { id: string; name: string },
+    before: { currentHP: number; tempHP: number },
+    after: { currentHP: number; tempHP: number },
+    detail?: string | null,
+): CombatLogEvent[] {
+    const events: CombatLogEvent[] = [];
+    const name = actor.name || "Unnamed";
+    const suffix = detail ? ` — ${detail}` : "";
+    const hpDelta = after.currentHP - before.currentHP;
+    const tempDelta = after.tempHP - before.tempHP;
+
+    if (hpDelta < 0 || (hpDelta === 0 && tempDelta < 0)) {
+        // Damage: whatever came off temp HP plus current HP
+        const total = -hpDelta + Math.max(0, -tempDelta);
+        events.push({
+            kind: "damage",
+            actorId: actor.id,
+            actorName: name,
+            amount: -total,
+            text: `${name} takes ${total} damage (${after.currentHP} HP${after.tempHP ? `, ${after.tempHP} temp` : ""})${suffix}`,
+        });
+    } else if (hpDelta > 0) {
+        events.push({
+            kind: "healing",
+            actorId: actor.id,
+            actorName: name,
+            amount: hpDelta,
+            text: `${name} heals ${hpDelta} (${after.currentHP} HP)${suffix}`,
+        });
+    }
+
+    if (tempDelta > 0) {
+        events.push({
+            kind: "tempHP",
+            actorId: actor.id,
+            actorName: name,
+            amount: tempDelta,
+            text: `${name} gains ${tempDelta} temp HP (${after.tempHP} temp)${suffix}`,
+        });
+    }
+
+    return events;
+}
+
+/* =========================
+   Export
+   ========================= */
+
+const timeOf = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export function combatLogToMarkdown(log: CombatLogEntry[]): string {
+    const lines: string[] = ["# Combat Log", ""];
+    let lastRound: number | null = null;
+
+    for (const entry of log) {
+        if (entry.round !== lastRound) {
+            lines.push("", entry.round > 0 ? `## Round ${entry.round}` : "## Out of combat", "");
+            lastRound = entry.round;
+        }
+        lines.push(`- \`${timeOf(entry.ts)}\` ${entry.text}`);
+    }
+
+    return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
+
+export function combatLogToJSON(log: CombatLogEntry[]): string {
+    return JSON.stringify(log, null, 2);
+}
+
+/** Trigger a browser download for an exported log. */
+export function downloadText(filename: string, text: string, mime: string) {
+    const blob = new Blob([text], { type: mime });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,133 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { batchUpdateMeta, readMeta, type MetaShape } from "./metadata";
+import { appendCombatLog, type CombatLogEvent } from "./combatLog";
+import { withHistory } from "./history";
+
+/* =========================
+   Concentration checks (scene metadata)
+   =========================
+   Each pending check has its own key under CONCENTRATION_META_KEY, so clients
+   adding and resolving checks at the same time never overwrite each other.
+*/
+
+export const CONCENTRATION_META_KEY = getPluginId("concentrationChecks");
+
+const checkKey = (id: string) => `${CONCENTRATION_META_KEY}/${id}`;
+
+/** One pending check per damage instance; each hit gets its own save. */
+export type ConcentrationCheck = {
+    id: string;
+    tokenId: string;
+    tokenName: string;
+    dc: number;
+    /** Damage that triggered the check */
+    damage: number;
+    /** Epoch milliseconds */
+    ts: number;
+};
+
+export type ConcentrationOutcome = "pass" | "fail";
+
+/** DC 10 or half the damage taken, whichever is higher. */
+export const concentrationDC = (damage: number) => Math.max(10, Math.floor(damage / 2));
+
+function isCheck(v: unknown): v is ConcentrationCheck {
+    if (!v || typeof v !== "object") return false;
+    const c = v as Record<string, unknown>;
+    return typeof c.id === "string" && typeof c.tokenId === "string" && typeof c.dc === "number";
+}
+
+/** Every check key in the scene metadata, oldest first. */
+function parseChecks(meta: Record<string, unknown>): ConcentrationCheck[] {
+    return Object.entries(meta)
+        .filter(([key]) => key.startsWith(`${CONCENTRATION_META_KEY}/`))
+        .map(([, value]) => value)
+        .filter(isCheck)
+        .sort((a, b) => a.ts - b.ts || a.id.localeCompare(b.id));
+}
+
+export async function readConcentrationChecks(): Promise<ConcentrationCheck[]> {
+    return parseChecks(await OBR.scene.getMetadata());
+}
+
+export function onConcentrationChecksChange(cb: (checks: ConcentrationCheck[]) => void) {
+    readConcentrationChecks().then(cb);
+    return OBR.scene.onMetadataChange((meta) => cb(parseChecks(meta)));
+}
+
+async function removeChecks(ids: string[]) {
+    if (ids.length === 0) return;
+    await OBR.scene.setMetadata(Object.fromEntries(ids.map((id) => [checkKey(id), undefined])));
+}
+
+/** Queue a concentration check for each damaged, concentrating token. */
+export async function requestConcentrationChecks(hits: { tokenId: string; tokenName?: string | null; damage: number }[]): Promise<void> {
+    const now = Date.now();
+    const added: ConcentrationCheck[] = hits
+        .filter((hit) => hit.damage > 0)
+        .map((hit, i) => ({
+            id: `conc-${now}-${i}-${Math.random().toString(36).slice(2, 6)}`,
+            tokenId: hit.tokenId,
+            tokenName: hit.tokenName || "Unnamed",
+            dc: concentrationDC(hit.damage),
+            damage: hit.damage,
+            ts: now,
+        }));
+    if (added.length === 0) return;
+
+    try {
+        await OBR.scene.setMetadata(Object.fromEntries(added.map((check) => [checkKey(check.id), check])));
+    } catch (error) {
+        console.error("Failed to queue concentration check:", error);
+    }
+}
+
+/** Drop a pending check without recording an outcome. */
+export async function dismissConcentrationCheck(checkId: string): Promise<void> {
+    await removeChecks([checkId]);
+}
+
+/**
+ * Record the outcome of a check. A failure ends concentration and every
+ * effect that depends on it; any other checks pending for the token go with it.
+ */
+export async function resolveConcentrationCheck(check: ConcentrationCheck, outcome: ConcentrationOutcome): Promise<void> {
+    const events: CombatLogEvent[] = [];
+    const actor = { actorId: check.tokenId, actorName: check.tokenName };
+
+    if (outcome === "pass") {
+        await dismissConcentrationCheck(check.id);
+        events.push({ kind: "concentration", ...actor, text: `${check.tokenName} maintains concentration (DC ${check.dc})` });
+        await appendCombatLog(events);
+        return;
+    }
+
+    const pending = await readConcentrationChecks();
+    await removeChecks(pending.filter((c) => c.tokenId === check.tokenId).map((c) => c.id));
+
+    const items = await OBR.scene.items.getItems();
+    const patches: { id: string; patch: Partial<MetaShape> }[] = [];
+    for (const item of items) {
+        const meta = readMeta(item);
+        if (!meta) continue;
+
+        const effects = meta.effects ?? [];
+        const ended = effects.filter((e) => e.concentration && e.sourceId === check.tokenId);
+        const patch: Partial<MetaShape> = {};
+        if (item.id === check.tokenId && meta.concentrating) patch.concentrating = false;
+        if (ended.length > 0) {
+            patch.effects = effects.filter((e) => !ended.includes(e));
+            const name = meta.name || item.name || "Unnamed";
+            for (const effect of ended) {
+                events.push({ kind: "effect", actorId: item.id, actorName: name, text: `${effect.name} has ended on ${name}` });
+            }
+        }
+        if (Object.keys(patch).length > 0) patches.push({ id: item.id, patch });
+    }
+
+    events.unshift({ kind: "concentration", ...actor, text: `${check.tokenName} loses concentration (failed DC ${check.dc})` });
+
+    await withHistory(`${check.tokenName} loses concentration`, (tx) => batchUpdateMeta(OBR, patches, tx));
+    await appendCombatLog(events);
+}
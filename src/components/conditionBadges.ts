@@ -0,0 +1,157 @@
+// conditionBadges.ts
+import OBR, { buildLabel, isImage, isLabel, type Item, type Vector2 } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { getGridInfo } from "./utils";
+import { conditionIcon } from "./conditions";
+
+/* =========================
+   Constants (file-local)
+   ========================= */
+const BADGE_META_KEY = getPluginId("condition-badge");
+
+const BADGE_BACKGROUND_COLOR = "rgb(30, 34, 49)";
+const BADGE_BACKGROUND_OPACITY = 0.6;
+const BADGE_TEXT_COLOR = "#FFFFFF";
+const BADGE_FONT_SIZE = 22;
+const BADGE_CORNER_RADIUS = 12;
+const BADGE_HEIGHT_ESTIMATE = 28; // Approximate badge height in pixels for positioning
+
+/* =========================
+   Types
+   ========================= */
+type ConditionBadgeMeta = {
+    __conditionBadge__: true;
+    ownerId: string;      // token id
+};
+
+/** Deterministic ID so a token's badge can be found without scanning the scene. */
+const determineBadgeId = (tokenId: string): string =>
+    `${getPluginId("condition-badge")}.${tokenId}`;
+
+const readBadgeMeta = (item: Item): ConditionBadgeMeta | undefined =>
+    item.metadata?.[BADGE_META_KEY] as ConditionBadgeMeta | undefined;
+
+export const isConditionBadge = (item: Item): boolean =>
+    !!readBadgeMeta(item)?.__conditionBadge__;
+
+/* =========================
+   Position Calculation
+   ========================= */
+/**
+ * Place the badge along the bottom edge of the token so it doesn't fight
+ * the elevation label, which sits on the top edge.
+ */
+async function calculateBadgePosition(token: Item): Promise<Vector2> {
+    const grid = await getGridInfo();
+    const center = token.position;
+
+    if (!isImage(token)) {
+        return { x: center.x, y: center.y + 50 };
+    }
+
+    const dpi = token.grid?.dpi ?? grid.dpi;
+    const baseCellsH = (token.image?.height ?? dpi) / dpi;
+    const scaleY = Math.abs(token.scale?.y ?? 1);
+
+    const badgeY = center.y + (grid.dpi / 2 * baseCellsH * scaleY) - BADGE_HEIGHT_ESTIMATE;
+    return { x: center.x, y: badgeY };
+}
+
+/* =========================
+   Main API Functions
+   ========================= */
+
+/**
+ * Ensure the condition badge for a token matches its conditions.
+ * Removes the badge when the list is empty.
+ */
+export async function ensureConditionBadge(token: Item, conditions: string[]): Promise<void> {
+    const badgeId = determineBadgeId(token.id);
+    const [existing] = await OBR.scene.items.getItems([badgeId]);
+
+    if (conditions.length === 0) {
+        if (existing) await OBR.scene.items.deleteItems([badgeId]);
+        return;
+    }
+
+    const position = await calculateBadgePosition(token);
+    const plainText = conditions.map(conditionIcon).join(" ");
+    // Follow the token's visibility so hidden monsters don't leak through their badge
+    const visible = token.visible !== false;
+
+    if (existing) {
+        await OBR.scene.items.updateItems([badgeId], (items) => {
+            const label = items[0];
+            if (!label || !isLabel(label)) return;
+            label.position = position;
+            label.text.plainText = plainText;
+            label.attachedTo = token.id;
+            label.visible = visible;
+        });
+        return;
+    }
+
+    const meta: ConditionBadgeMeta = { __conditionBadge__: true, ownerId: token.id };
+    const label = buildLabel()
+        .id(badgeId)
+        .position(position)
+        .plainText(plainText)
+        .fontSize(BADGE_FONT_SIZE)
+        .textAlign("CENTER")
+        .textAlignVertical("MIDDLE")
+        .fillColor(BADGE_TEXT_COLOR)
+        .backgroundColor(BADGE_BACKGROUND_COLOR)
+        .backgroundOpacity(BADGE_BACKGROUND_OPACITY)
+        .cornerRadius(BADGE_CORNER_RADIUS)
+        .attachedTo(token.id)
+        .layer("TEXT")
+        .locked(true)
+        .disableHit(true)
+        .visible(visible)
+        .metadata({ [BADGE_META_KEY]: meta })
+        .build();
+    label.style.maxViewScale = 1.25;
+    label.style.minViewScale = 1;
+    await OBR.scene.items.addItems([label]);
+}
+
+/**
+ * Clear the condition badge for a specific token.
+ */
+export async function clearConditionBadge(tokenId: string): Promise<void> {
+    const badgeId = determineBadgeId(tokenId);
+    const [existing] = await OBR.scene.items.getItems([badgeId]);
+    if (existing) {
+        await OBR.scene.items.deleteItems([badgeId]);
+    }
+}
+
+/**
+ * Clear all condition badges in the scene.
+ */
+export async function clearAllConditionBadges(): Promise<void> {
+    const items = await OBR.scene.items.getItems(isConditionBadge);
+    if (items.length) {
+        await OBR.scene.items.deleteItems(items.map((it) => it.id));
+    }
+}
+
+/**
+ * Remove badges whose owner tokens no longer exist.
+ */
+export async function cleanupOrphanedBadges(): Promise<void> {
+    try {
+        const items = await OBR.scene.items.getItems();
+        const ids = new Set(items.map((it) => it.id));
+        const orphans = items.filter((it) => {
+            if (!isConditionBadge(it)) return false;
+            const ownerId = readBadgeMeta(it)?.ownerId;
+            return !ownerId || !ids.has(ownerId);
+        });
+        if (orphans.length > 0) {
+            await OBR.scene.items.deleteItems(orphans.map((it) => it.id));
+        }
+    } catch (error) {
+        console.error("[Battle Board] Error cleaning up orphaned condition badges:", error);
+    }
+}
@@ -0,0 +1,73 @@
+/* =========================
+   Condition catalogue
+   ========================= */
+
+/** Standard 5e conditions, in the order the picker lists them. */
+export const STANDARD_CONDITIONS = [
+    "Blinded",
+    "Charmed",
+    "Deafened",
+    "Exhaustion",
+    "Frightened",
+    "Grappled",
+    "Incapacitated",
+    "Invisible",
+    "Paralyzed",
+    "Petrified",
+    "Poisoned",
+    "Prone",
+    "Restrained",
+    "Stunned",
+    "Unconscious",
+] as const;
+
+/** Conditions that leave a creature unable to take its turn. */
+const SKIP_TURN_CONDITIONS: readonly string[] = ["Incapacitated", "Paralyzed", "Petrified", "Stunned", "Unconscious"];
+
+/** Short icons used for the on-map badges; custom conditions fall back to their initials. */
+const CONDITION_ICONS: Record<string, string> = {
+    Blinded: "🙈",
+    Charmed: "💘",
+    Deafened: "🔇",
+    Exhaustion: "😩",
+    Frightened: "😱",
+    Grappled: "🤼",
+    Incapacitated: "💫",
+    Invisible: "👻",
+    Paralyzed: "⚡",
+    Petrified: "🗿",
+    Poisoned: "🤢",
+    Prone: "🛌",
+    Restrained: "⛓️",
+    Stunned: "😵",
+    Unconscious: "💤",
+};
+
+export function conditionIcon(condition: string): string {
+    return CONDITION_ICONS[condition] ?? condition.trim().slice(0, 2).toUpperCase();
+}
+
+/** Trim and collapse whitespace so "  dodging " and "Dodging" don't both end up on a token. */
+export function normalizeCondition(input: string): string {
+    const trimmed = input.trim().replace(/\s+/g, " ");
+    const standard = STANDARD_CONDITIONS.find((c) => c.toLowerCase() === trimmed.toLowerCase());
+    return standard ?? trimmed;
+}
+
+/** Add a condition if it isn't already present (case-insensitive). */
+export function addCondition(list: string[] | undefined, condition: string): string[] {
+    const current = list ?? [];
+    const name = normalizeCondition(condition);
+    if (!name) return current;
+    if (current.some((c) => c.toLowerCase() === name.toLowerCase())) return current;
+    return [...current, name];
+}
+
+export function removeCondition(list: string[] | undefined, condition: string): string[] {
+    return (list ?? []).filter((c) => c !== condition);
+}
+
+/** The first condition in the list that stops its turn, or null. */
+export function skipTurnCondition(list: string[] | undefined): string | null {
+    return (list ?? []).find((c) => SKIP_TURN_CONDITIONS.includes(normalizeCondition(c))) ?? null;
+}
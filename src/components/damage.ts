@@ -0,0 +1,113 @@
+/* =========================
+   Damage types & defenses
+   ========================= */
+
+export const DAMAGE_TYPES = [
+    "acid",
+    "bludgeoning",
+    "cold",
+    "fire",
+    "force",
+    "lightning",
+    "necrotic",
+    "piercing",
+    "poison",
+    "psychic",
+    "radiant",
+    "slashing",
+    "thunder",
+] as const;
+
+export type DamageType = (typeof DAMAGE_TYPES)[number];
+
+export type DamageDefenses = {
+    resistances?: string[];
+    vulnerabilities?: string[];
+    immunities?: string[];
+};
+
+export type DamageModifier = "immune" | "resistant" | "vulnerable";
+
+export type DamageAdjustment = {
+    type: DamageType;
+    /** Damage as entered */
+    raw: number;
+    /** Damage after defenses */
+    amount: number;
+    modifier: DamageModifier | null;
+};
+
+/** Resolve a typed damage name; unique prefixes are accepted ("light" → lightning). */
+export function parseDamageType(raw: string): DamageType | null {
+    const s = raw.trim().toLowerCase();
+    if (!s) return null;
+    const exact = DAMAGE_TYPES.find((t) => t === s);
+    if (exact) return exact;
+    const matches = DAMAGE_TYPES.filter((t) => t.startsWith(s));
+    return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Split a trailing damage type off a math input: "-14 fire" → { expr: "-14", type: "fire" }.
+ * Input without a recognizable type is returned unchanged.
+ */
+export function splitDamageType(raw: string): { expr: string; type: DamageType | null } {
+    const m = /^(.*\S)\s+([a-z]+)\s*$/i.exec(raw ?? "");
+    if (!m) return { expr: raw, type: null };
+    const type = parseDamageType(m[2]);
+    return type ? { expr: m[1], type } : { expr: raw, type: null };
+}
+
+/**
+ * Split a trailing "crit" off a math input: "-14 fire crit" → { expr: "-14 fire", critical: true }.
+ */
+export function splitCritical(raw: string): { expr: string; critical: boolean } {
+    const m = /^(.*\S)\s+crit\s*$/i.exec(raw ?? "");
+    return m ? { expr: m[1], critical: true } : { expr: raw, critical: false };
+}
+
+const hasType = (list: string[] | undefined, type: DamageType) =>
+    (list ?? []).some((t) => t.trim().toLowerCase() === type);
+
+/**
+ * Apply resistance (half, rounded down), vulnerability (double) or immunity.
+ * Immunity wins; resistance and vulnerability together cancel out.
+ */
+export function adjustDamage(raw: number, type: DamageType, defenses: DamageDefenses): DamageAdjustment {
+    if (hasType(defenses.immunities, type)) {
+        return { type, raw, amount: 0, modifier: "immune" };
+    }
+
+    const resistant = hasType(defenses.resistances, type);
+    const vulnerable = hasType(defenses.vulnerabilities, type);
+    if (resistant && !vulnerable) return { type, raw, amount: Math.floor(raw / 2), modifier: "resistant" };
+    if (vulnerable && !resistant) return { type, raw, amount: raw * 2, modifier: "vulnerable" };
+
+    return { type, raw, amount: raw, modifier: null };
+}
+
+/** Short note for the combat log / tooltip, e.g. "fire, resisted: 14 → 7". */
+export function describeAdjustment(adj: DamageAdjustment): string {
+    if (!adj.modifier) return adj.type;
+    const verb = adj.modifier === "immune" ? "immune" : adj.modifier === "resistant" ? "resisted" : "vulnerable";
+    return `${adj.type}, ${verb}: ${adj.raw} → ${adj.amount}`;
+}
+
+/** Add a defense entry, normalized to lower case and de-duplicated. */
+export function addDefense(list: string[], value: string): string[] {
+    const v = value.trim().toLowerCase();
+    if (!v || list.includes(v)) return list;
+    return [...list, v];
+}
+
+/** Take damage the usual way: temp HP absorbs first, current HP never drops below 0. */
+export function applyDamageToHP(
+    hp: { currentHP: number; tempHP: number },
+    damage: number,
+): { currentHP: number; tempHP: number } {
+    const absorbed = Math.min(Math.max(0, hp.tempHP), damage);
+    return {
+        tempHP: hp.tempHP - absorbed,
+        currentHP: Math.max(0, hp.currentHP - (damage - absorbed)),
+    };
+}
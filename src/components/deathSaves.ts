@@ -0,0 +1,120 @@
+import { rollDie } from "./dice";
+
+/* =========================
+   Death saves (5e)
+   ========================= */
+
+export type DeathSaves = {
+    successes: number;  // 0..3
+    failures: number;   // 0..3
+};
+
+export const EMPTY_DEATH_SAVES: DeathSaves = { successes: 0, failures: 0 };
+
+export type DeathSaveState = "dying" | "stable" | "dead";
+
+type HPState = {
+    currentHP: number;
+    maxHP: number;
+    playerCharacter?: boolean;
+    deathSaves?: DeathSaves | null;
+};
+
+const clamp3 = (n: number) => Math.max(0, Math.min(3, n));
+
+export function deathSaveState(ds: DeathSaves | null | undefined): DeathSaveState {
+    if ((ds?.failures ?? 0) >= 3) return "dead";
+    if ((ds?.successes ?? 0) >= 3) return "stable";
+    return "dying";
+}
+
+/** Whether a combatant is making death saves (a PC at 0 HP). */
+export const isDying = (row: HPState): boolean =>
+    !!row.playerCharacter && row.maxHP > 0 && row.currentHP <= 0;
+
+/** Out of the fight: an NPC at 0 HP, or a PC who has failed three death saves. */
+export const isDefeated = (row: HPState): boolean =>
+    row.maxHP > 0 && row.currentHP <= 0 && (!row.playerCharacter || deathSaveState(row.deathSaves) === "dead");
+
+export type DeathSaveRoll = {
+    roll: number;
+    next: DeathSaves;
+    /** A natural 20: the creature regains 1 HP and the counters reset */
+    regainHP: boolean;
+    text: string;
+};
+
+/**
+ * Resolve one death saving throw: 10+ succeeds, a natural 1 counts as two
+ * failures, a natural 20 brings the creature back with 1 HP.
+ */
+export function resolveDeathSave(ds: DeathSaves, roll: number = rollDie(20)): DeathSaveRoll {
+    if (roll === 20) {
+        return { roll, next: { ...EMPTY_DEATH_SAVES }, regainHP: true, text: "natural 20, regains 1 HP" };
+    }
+    if (roll === 1) {
+        const next = { ...ds, failures: clamp3(ds.failures + 2) };
+        return { roll, next, regainHP: false, text: `natural 1, two failures${next.failures >= 3 ? " (dead)" : ""}` };
+    }
+    if (roll >= 10) {
+        const next = { ...ds, successes: clamp3(ds.successes + 1) };
+        return { roll, next, regainHP: false, text: `${roll}, success${next.successes >= 3 ? " (stable)" : ""}` };
+    }
+    const next = { ...ds, failures: clamp3(ds.failures + 1) };
+    return { roll, next, regainHP: false, text: `${roll}, failure${next.failures >= 3 ? " (dead)" : ""}` };
+}
+
+/** Log line for a counter change caused by damage or healing, if worth noting. */
+export function describeDeathSaveChange(name: string, before: DeathSaves, after: DeathSaves): string | null {
+    if (after.failures >= 3 && before.failures < 3) return `${name} has died`;
+    if (after.failures > before.failures + 1) return `${name} suffers two death save failures (${after.failures}/3)`;
+    if (after.failures > before.failures) return `${name} suffers a death save failure (${after.failures}/3)`;
+    if (!after.successes && !after.failures && (before.successes || before.failures)) return `${name} is no longer dying`;
+    return null;
+}
+
+/**
+ * Death-save bookkeeping for an HP change:
+ *  - dropping to 0 starts fresh counters
+ *  - damage while at 0 adds a failure (two for a critical hit) and ends
+ *    stability; damage of at least max HP kills outright
+ *  - any healing clears the counters
+ * Returns the new counters, or undefined when nothing changes.
+ */
+export function deathSavesAfterHPChange(
+    before: HPState,
+    afterHP: number,
+    damage: number,
+    critical = false,
+): DeathSaves | undefined {
+    if (!before.playerCharacter || before.maxHP <= 0) return undefined;
+    const current = before.deathSaves ?? EMPTY_DEATH_SAVES;
+
+    if (afterHP > 0) {
+        return current.successes || current.failures ? { ...EMPTY_DEATH_SAVES } : undefined;
+    }
+
+    if (before.currentHP > 0) {
+        // Just went down. Leftover damage of at least max HP is instant death.
+        const leftover = damage - before.currentHP;
+        return leftover >= before.maxHP ? { successes: 0, failures: 3 } : { ...EMPTY_DEATH_SAVES };
+    }
+
+    if (damage <= 0) return undefined;
+    if (damage >= before.maxHP) return { successes: 0, failures: 3 };
+    // A stable creature that takes damage starts dying again
+    const successes = current.successes >= 3 ? 0 : current.successes;
+    return { successes, failures: clamp3(current.failures + (critical ? 2 : 1)) };
+}
+
+/**
+ * Roll a death save for a dying combatant and build the metadata patch:
+ * the new counters, plus 1 HP on a natural 20.
+ */
+export function rollDeathSaveFor(row: HPState & { name?: string }, roll?: number) {
+    const result = resolveDeathSave(row.deathSaves ?? EMPTY_DEATH_SAVES, roll);
+    const patch: { deathSaves: DeathSaves; currentHP?: number } = { deathSaves: result.next };
+    if (result.regainHP) patch.currentHP = 1;
+    const text = `${row.name || "Unnamed"} rolls a death save: ${result.text}`;
+    return { result, patch, text };
+}
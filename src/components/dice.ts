@@ -0,0 +1,231 @@
+import type { DamageType } from "./damage";
+
+/* =========================
+   Dice & math input
+   =========================
+   Grammar (whitespace ignored):
+     input  := [op] expr          op ∈ + - * /  → applied to the current value
+     expr   := term (("+" | "-") term)*
+     term   := unary (("*" | "/") unary)*
+     unary  := ("+" | "-") unary | atom
+     atom   := number | dice | "(" expr ")"
+     dice   := [count] "d" (sides | "%")
+
+   Division rounds down, as halved damage does in 5e.
+*/
+
+export type DiceRoll = {
+    notation: string;   // e.g. "2d6"
+    results: number[];
+    total: number;
+};
+
+export type MathResult = {
+    /** Final value after applying any leading operator to the base */
+    value: number;
+    /** Value of the expression itself (e.g. the damage rolled) */
+    amount: number;
+    /** Leading operator, when the input was relative to the base value */
+    op: "+" | "-" | "*" | "/" | null;
+    rolls: DiceRoll[];
+    /** Human-readable evaluation, e.g. "2d6 (3, 5) + 3 = 11" */
+    breakdown: string;
+    /** Damage type typed after the expression ("-14 fire"), when the field accepts one */
+    damageType?: DamageType | null;
+    /** Damage from a critical hit ("-14 crit"), when the field accepts a damage type */
+    critical?: boolean;
+};
+
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+type Token =
+    | { kind: "num"; value: number }
+    | { kind: "dice"; count: number; sides: number; text: string }
+    | { kind: "op"; value: "+" | "-" | "*" | "/" }
+    | { kind: "paren"; value: "(" | ")" };
+
+function tokenize(src: string): Token[] | null {
+    const tokens: Token[] = [];
+    const re = /\s*(?:(\d*)[dD](\d+|%)|(\d+)|([+\-*/x×÷])|([()]))/y;
+    let pos = 0;
+    while (pos < src.length) {
+        re.lastIndex = pos;
+        const m = re.exec(src);
+        if (!m) return null;
+        pos = re.lastIndex;
+
+        if (m[2] !== undefined) {
+            const count = m[1] ? Number(m[1]) : 1;
+            const sides = m[2] === "%" ? 100 : Number(m[2]);
+            if (count < 1 || count > MAX_DICE || sides < 1 || sides > MAX_SIDES) return null;
+            tokens.push({ kind: "dice", count, sides, text: `${count}d${m[2]}` });
+        } else if (m[3] !== undefined) {
+            tokens.push({ kind: "num", value: Number(m[3]) });
+        } else if (m[4] !== undefined) {
+            const op = m[4] === "x" || m[4] === "×" ? "*" : m[4] === "÷" ? "/" : m[4];
+            tokens.push({ kind: "op", value: op as "+" | "-" | "*" | "/" });
+        } else {
+            tokens.push({ kind: "paren", value: m[5] as "(" | ")" });
+        }
+    }
+    return tokens;
+}
+
+export function rollDie(sides: number): number {
+    if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+        const buf = new Uint32Array(1);
+        crypto.getRandomValues(buf);
+        return (buf[0] % sides) + 1;
+    }
+    return Math.floor(Math.random() * sides) + 1;
+}
+
+type Node = { value: number; text: string };
+
+class ParseError extends Error {}
+
+/** Recursive-descent evaluator; dice are rolled as they're reached. */
+class Evaluator {
+    private i = 0;
+    private readonly tokens: Token[];
+    readonly rolls: DiceRoll[] = [];
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    run(): Node {
+        const node = this.expr();
+        if (this.i < this.tokens.length) throw new ParseError("Unexpected input");
+        return node;
+    }
+
+    private peekOp(...ops: string[]) {
+        const t = this.tokens[this.i];
+        return t?.kind === "op" && ops.includes(t.value) ? t.value : null;
+    }
+
+    private expr(): Node {
+        let left = this.term();
+        let op: string | null;
+        while ((op = this.peekOp("+", "-"))) {
+            this.i++;
+            const right = this.term();
+            left = {
+                value: op === "+" ? left.value + right.value : left.value - right.value,
+                text: `${left.text} ${op} ${right.text}`,
+            };
+        }
+        return left;
+    }
+
+    private term(): Node {
+        let left = this.unary();
+        let op: string | null;
+        while ((op = this.peekOp("*", "/"))) {
+            this.i++;
+            const right = this.unary();
+            if (op === "/" && right.value === 0) throw new ParseError("Division by zero");
+            left = {
+                value: op === "*" ? left.value * right.value : Math.floor(left.value / right.value),
+                text: `${left.text} ${op === "*" ? "×" : "÷"} ${right.text}`,
+            };
+        }
+        return left;
+    }
+
+    private unary(): Node {
+        const op = this.peekOp("+", "-");
+        if (op) {
+            this.i++;
+            const inner = this.unary();
+            return op === "-" ? { value: -inner.value, text: `-${inner.text}` } : inner;
+        }
+        return this.atom();
+    }
+
+    private atom(): Node {
+        const t = this.tokens[this.i++];
+        if (!t) throw new ParseError("Unexpected end of input");
+
+        if (t.kind === "num") return { value: t.value, text: String(t.value) };
+
+        if (t.kind === "dice") {
+            const results = Array.from({ length: t.count }, () => rollDie(t.sides));
+            const total = results.reduce((a, b) => a + b, 0);
+            this.rolls.push({ notation: t.text, results, total });
+            return { value: total, text: `${t.text} (${results.join(", ")})` };
+        }
+
+        if (t.kind === "paren" && t.value === "(") {
+            const inner = this.expr();
+            const close = this.tokens[this.i++];
+            if (close?.kind !== "paren" || close.value !== ")") throw new ParseError("Missing )");
+            return { value: inner.value, text: `(${inner.text})` };
+        }
+
+        throw new ParseError("Unexpected token");
+    }
+}
+
+/**
+ * Evaluate a dice/math input against the current value.
+ *   "17", "52-4+3", "2d6+3"  → absolute
+ *   "+5", "-2d6+3", "+1d8+4" → base ± the whole expression
+ *   "*2", "/2", "-(18/2)"    → base scaled / reduced
+ * Returns null when the input can't be parsed.
+ */
+export function evaluateMath(raw: string, base: number): MathResult | null {
+    let s = (raw ?? "").trim().replace(/,/g, "");
+    if (!s) return null;
+
+    let op: MathResult["op"] = null;
+    const lead = s[0];
+    if (lead === "+" || lead === "-" || lead === "*" || lead === "/") {
+        op = lead;
+        s = s.slice(1);
+    } else if (lead === "x" || lead === "×") {
+        op = "*";
+        s = s.slice(1);
+    } else if (lead === "÷") {
+        op = "/";
+        s = s.slice(1);
+    }
+
+    const tokens = tokenize(s);
+    if (!tokens || tokens.length === 0) return null;
+
+    let node: Node;
+    let rolls: DiceRoll[];
+    try {
+        const evaluator = new Evaluator(tokens);
+        node = evaluator.run();
+        rolls = evaluator.rolls;
+    } catch {
+        return null;
+    }
+
+    const amount = node.value;
+    let value: number;
+    switch (op) {
+        case "+": value = base + amount; break;
+        case "-": value = base - amount; break;
+        case "*": value = base * amount; break;
+        case "/":
+            if (amount === 0) return null;
+            value = Math.floor(base / amount);
+            break;
+        default: value = amount;
+    }
+    if (!Number.isFinite(value)) return null;
+
+    const needsTotal = rolls.length > 0 || tokens.length > 1;
+    const breakdown = needsTotal ? `${node.text} = ${amount}` : node.text;
+
+    return { value, amount, op, rolls, breakdown };
+}
+
+/** Breakdown worth showing to the user (dice or a multi-step expression), else null. */
+export const describeMath = (result: MathResult | null | undefined): string | null =>
+    result && (result.rolls.length > 0 || result.breakdown.includes(" = ")) ? result.breakdown : null;
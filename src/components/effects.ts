@@ -0,0 +1,88 @@
+/* =========================
+   Timed effects
+   ========================= */
+
+/** When an effect's duration ticks down. */
+export type EffectTrigger =
+    | "startOfTurn"        // start of the affected combatant's turn
+    | "endOfTurn"          // end of the affected combatant's turn
+    | "startOfSourceTurn"  // start of the source's turn
+    | "endOfSourceTurn";   // end of the source's turn
+
+export type TimedEffect = {
+    id: string;
+    name: string;
+    /** Display name of whoever applied it (free text, or a combatant's name) */
+    source?: string | null;
+    /** Token id of the source when it's in initiative; drives the *SourceTurn triggers */
+    sourceId?: string | null;
+    /** Remaining ticks; the effect expires when this reaches 0 */
+    rounds: number;
+    trigger: EffectTrigger;
+    /** Ends when the source loses concentration */
+    concentration?: boolean;
+};
+
+export const EFFECT_TRIGGER_LABELS: Record<EffectTrigger, string> = {
+    startOfTurn: "Start of its turn",
+    endOfTurn: "End of its turn",
+    startOfSourceTurn: "Start of source's turn",
+    endOfSourceTurn: "End of source's turn",
+};
+
+export function createEffect(draft: Omit<TimedEffect, "id">): TimedEffect {
+    return {
+        ...draft,
+        id: `effect-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        rounds: Math.max(1, Math.floor(draft.rounds)),
+    };
+}
+
+/** Whether the effect's clock runs on the source's turn (and the source is still around to have one). */
+function tracksSource(effect: TimedEffect, isInInitiative: (id: string) => boolean): boolean {
+    return !!effect.sourceId && isInInitiative(effect.sourceId);
+}
+
+/**
+ * Tick a combatant's effects for a turn change.
+ * `endingIds` are the tokens whose turn just ended, `startingIds` the tokens whose turn begins.
+ * Source-based effects whose source has left initiative fall back to the owner's own turn.
+ */
+export function tickEffects(
+    effects: TimedEffect[],
+    ownerId: string,
+    endingIds: ReadonlySet<string>,
+    startingIds: ReadonlySet<string>,
+    isInInitiative: (id: string) => boolean,
+): { remaining: TimedEffect[]; expired: TimedEffect[]; changed: boolean } {
+    const remaining: TimedEffect[] = [];
+    const expired: TimedEffect[] = [];
+    let changed = false;
+
+    for (const effect of effects) {
+        const bySource = effect.trigger === "startOfSourceTurn" || effect.trigger === "endOfSourceTurn";
+        const anchorId = bySource && tracksSource(effect, isInInitiative) ? effect.sourceId! : ownerId;
+        const atStart = effect.trigger === "startOfTurn" || effect.trigger === "startOfSourceTurn";
+        const fired = atStart ? startingIds.has(anchorId) : endingIds.has(anchorId);
+
+        if (!fired) {
+            remaining.push(effect);
+            continue;
+        }
+
+        changed = true;
+        const rounds = effect.rounds - 1;
+        if (rounds <= 0) {
+            expired.push(effect);
+        } else {
+            remaining.push({ ...effect, rounds });
+        }
+    }
+
+    return { remaining, expired, changed };
+}
+
+/** Short chip label, e.g. "Bless 3". */
+export function effectLabel(effect: TimedEffect): string {
+    return `${effect.name} ${effect.rounds}`;
+}
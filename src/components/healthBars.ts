@@ -0,0 +1,267 @@
+// healthBars.ts
+import OBR, { buildShape, isImage, isShape, type Item, type Shape, type Vector2 } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { getGridInfo } from "./utils";
+
+/* =========================
+   Constants (file-local)
+   ========================= */
+const BAR_META_KEY = getPluginId("health-bar");
+
+const BAR_WIDTH_RATIO = 0.8;    // of the token's width
+const BAR_HEIGHT_RATIO = 0.08;  // of a grid cell
+const BAR_GAP = 4;              // px between token edge and bar
+const PIP_SIZE_RATIO = 0.16;    // of a grid cell
+
+const BACKGROUND_COLOR = "#1e2231";
+const TEMP_COLOR = "#4fc3f7";
+const HEALTHY_COLOR = "#4caf50";
+const BLOODIED_COLOR = "#ff9800";
+const CRITICAL_COLOR = "#f44336";
+const DEAD_COLOR = "#6d1b1b";
+
+/* =========================
+   Types
+   ========================= */
+/** "shared" bars are scene items players can see; "local" bars exist only on the GM's client. */
+export type HealthBarScope = "shared" | "local";
+/** What to draw: a proportional bar, a status pip, or nothing. */
+export type HealthBarView = "bar" | "pip" | null;
+type HealthBarPart = "bg" | "fill" | "temp" | "pip";
+
+type HealthBarMeta = {
+    __healthBar__: true;
+    ownerId: string;        // token id
+    scope: HealthBarScope;
+    part: HealthBarPart;
+    key: string;            // stable rediscovery key (ownerId:scope:part)
+};
+
+export type HealthSnapshot = {
+    currentHP: number;
+    maxHP: number;
+    tempHP: number;
+};
+
+const ALL_PARTS: HealthBarPart[] = ["bg", "fill", "temp", "pip"];
+
+/* =========================
+   Stable key & helpers
+   ========================= */
+const barKey = (ownerId: string, scope: HealthBarScope, part: HealthBarPart) =>
+    `${ownerId}:${scope}:${part}`;
+
+/** Deterministic ID so a token's bar parts can be found without scanning the scene. */
+const barId = (ownerId: string, scope: HealthBarScope, part: HealthBarPart) =>
+    `${BAR_META_KEY}.${ownerId}.${scope}.${part}`;
+
+const readBarMeta = (item: Item): HealthBarMeta | undefined =>
+    item.metadata?.[BAR_META_KEY] as HealthBarMeta | undefined;
+
+export const isHealthBar = (item: Item): boolean =>
+    !!readBarMeta(item)?.__healthBar__;
+
+const itemsApi = (scope: HealthBarScope) =>
+    scope === "shared" ? OBR.scene.items : OBR.scene.local;
+
+function fillColor(hp: HealthSnapshot): string {
+    if (hp.currentHP <= 0) return DEAD_COLOR;
+    const ratio = hp.maxHP > 0 ? hp.currentHP / hp.maxHP : 0;
+    if (ratio < 0.25) return CRITICAL_COLOR;
+    if (ratio < 0.5) return BLOODIED_COLOR;
+    return HEALTHY_COLOR;
+}
+
+/** Pip colour: only the Healthy / Bloodied / Dead states the "status" mode shows. */
+function statusColor(hp: HealthSnapshot): string {
+    if (hp.currentHP <= 0) return DEAD_COLOR;
+    return hp.maxHP > 0 && hp.currentHP < hp.maxHP / 2 ? BLOODIED_COLOR : HEALTHY_COLOR;
+}
+
+/* =========================
+   Geometry
+   ========================= */
+type Layout = {
+    bar: { position: Vector2; width: number; height: number };
+    pip: { position: Vector2; size: number };
+};
+
+/** Place the bar just under the token's bottom edge, centered. */
+async function calculateLayout(token: Item): Promise<Layout> {
+    const grid = await getGridInfo();
+    const center = token.position;
+
+    let widthPx = grid.dpi;
+    let heightPx = grid.dpi;
+    if (isImage(token)) {
+        const dpi = token.grid?.dpi ?? grid.dpi;
+        widthPx = ((token.image?.width ?? dpi) / dpi) * grid.dpi * Math.abs(token.scale?.x ?? 1);
+        heightPx = ((token.image?.height ?? dpi) / dpi) * grid.dpi * Math.abs(token.scale?.y ?? 1);
+    }
+
+    const width = widthPx * BAR_WIDTH_RATIO;
+    const height = Math.max(6, grid.dpi * BAR_HEIGHT_RATIO);
+    const top = center.y + heightPx / 2 + BAR_GAP;
+    const size = Math.max(10, grid.dpi * PIP_SIZE_RATIO);
+
+    return {
+        bar: { position: { x: center.x - width / 2, y: top }, width, height },
+        // Circles are positioned by their center; sits right of the bar area
+        pip: { position: { x: center.x + width / 2 + size, y: top + height / 2 }, size },
+    };
+}
+
+type PartSpec = {
+    part: HealthBarPart;
+    shapeType: "RECTANGLE" | "CIRCLE";
+    position: Vector2;
+    width: number;
+    height: number;
+    color: string;
+    opacity: number;
+    zIndex: number;
+};
+
+function partsFor(view: HealthBarView, hp: HealthSnapshot, layout: Layout): PartSpec[] {
+    if (!view || hp.maxHP <= 0) return [];
+
+    if (view === "pip") {
+        const { position, size } = layout.pip;
+        return [{ part: "pip", shapeType: "CIRCLE", position, width: size, height: size, color: statusColor(hp), opacity: 1, zIndex: 2 }];
+    }
+
+    const { position, width, height } = layout.bar;
+    const hpRatio = Math.min(1, Math.max(0, hp.currentHP / hp.maxHP));
+    const tempRatio = Math.min(1 - hpRatio, Math.max(0, (hp.tempHP || 0) / hp.maxHP));
+
+    const parts: PartSpec[] = [
+        { part: "bg", shapeType: "RECTANGLE", position, width, height, color: BACKGROUND_COLOR, opacity: 0.75, zIndex: 0 },
+    ];
+    if (hpRatio > 0) {
+        parts.push({ part: "fill", shapeType: "RECTANGLE", position, width: width * hpRatio, height, color: fillColor(hp), opacity: 1, zIndex: 1 });
+    }
+    if (tempRatio > 0) {
+        parts.push({
+            part: "temp",
+            shapeType: "RECTANGLE",
+            position: { x: position.x + width * hpRatio, y: position.y },
+            width: width * tempRatio,
+            height,
+            color: TEMP_COLOR,
+            opacity: 1,
+            zIndex: 1,
+        });
+    }
+    return parts;
+}
+
+/* =========================
+   Main API Functions
+   ========================= */
+
+/**
+ * Ensure a token's health bar (or pip) in the given scope matches its HP.
+ * A null view removes it.
+ */
+export async function ensureHealthBar(
+    token: Item,
+    scope: HealthBarScope,
+    view: HealthBarView,
+    hp: HealthSnapshot,
+): Promise<void> {
+    const api = itemsApi(scope);
+    const layout = await calculateLayout(token);
+    const specs = partsFor(view, hp, layout);
+    const wanted = new Set(specs.map((s) => s.part));
+
+    const existing = await api.getItems(ALL_PARTS.map((p) => barId(token.id, scope, p)));
+    const existingIds = new Set(existing.map((it) => it.id));
+
+    const stale = ALL_PARTS.filter((p) => !wanted.has(p)).map((p) => barId(token.id, scope, p)).filter((id) => existingIds.has(id));
+    if (stale.length) await api.deleteItems(stale);
+    if (specs.length === 0) return;
+
+    // Shared bars follow the token's visibility so hidden monsters don't leak through their bar
+    const visible = scope === "local" || token.visible !== false;
+    const specById = new Map(specs.map((s) => [barId(token.id, scope, s.part), s]));
+
+    const toUpdate = specs.map((s) => barId(token.id, scope, s.part)).filter((id) => existingIds.has(id));
+    if (toUpdate.length) {
+        await api.updateItems(toUpdate, (items) => {
+            for (const it of items) {
+                const spec = specById.get(it.id);
+                if (!spec || !isShape(it)) continue;
+                it.position = spec.position;
+                it.width = spec.width;
+                it.height = spec.height;
+                it.style.fillColor = spec.color;
+                it.style.fillOpacity = spec.opacity;
+                it.attachedTo = token.id;
+                it.visible = visible;
+            }
+        });
+    }
+
+    const toAdd: Shape[] = specs
+        .filter((s) => !existingIds.has(barId(token.id, scope, s.part)))
+        .map((s) => {
+            const meta: HealthBarMeta = {
+                __healthBar__: true,
+                ownerId: token.id,
+                scope,
+                part: s.part,
+                key: barKey(token.id, scope, s.part),
+            };
+            return buildShape()
+                .id(barId(token.id, scope, s.part))
+                .shapeType(s.shapeType)
+                .width(s.width)
+                .height(s.height)
+                .position(s.position)
+                .fillColor(s.color)
+                .fillOpacity(s.opacity)
+                .strokeWidth(0)
+                .strokeOpacity(0)
+                .zIndex(s.zIndex)
+                .attachedTo(token.id)
+                .layer("ATTACHMENT")
+                .locked(true)
+                .disableHit(true)
+                .visible(visible)
+                .metadata({ [BAR_META_KEY]: meta })
+                .build();
+        });
+    if (toAdd.length) await api.addItems(toAdd);
+}
+
+/**
+ * Clear all health bars (both scopes) in the scene.
+ */
+export async function clearAllHealthBars(): Promise<void> {
+    for (const scope of ["shared", "local"] as const) {
+        const api = itemsApi(scope);
+        const items = await api.getItems(isHealthBar);
+        if (items.length) await api.deleteItems(items.map((it) => it.id));
+    }
+}
+
+/**
+ * Remove bars whose owner tokens no longer exist.
+ */
+export async function cleanupOrphanedHealthBars(): Promise<void> {
+    try {
+        const items = await OBR.scene.items.getItems();
+        const ids = new Set(items.map((it) => it.id));
+        for (const scope of ["shared", "local"] as const) {
+            const api = itemsApi(scope);
+            const bars = scope === "shared" ? items.filter(isHealthBar) : await api.getItems(isHealthBar);
+            const orphans = bars.filter((it) => {
+                const ownerId = readBarMeta(it)?.ownerId;
+                return !ownerId || !ids.has(ownerId);
+            });
+            if (orphans.length > 0) await api.deleteItems(orphans.map((it) => it.id));
+        }
+    } catch (error) {
+        console.error("[Battle Board] Error cleaning up orphaned health bars:", error);
+    }
+}
@@ -0,0 +1,392 @@
+import OBR, { type Item } from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+
+/* =========================
+   Undo / redo (GM client)
+   =========================
+   GM actions are recorded as pairs of patches (before/after) so they can be
+   reverted. Players never record. The stacks live in memory and are shared
+   over a broadcast rather than scene metadata, which is capped at 16 kB for
+   all extensions together: each new step, undo and redo is sent to the other
+   GM clients, and a GM tracker that opens asks them for the stacks. Actions
+   taken in the modal pages (area damage, groups) reach the tracker the same
+   way. Changing scenes clears them.
+
+   withHistory() runs an action as one undo step. The action writes items
+   through the transaction it's handed, and only those writes are recorded, so
+   changes other clients make in the meantime stay out of the entry. The
+   tracker's own scene keys (round, virtual entries, ...) are only written by
+   the GM and are compared before and after the action.
+*/
+
+const MAX_HISTORY = 30;
+const HISTORY_CHANNEL = getPluginId("history");
+/** Broadcast messages are limited in size; a full sync drops its oldest steps to fit. */
+const MAX_SYNC_CHARS = 14000;
+
+type MetaPatch = Record<string, unknown>;
+
+export type ItemHistoryPatch = {
+    id: string;
+    /** Changed metadata keys before/after; null means the token had no Battle Board metadata */
+    before: MetaPatch | null;
+    after: MetaPatch | null;
+    /** Token visibility, when the action toggled it (staging can) */
+    visible?: { before: boolean; after: boolean };
+};
+
+type SceneSnapshot = { started: boolean; round: number };
+
+/** Before/after value of another scene metadata key the tracker owns (virtual entries, ...). */
+type SceneMetaPatch = { key: string; before: unknown; after: unknown };
+
+export type HistoryEntry = {
+    id: string;
+    label: string;
+    ts: number;
+    items: ItemHistoryPatch[];
+    scene?: { before: SceneSnapshot; after: SceneSnapshot };
+    sceneMeta?: SceneMetaPatch[];
+};
+
+export type HistoryState = {
+    undo: HistoryEntry[];
+    redo: HistoryEntry[];
+};
+
+type HistoryMessage =
+    | { type: "push"; entry: HistoryEntry }
+    | { type: "undone" | "redone"; id: string }
+    | { type: "request" }
+    | { type: "sync"; history: HistoryState };
+
+const EMPTY_HISTORY: HistoryState = { undo: [], redo: [] };
+
+/** A running withHistory() action. */
+export type HistoryTransaction = {
+    /** OBR.scene.items.updateItems, recording each item's metadata and visibility before and after */
+    updateItems(items: string[] | Item[], update: (items: Item[]) => void): Promise<void>;
+};
+
+/** Writes straight through without recording (player clients, writes outside an action). */
+export const UNRECORDED: HistoryTransaction = {
+    updateItems: (items, update) => OBR.scene.items.updateItems(items, (drafts) => update(drafts as Item[])),
+};
+
+/* =========================
+   Stacks (GM clients, shared by broadcast)
+   ========================= */
+
+let history: HistoryState = EMPTY_HISTORY;
+const listeners = new Set<(history: HistoryState) => void>();
+
+function setHistory(next: HistoryState) {
+    history = next;
+    for (const cb of listeners) cb(next);
+}
+
+export function onHistoryChange(cb: (history: HistoryState) => void) {
+    cb(history);
+    listeners.add(cb);
+    return () => {
+        listeners.delete(cb);
+    };
+}
+
+/** Forget everything, e.g. when another scene opens and the recorded ids no longer apply. */
+export function clearHistory() {
+    setHistory(EMPTY_HISTORY);
+}
+
+function sendHistoryMessage(message: HistoryMessage, destination: "REMOTE" | "ALL") {
+    OBR.broadcast.sendMessage(HISTORY_CHANNEL, message, { destination }).catch((error) => {
+        console.error("Failed to share history:", error);
+    });
+}
+
+const hasEntry = (id: string) => history.undo.some((e) => e.id === id) || history.redo.some((e) => e.id === id);
+
+/** Both stacks, minus their oldest steps until they fit in one message. */
+function historyForSync(): HistoryState {
+    let { undo, redo } = history;
+    while ((undo.length || redo.length) && JSON.stringify({ undo, redo }).length > MAX_SYNC_CHARS) {
+        if (undo.length) undo = undo.slice(1);
+        else redo = redo.slice(1);
+    }
+    return { undo, redo };
+}
+
+function receiveHistoryMessage(message: HistoryMessage) {
+    switch (message.type) {
+        case "push":
+            // Our own steps come back when sent to ALL
+            if (!hasEntry(message.entry.id)) {
+                setHistory({ undo: [...history.undo, message.entry].slice(-MAX_HISTORY), redo: [] });
+            }
+            break;
+        case "undone": {
+            const entry = history.undo.find((e) => e.id === message.id);
+            if (entry) {
+                setHistory({
+                    undo: history.undo.filter((e) => e.id !== entry.id),
+                    redo: [...history.redo, entry].slice(-MAX_HISTORY),
+                });
+            }
+            break;
+        }
+        case "redone": {
+            const entry = history.redo.find((e) => e.id === message.id);
+            if (entry) {
+                setHistory({
+                    undo: [...history.undo, entry].slice(-MAX_HISTORY),
+                    redo: history.redo.filter((e) => e.id !== entry.id),
+                });
+            }
+            break;
+        }
+        case "request":
+            if (history.undo.length || history.redo.length) {
+                sendHistoryMessage({ type: "sync", history: historyForSync() }, "REMOTE");
+            }
+            break;
+        case "sync":
+            // Only a tracker that just opened takes the stacks over
+            if (!history.undo.length && !history.redo.length) setHistory(message.history);
+            break;
+    }
+}
+
+/**
+ * GM tracker: follow the steps, undos and redos of the other GM clients and
+ * the modal pages, and ask them for what was recorded before this one opened.
+ * Returns an unsubscribe.
+ */
+export function shareHistory() {
+    const off = OBR.broadcast.onMessage(HISTORY_CHANNEL, (event) => {
+        const message = event.data as HistoryMessage | undefined;
+        if (message && typeof message === "object" && typeof message.type === "string") {
+            receiveHistoryMessage(message);
+        }
+    });
+    sendHistoryMessage({ type: "request" }, "REMOTE");
+    return off;
+}
+
+/** Push a new undo step; recording anything new invalidates the redo stack. */
+function pushEntry(
+    label: string,
+    items: ItemHistoryPatch[],
+    scene?: HistoryEntry["scene"],
+    sceneMeta?: SceneMetaPatch[],
+) {
+    if (items.length === 0 && !scene && !sceneMeta?.length) return;
+    const entry: HistoryEntry = {
+        id: `h-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        label,
+        ts: Date.now(),
+        items,
+        scene,
+        sceneMeta: sceneMeta?.length ? sceneMeta : undefined,
+    };
+    setHistory({ undo: [...history.undo, entry].slice(-MAX_HISTORY), redo: [] });
+    // ALL reaches the tracker on this client too when the step was taken in a modal page
+    sendHistoryMessage({ type: "push", entry }, "ALL");
+}
+
+/* =========================
+   Transactions
+   ========================= */
+
+const clone = <T,>(v: T): T => (v === undefined ? v : JSON.parse(JSON.stringify(v)));
+
+const metaKey = () => getPluginId("metadata");
+const sceneKey = () => getPluginId("sceneState");
+/** Scene metadata that withHistory() compares alongside started/round. */
+const trackedSceneKeys = () => [
+    getPluginId("virtualEntries"),
+    getPluginId("sideInitiative"),
+    getPluginId("cardDeck"),
+    getPluginId("initiativePass"),
+];
+
+type ItemState = { meta: MetaPatch | null; visible: boolean };
+
+type SceneMetaSnapshot = { scene: SceneSnapshot; tracked: Record<string, unknown> };
+
+function itemState(item: Item): ItemState {
+    const meta = (item.metadata as Record<string, unknown>)[metaKey()] as MetaPatch | undefined;
+    return { meta: meta ? clone(meta) : null, visible: item.visible };
+}
+
+async function takeSceneSnapshot(): Promise<SceneMetaSnapshot> {
+    const sceneMeta = await OBR.scene.getMetadata();
+    const raw = sceneMeta[sceneKey()] as Partial<SceneSnapshot> | undefined;
+    const tracked: Record<string, unknown> = {};
+    for (const k of trackedSceneKeys()) tracked[k] = clone(sceneMeta[k]);
+    return { scene: { started: raw?.started ?? false, round: raw?.round ?? 0 }, tracked };
+}
+
+function diffSceneMeta(a: SceneMetaSnapshot, b: SceneMetaSnapshot): SceneMetaPatch[] {
+    return trackedSceneKeys()
+        .filter((key) => JSON.stringify(a.tracked[key] ?? null) !== JSON.stringify(b.tracked[key] ?? null))
+        .map((key) => ({ key, before: a.tracked[key] ?? null, after: b.tracked[key] ?? null }));
+}
+
+function diffItem(id: string, before: ItemState, after: ItemState): ItemHistoryPatch | null {
+    const patch: ItemHistoryPatch = { id, before: before.meta, after: after.meta };
+    if (before.meta && after.meta) {
+        const prevMeta: MetaPatch = {};
+        const nextMeta: MetaPatch = {};
+        const keys = new Set([...Object.keys(before.meta), ...Object.keys(after.meta)]);
+        for (const k of keys) {
+            const prev = before.meta[k] ?? null;
+            const next = after.meta[k] ?? null;
+            if (JSON.stringify(prev) === JSON.stringify(next)) continue;
+            prevMeta[k] = prev;
+            nextMeta[k] = next;
+        }
+        patch.before = prevMeta;
+        patch.after = nextMeta;
+    } else if (!before.meta && !after.meta) {
+        patch.before = patch.after = {};
+    }
+
+    if (before.visible !== after.visible) {
+        patch.visible = { before: before.visible, after: after.visible };
+    }
+
+    const metaChanged = patch.before === null || patch.after === null || Object.keys(patch.before).length > 0;
+    return metaChanged || patch.visible ? patch : null;
+}
+
+/**
+ * Run a GM action as a single undo step. Item writes go through the
+ * transaction the action is handed; pass `parent` to fold a helper that
+ * records on its own into a surrounding action. On player clients the
+ * action runs without recording.
+ */
+export async function withHistory<T>(
+    label: string,
+    action: (tx: HistoryTransaction) => Promise<T>,
+    parent?: HistoryTransaction,
+): Promise<T> {
+    if (parent) return action(parent);
+    if ((await OBR.player.getRole()) !== "GM") return action(UNRECORDED);
+
+    // First "before" and last "after" of every item the action writes
+    const written = new Map<string, { before: ItemState; after: ItemState }>();
+    const tx: HistoryTransaction = {
+        updateItems: (items, update) => OBR.scene.items.updateItems(items, (drafts) => {
+            const before = drafts.map((it) => itemState(it as Item));
+            update(drafts as Item[]);
+            drafts.forEach((it, i) => {
+                const seen = written.get(it.id);
+                written.set(it.id, { before: seen?.before ?? before[i], after: itemState(it as Item) });
+            });
+        }),
+    };
+
+    let sceneBefore: SceneMetaSnapshot | null = null;
+    try {
+        sceneBefore = await takeSceneSnapshot();
+    } catch (error) {
+        console.error("Failed to snapshot for history:", error);
+    }
+
+    try {
+        return await action(tx);
+    } finally {
+        try {
+            const items = [...written]
+                .map(([id, { before, after }]) => diffItem(id, before, after))
+                .filter((patch): patch is ItemHistoryPatch => patch !== null);
+            const sceneAfter = sceneBefore ? await takeSceneSnapshot() : null;
+            const sceneChanged = !!sceneBefore && !!sceneAfter && (
+                sceneBefore.scene.started !== sceneAfter.scene.started || sceneBefore.scene.round !== sceneAfter.scene.round
+            );
+            pushEntry(
+                label,
+                items,
+                sceneChanged ? { before: sceneBefore!.scene, after: sceneAfter!.scene } : undefined,
+                sceneBefore && sceneAfter ? diffSceneMeta(sceneBefore, sceneAfter) : undefined,
+            );
+        } catch (error) {
+            console.error("Failed to record history:", error);
+        }
+    }
+}
+
+/* =========================
+   Undo / redo
+   ========================= */
+
+async function applyEntry(entry: HistoryEntry, direction: "before" | "after"): Promise<void> {
+    const key = metaKey();
+    const byId = new Map(entry.items.map((p) => [p.id, p]));
+    const existing = await OBR.scene.items.getItems(Array.from(byId.keys()));
+
+    if (existing.length) {
+        await OBR.scene.items.updateItems(existing.map((it) => it.id), (items) => {
+            for (const it of items) {
+                const patch = byId.get(it.id);
+                if (!patch) continue;
+
+                const target = patch[direction];
+                const other = patch[direction === "before" ? "after" : "before"];
+                const metadata = it.metadata as Record<string, unknown>;
+
+                if (target === null) {
+                    // The token had no Battle Board metadata on this side
+                    delete metadata[key];
+                } else if (other === null) {
+                    // Restoring a whole record
+                    metadata[key] = clone(target);
+                } else if (metadata[key]) {
+                    Object.assign(metadata[key] as MetaPatch, clone(target));
+                }
+
+                if (patch.visible) it.visible = patch.visible[direction];
+            }
+        });
+    }
+
+    if (entry.scene) {
+        const sceneMeta = await OBR.scene.getMetadata();
+        const current = (sceneMeta[sceneKey()] as MetaPatch | undefined) ?? {};
+        await OBR.scene.setMetadata({ [sceneKey()]: { ...current, ...entry.scene[direction] } });
+    }
+
+    if (entry.sceneMeta?.length) {
+        await OBR.scene.setMetadata(Object.fromEntries(
+            entry.sceneMeta.map((p) => [p.key, p[direction] === null ? undefined : clone(p[direction])])
+        ));
+    }
+}
+
+/** Revert the most recent recorded action. Returns its label, or null when there was nothing to undo. */
+export async function undo(): Promise<string | null> {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return null;
+
+    await applyEntry(entry, "before");
+    setHistory({
+        undo: history.undo.filter((e) => e.id !== entry.id),
+        redo: [...history.redo, entry].slice(-MAX_HISTORY),
+    });
+    sendHistoryMessage({ type: "undone", id: entry.id }, "REMOTE");
+    return entry.label;
+}
+
+/** Re-apply the most recently undone action. */
+export async function redo(): Promise<string | null> {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return null;
+
+    await applyEntry(entry, "after");
+    setHistory({
+        undo: [...history.undo, entry].slice(-MAX_HISTORY),
+        redo: history.redo.filter((e) => e.id !== entry.id),
+    });
+    sendHistoryMessage({ type: "redone", id: entry.id }, "REMOTE");
+    return entry.label;
+}
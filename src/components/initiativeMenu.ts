@@ -1,5 +1,8 @@
 import OBR from "@owlbear-rodeo/sdk";
 import { META_KEY, createMetaForItem } from "./metadata";
+import { appendCombatLog, rosterEvents } from "./combatLog";
+import { withHistory } from "./history";
+import { openAreaDamage } from "./areaDamage";
 
 const MODAL_ID = META_KEY + "/group-modal";
 
@@ -8,6 +11,7 @@ export function registerInitiativeContextMenu() {
     const addGroupId = META_KEY + "/add-group-menu";
     const removeId = META_KEY + "/remove-menu";
     const elevationId = META_KEY + "/elevation-menu";
+    const damageId = META_KEY + "/area-damage-menu";
 
     // "Add Solo" - adds token directly to the battleboard
     OBR.contextMenu.create({
@@ -33,7 +37,7 @@ export function registerInitiativeContextMenu() {
         ],
         onClick(context) {
             (async () => {
-                await OBR.scene.items.updateItems(context.items, (items) => {
+                await withHistory("Add to BattleBoard", (tx) => tx.updateItems(context.items, (items) => {
                     for (const it of items) {
                         const meta = (it.metadata as any)[META_KEY];
                         if (!meta) {
@@ -42,7 +46,7 @@ export function registerInitiativeContextMenu() {
                             meta.inInitiative = true;
                         }
                     }
-                });
+                }));
                 for (const item of context.items) {
                     await OBR.broadcast.sendMessage(
                         "com.missing-link-dev.battle-board/item-added",
@@ -50,6 +54,7 @@ export function registerInitiativeContextMenu() {
                         { destination: "LOCAL" },
                     );
                 }
+                await appendCombatLog(rosterEvents("added", context.items));
             })();
         },
     });
@@ -120,7 +125,7 @@ export function registerInitiativeContextMenu() {
         ],
         onClick(context) {
             (async () => {
-                await OBR.scene.items.updateItems(context.items, (items) => {
+                await withHistory("Remove from BattleBoard", (tx) => tx.updateItems(context.items, (items) => {
                     for (const it of items) {
                         const meta = (it.metadata as any)[META_KEY];
                         if (meta) {
@@ -129,9 +134,12 @@ export function registerInitiativeContextMenu() {
                             meta.groupId = null;
                             meta.groupName = null;
                             meta.groupStaged = false;
+                            meta.extraTurns = [];
+                            meta.activeSlot = 0;
                         }
                     }
-                });
+                }));
+                await appendCombatLog(rosterEvents("removed", context.items));
             })();
         },
     });
@@ -162,5 +170,30 @@ export function registerInitiativeContextMenu() {
         },
     });
 
+    // "Apply Damage" - opens the area damage dialog for the selected tokens
+    OBR.contextMenu.create({
+        id: damageId,
+        icons: [
+            {
+                icon: "/damage.svg",
+                label: "Apply Damage",
+                filter: {
+                    every: [
+                        { key: "layer", value: "CHARACTER", coordinator: "||" },
+                        { key: "layer", value: "MOUNT" },
+                        { key: "type", value: "IMAGE" },
+                        // Must have metadata (in initiative)
+                        { key: ["metadata", META_KEY], value: undefined, operator: "!=" },
+                    ],
+                    permissions: ["UPDATE"],
+                    roles: ["GM"],
+                },
+            },
+        ],
+        onClick(context) {
+            openAreaDamage(context.items.map((item) => item.id));
+        },
+    });
+
     return () => { };
 }
@@ -0,0 +1,135 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { batchUpdateMeta } from "./metadata";
+import { appendCombatLog, type CombatLogEvent } from "./combatLog";
+import { withHistory } from "./history";
+
+/* =========================
+   Player initiative requests (scene metadata)
+   =========================
+   The GM writes the request (which PCs are asked). Each PC's answer lives
+   under its own key, so players submitting at the same time don't overwrite
+   each other.
+*/
+
+export const INITIATIVE_REQUEST_META_KEY = getPluginId("initiativeRequest");
+
+const answerKey = (tokenId: string) => `${INITIATIVE_REQUEST_META_KEY}/${tokenId}`;
+
+/** A PC's answer: waiting for the GM, or written to the token. */
+type Answer = { submission: InitiativeSubmission; done: boolean };
+
+/** A value a player entered for one of their PCs, waiting for the GM. */
+export type InitiativeSubmission = {
+    tokenId: string;
+    tokenName: string;
+    value: number;
+    /** Dice breakdown when the player rolled in the field ("d20+3") */
+    detail?: string | null;
+    playerName: string;
+};
+
+export type InitiativeRequest = {
+    /** PCs asked to roll */
+    tokenIds: string[];
+    /** Awaiting GM approval, at most one per token */
+    pending: InitiativeSubmission[];
+    /** Tokens whose value has been written */
+    done: string[];
+};
+
+export type InitiativeRequestStatus = "waiting" | "pending" | "done";
+
+function parseAnswer(raw: unknown): Answer | null {
+    if (!raw || typeof raw !== "object") return null;
+    const a = raw as Partial<Answer>;
+    if (!a.submission || typeof a.submission.tokenId !== "string") return null;
+    return { submission: a.submission, done: !!a.done };
+}
+
+/** The request and its PCs' answers, read from the scene metadata. */
+function parseRequest(meta: Record<string, unknown>): InitiativeRequest | null {
+    const raw = meta[INITIATIVE_REQUEST_META_KEY];
+    if (!raw || typeof raw !== "object") return null;
+    const r = raw as Partial<InitiativeRequest>;
+    if (!Array.isArray(r.tokenIds)) return null;
+
+    const tokenIds = r.tokenIds.filter((id): id is string => typeof id === "string");
+    const answers = tokenIds
+        .map((id) => parseAnswer(meta[answerKey(id)]))
+        .filter((answer): answer is Answer => answer !== null);
+    return {
+        tokenIds,
+        pending: answers.filter((a) => !a.done).map((a) => a.submission),
+        done: answers.filter((a) => a.done).map((a) => a.submission.tokenId),
+    };
+}
+
+export async function readInitiativeRequest(): Promise<InitiativeRequest | null> {
+    return parseRequest(await OBR.scene.getMetadata());
+}
+
+export function onInitiativeRequestChange(cb: (request: InitiativeRequest | null) => void) {
+    readInitiativeRequest().then(cb);
+    return OBR.scene.onMetadataChange((meta) => cb(parseRequest(meta)));
+}
+
+/** Scene metadata that removes every stored answer (they belong to an earlier request). */
+async function clearedAnswers(): Promise<Record<string, undefined>> {
+    const meta = await OBR.scene.getMetadata();
+    return Object.fromEntries(Object.keys(meta)
+        .filter((key) => key.startsWith(`${INITIATIVE_REQUEST_META_KEY}/`))
+        .map((key) => [key, undefined]));
+}
+
+export function requestStatus(request: InitiativeRequest, tokenId: string): InitiativeRequestStatus {
+    if (request.done.includes(tokenId)) return "done";
+    if (request.pending.some((s) => s.tokenId === tokenId)) return "pending";
+    return "waiting";
+}
+
+/** Ask players to enter initiative for the given PCs. Replaces any open request. */
+export async function startInitiativeRequest(tokenIds: string[]): Promise<void> {
+    await OBR.scene.setMetadata({ ...(await clearedAnswers()), [INITIATIVE_REQUEST_META_KEY]: { tokenIds } });
+}
+
+export async function endInitiativeRequest(): Promise<void> {
+    await OBR.scene.setMetadata({ ...(await clearedAnswers()), [INITIATIVE_REQUEST_META_KEY]: undefined });
+}
+
+/** Write submitted values to the tokens and mark them done. */
+export async function approveSubmissions(submissions: InitiativeSubmission[]): Promise<void> {
+    if (submissions.length === 0) return;
+    const label = submissions.length === 1 ? `Initiative for ${submissions[0].tokenName}` : "Player initiative";
+    await withHistory(label, (tx) => batchUpdateMeta(OBR, submissions.map((s) => ({ id: s.tokenId, patch: { initiative: s.value } })), tx));
+
+    await OBR.scene.setMetadata(Object.fromEntries(
+        submissions.map((submission): [string, Answer] => [answerKey(submission.tokenId), { submission, done: true }])
+    ));
+
+    const events: CombatLogEvent[] = submissions.map((s) => ({
+        kind: "initiative",
+        actorId: s.tokenId,
+        actorName: s.tokenName,
+        text: `${s.tokenName} rolls initiative: ${s.value}${s.detail ? ` — ${s.detail}` : ""} (entered by ${s.playerName})`,
+    }));
+    await appendCombatLog(events);
+}
+
+/**
+ * Player side: submit a value. It goes straight onto the token when the room
+ * allows it, otherwise into the GM's approval queue (replacing an earlier entry).
+ */
+export async function submitInitiative(submission: InitiativeSubmission, applyDirectly: boolean): Promise<void> {
+    if (applyDirectly) {
+        await approveSubmissions([submission]);
+        return;
+    }
+    const answer: Answer = { submission, done: false };
+    await OBR.scene.setMetadata({ [answerKey(submission.tokenId)]: answer });
+}
+
+/** Send a value back; the player can enter a new one. */
+export async function rejectSubmission(tokenId: string): Promise<void> {
+    await OBR.scene.setMetadata({ [answerKey(tokenId)]: undefined });
+}
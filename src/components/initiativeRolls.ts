@@ -0,0 +1,178 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { batchUpdateMeta, readMeta, type MetaShape } from "./metadata";
+import { readVirtualEntries } from "./virtualEntries";
+import { rollDie } from "./dice";
+import { appendCombatLog, type CombatLogEvent } from "./combatLog";
+import { withHistory, type HistoryTransaction } from "./history";
+import type { InitiativeItem } from "./InitiativeItem";
+import { initiativeBetween } from "./utils";
+
+/* =========================
+   Rolling initiative
+   ========================= */
+
+export type InitiativeRollScope = "all" | "npcs" | { groupId: string };
+
+/** One roll: a single combatant, or a whole group that shares initiative. */
+export type Roller = {
+    /** Token id, or the group id for a group */
+    id: string;
+    ids: string[];
+    name: string;
+    modifier: number;
+    advantage: boolean;
+};
+
+type RollResult = Roller & {
+    total: number;
+    dice: number[];
+};
+
+export const formatMod = (mod: number) => (mod < 0 ? ` − ${-mod}` : mod > 0 ? ` + ${mod}` : "");
+
+/** d20 + modifier, taking the higher of two d20s with advantage. */
+export function rollInitiative(modifier: number, advantage = false): { total: number; dice: number[] } {
+    const dice = advantage ? [rollDie(20), rollDie(20)] : [rollDie(20)];
+    return { total: Math.max(...dice) + modifier, dice };
+}
+
+/**
+ * Grouped combatants roll once for the whole group, using the best modifier
+ * (and advantage if any member has it). A combatant's modifier includes its
+ * per-round adjustment (weapon speed and the like).
+ */
+export function rollersFor(rows: InitiativeItem[], scope: InitiativeRollScope): Roller[] {
+    const inScope = rows.filter((row) => {
+        if (scope === "npcs") return !row.playerCharacter;
+        if (scope === "all") return true;
+        return row.groupId === scope.groupId;
+    });
+
+    const rollers: Roller[] = [];
+    const byGroup = new Map<string, Roller>();
+    for (const row of inScope) {
+        const modifier = (row.initiativeMod ?? 0) + (row.initiativeRoundMod ?? 0);
+        const advantage = !!row.initiativeAdvantage;
+        if (!row.groupId) {
+            rollers.push({ id: row.id, ids: [row.id], name: row.name || "Unnamed", modifier, advantage });
+            continue;
+        }
+        const existing = byGroup.get(row.groupId);
+        if (existing) {
+            existing.ids.push(row.id);
+            existing.modifier = Math.max(existing.modifier, modifier);
+            existing.advantage ||= advantage;
+        } else {
+            const roller = { id: row.groupId, ids: [row.id], name: row.groupName || row.name || "Group", modifier, advantage };
+            byGroup.set(row.groupId, roller);
+            rollers.push(roller);
+        }
+    }
+    return rollers;
+}
+
+/** Initiatives already in the tracker, apart from the combatants about to roll. */
+async function trackerInitiatives(rolling: Set<string>): Promise<Set<number>> {
+    const taken = new Set<number>();
+    for (const item of await OBR.scene.items.getItems()) {
+        const meta = readMeta(item);
+        if (meta?.inInitiative && !rolling.has(item.id)) taken.add(meta.initiative);
+    }
+    for (const entry of await readVirtualEntries()) taken.add(entry.initiative);
+    return taken;
+}
+
+/**
+ * Break ties between equal totals by modifier: `sortByInitiativeDesc` puts the
+ * smaller decimal first, so the highest modifier keeps the whole number.
+ * Combatants already in the tracker on the same count keep their place,
+ * whatever their decimal or modifier: the new rolls are placed after the last
+ * of them.
+ */
+function withTieBreaks(results: RollResult[], taken: Set<number>): Map<RollResult, number> {
+    const buckets = new Map<number, RollResult[]>();
+    for (const result of results) {
+        const bucket = buckets.get(result.total) ?? [];
+        bucket.push(result);
+        buckets.set(result.total, bucket);
+    }
+
+    const values = new Map<RollResult, number>();
+    for (const [total, bucket] of buckets) {
+        bucket.sort((a, b) => b.modifier - a.modifier || Math.random() - 0.5);
+        const held = [...taken].filter((v) => Math.floor(v) === total);
+
+        if (held.length === 0) {
+            const step = bucket.length <= 10 ? 0.1 : 0.01;
+            bucket.forEach((result, i) => values.set(result, Math.round((total + i * step) * 100) / 100));
+            continue;
+        }
+
+        let prev = Math.max(...held);
+        for (const result of bucket) {
+            prev = initiativeBetween(prev, null);
+            values.set(result, prev);
+        }
+    }
+    return values;
+}
+
+/** Write rolled results in one metadata write and log them. Returns the token patches written. */
+async function writeRolls(
+    results: RollResult[],
+    tx: HistoryTransaction,
+): Promise<{ id: string; patch: Partial<MetaShape> }[]> {
+    const values = withTieBreaks(results, await trackerInitiatives(new Set(results.flatMap((r) => r.ids))));
+    const patches: { id: string; patch: Partial<MetaShape> }[] = results.flatMap((result) =>
+        result.ids.map((id) => ({ id, patch: { initiative: values.get(result) ?? result.total } }))
+    );
+    await batchUpdateMeta(OBR, patches, tx);
+
+    const events: CombatLogEvent[] = results.map((result) => {
+        const dice = result.dice.length > 1 ? `d20 (${result.dice.join(", ")})` : `d20 (${result.dice[0]})`;
+        return {
+            kind: "initiative",
+            actorId: result.id,
+            actorName: result.name,
+            text: `${result.name} rolls initiative: ${result.total} — ${dice}${formatMod(result.modifier)}`,
+        };
+    });
+    await appendCombatLog(events);
+    return patches;
+}
+
+function rollFor(rows: InitiativeItem[], scope: InitiativeRollScope): RollResult[] {
+    return rollersFor(rows, scope).map((roller) => ({
+        ...roller,
+        ...rollInitiative(roller.modifier, roller.advantage),
+    }));
+}
+
+/**
+ * Roll initiative for the combatants in scope and write the results in one
+ * metadata write (one undo step). Returns how many rolls were made.
+ */
+export async function rollInitiativeFor(rows: InitiativeItem[], scope: InitiativeRollScope): Promise<number> {
+    const results = rollFor(rows, scope);
+    if (results.length === 0) return 0;
+
+    const label = scope === "all" ? "Roll initiative for all"
+        : scope === "npcs" ? "Roll initiative for NPCs"
+            : `Roll initiative for ${results[0].name}`;
+    await withHistory(label, (tx) => writeRolls(results, tx));
+    return results.length;
+}
+
+/**
+ * Fresh initiative for everyone at the top of a round ("reroll each round").
+ * Written through the turn change's history transaction, so undoing it brings
+ * back the previous round's order. Returns the token patches written.
+ */
+export async function rerollInitiative(
+    rows: InitiativeItem[],
+    tx: HistoryTransaction,
+): Promise<{ id: string; patch: Partial<MetaShape> }[]> {
+    const results = rollFor(rows, "all");
+    if (results.length === 0) return [];
+    return writeRolls(results, tx);
+}
@@ -1,5 +1,10 @@
 import { getPluginId } from "../getPluginId";
 import type { Item } from "@owlbear-rodeo/sdk";
+import type { TimedEffect } from "./effects";
+import type { DeathSaves } from "./deathSaves";
+import type { ActionKind } from "./actionEconomy";
+import type { RechargeAbility } from "./recharge";
+import { UNRECORDED, type HistoryTransaction } from "./history";
 
 export const META_KEY = getPluginId("metadata");
 
@@ -50,6 +55,48 @@ export type MetaShape = {
     // Concentration tracking
     concentrating?: boolean;
 
+    // Turn actions
+    delayed?: boolean;              // Out of the turn order until resumed
+    readied?: boolean;              // Holding a readied action (cleared at the start of its turn)
+    acted?: boolean;                // Popcorn initiative: has had its turn this round
+
+    // Extra turns each round (a solo boss acting on 20 and again on 10)
+    extraTurns?: number[];          // Initiative of each extra turn
+    activeSlot?: number;            // Which turn is active: 0 = its own initiative, n = extraTurns[n - 1]
+
+    // Action economy: what it has used since the start of its turn
+    actionsUsed?: ActionKind[];
+
+    // Bosses: legendary actions per round (back at the start of its turn) and resistances per day
+    legendaryActions?: number;
+    legendaryActionsUsed?: number;
+    legendaryResistances?: number;
+    legendaryResistancesUsed?: number;
+
+    // Timed effects (Bless, Hold Person, ...) ticked down by the turn engine
+    effects?: TimedEffect[];
+
+    // Recharge abilities, rolled for at the start of its turn once expended
+    recharges?: RechargeAbility[];
+
+    // Damage defenses (damage type names, lower case)
+    resistances?: string[];
+    vulnerabilities?: string[];
+    immunities?: string[];
+
+    // Initiative rolls: d20 + mod (+ a per-round adjustment), optionally with advantage
+    initiativeMod?: number;
+    initiativeRoundMod?: number;
+    initiativeAdvantage?: boolean;
+
+    // Card initiative: the card dealt this round, cards drawn (Level Headed) and Quick
+    initiativeCard?: string | null;
+    initiativeDraw?: number;
+    initiativeQuick?: boolean;
+
+    // Death saves (PCs at 0 HP); reset whenever they're healed
+    deathSaves?: DeathSaves | null;
+
     // DEPRECATED: Keep for migration
     encounterGroups?: string[];
 };
@@ -115,6 +162,28 @@ export const DEFAULT_META: Omit<MetaShape, "name" | "visible"> = {
     groupName: null,
     groupStaged: false,
     concentrating: false,
+    delayed: false,
+    readied: false,
+    acted: false,
+    extraTurns: [],
+    activeSlot: 0,
+    actionsUsed: [],
+    legendaryActions: 0,
+    legendaryActionsUsed: 0,
+    legendaryResistances: 0,
+    legendaryResistancesUsed: 0,
+    effects: [],
+    recharges: [],
+    resistances: [],
+    vulnerabilities: [],
+    immunities: [],
+    deathSaves: null,
+    initiativeMod: 0,
+    initiativeRoundMod: 0,
+    initiativeAdvantage: false,
+    initiativeCard: null,
+    initiativeDraw: 1,
+    initiativeQuick: false,
 };
 
 /** Create initial meta from an Item snapshot + defaults. */
@@ -147,29 +216,28 @@ export function readMeta(item: Item): MetaShape | null {
     return meta;
 }
 
-/** Write/patch helper (single item id). */
+/**
+ * Write/patch helper (single item id). Pass the transaction of a surrounding
+ * withHistory() action to make it undoable.
+ */
 export function updateItemMeta(
     OBR: any,
     id: string,
-    patch: Partial<MetaShape>
+    patch: Partial<MetaShape>,
+    tx: HistoryTransaction = UNRECORDED,
 ): Promise<void> {
-    return OBR.scene.items.updateItems([id], (items: Item[]) => {
-        for (const it of items) {
-            const meta = ((it.metadata as any)[META_KEY] ?? createMetaForItem(it)) as MetaShape;
-            Object.assign(meta, patch);
-            (it.metadata as any)[META_KEY] = meta;
-        }
-    });
+    return batchUpdateMeta(OBR, [{ id, patch }], tx);
 }
 
-/** Batch patch by id. */
+/** Batch patch by id; recorded for undo when written through a withHistory() transaction. */
 export function batchUpdateMeta(
-    OBR: any,
-    patches: { id: string; patch: Partial<MetaShape> }[]
+    _OBR: any,
+    patches: { id: string; patch: Partial<MetaShape> }[],
+    tx: HistoryTransaction = UNRECORDED,
 ): Promise<void> {
     if (patches.length === 0) return Promise.resolve();
     const ids = patches.map((p) => p.id);
-    return OBR.scene.items.updateItems(ids, (items: Item[]) => {
+    return tx.updateItems(ids, (items: Item[]) => {
         for (const it of items) {
             const p = patches.find((x) => x.id === it.id)?.patch;
             if (!p) continue;
@@ -191,7 +259,8 @@ export async function addTokenToGroup(
     tokenId: string,
     groupId: string,
     groupName?: string,
-    groupInitiative?: number
+    groupInitiative?: number,
+    tx: HistoryTransaction = UNRECORDED,
 ) {
     // Check if group already exists by finding other members
     const allItems = await OBR.scene.items.getItems();
@@ -202,7 +271,7 @@ export async function addTokenToGroup(
     const finalGroupInitiative = groupInitiative ?? existingGroup?.initiative ?? 0;
     const finalGroupStaged = existingGroup?.staged ?? false;
 
-    return OBR.scene.items.updateItems([tokenId], (items: Item[]) => {
+    return tx.updateItems([tokenId], (items: Item[]) => {
         const it = items[0];
         const hadMeta = !!(it.metadata as any)[META_KEY];
         const meta = (hadMeta ? (it.metadata as any)[META_KEY] : createMetaForItem(it)) as MetaShape;
@@ -213,6 +282,9 @@ export async function addTokenToGroup(
         meta.groupName = finalGroupName;
         meta.groupStaged = finalGroupStaged;
         meta.initiative = finalGroupInitiative;
+        // A group acts as one: extra turns don't carry over
+        meta.extraTurns = [];
+        meta.activeSlot = 0;
 
         // Clean up legacy encounterGroups if present
         if (meta.encounterGroups) {
@@ -224,8 +296,8 @@ export async function addTokenToGroup(
 }
 
 /** Remove a token from its group (clears all group properties). */
-export function removeTokenFromGroup(OBR: any, id: string) {
-    return OBR.scene.items.updateItems([id], (items: Item[]) => {
+export function removeTokenFromGroup(_OBR: any, id: string, tx: HistoryTransaction = UNRECORDED) {
+    return tx.updateItems([id], (items: Item[]) => {
         const it = items[0];
         const meta = ((it.metadata as any)[META_KEY] ?? createMetaForItem(it)) as MetaShape;
 
@@ -264,7 +336,7 @@ export function getTokenGroupId(item: Item): string | null {
  * Update initiative for all tokens in a group.
  * This syncs the group's initiative value across all members.
  */
-export async function syncGroupTokensInitiative(OBR: any, groupId: string, groupInitiative: number) {
+export async function syncGroupTokensInitiative(OBR: any, groupId: string, groupInitiative: number, tx: HistoryTransaction = UNRECORDED) {
     const tokenIds = await getTokensInGroup(OBR, groupId);
 
     if (tokenIds.length === 0) return;
@@ -278,14 +350,14 @@ export async function syncGroupTokensInitiative(OBR: any, groupId: string, group
         }
     }));
 
-    await batchUpdateMeta(OBR, patches);
+    await batchUpdateMeta(OBR, patches, tx);
 }
 
 /**
  * Update group name for all tokens in a group.
  * This syncs the group's name across all members.
  */
-export async function updateGroupName(OBR: any, groupId: string, groupName: string) {
+export async function updateGroupName(OBR: any, groupId: string, groupName: string, tx: HistoryTransaction = UNRECORDED) {
     const tokenIds = await getTokensInGroup(OBR, groupId);
 
     if (tokenIds.length === 0) return;
@@ -295,14 +367,14 @@ export async function updateGroupName(OBR: any, groupId: string, groupName: stri
         patch: { groupName }
     }));
 
-    await batchUpdateMeta(OBR, patches);
+    await batchUpdateMeta(OBR, patches, tx);
 }
 
 /**
  * Update staged status for all tokens in a group.
  * This syncs the group's staged status across all members.
  */
-export async function updateGroupStaged(OBR: any, groupId: string, staged: boolean) {
+export async function updateGroupStaged(OBR: any, groupId: string, staged: boolean, tx: HistoryTransaction = UNRECORDED) {
     const tokenIds = await getTokensInGroup(OBR, groupId);
 
     if (tokenIds.length === 0) return;
@@ -312,14 +384,14 @@ export async function updateGroupStaged(OBR: any, groupId: string, staged: boole
         patch: { groupStaged: staged }
     }));
 
-    await batchUpdateMeta(OBR, patches);
+    await batchUpdateMeta(OBR, patches, tx);
 }
 
 /**
  * Update active status for all tokens in a group.
  * Used during turn management.
  */
-export async function updateGroupActive(OBR: any, groupId: string, active: boolean) {
+export async function updateGroupActive(OBR: any, groupId: string, active: boolean, tx: HistoryTransaction = UNRECORDED) {
     const tokenIds = await getTokensInGroup(OBR, groupId);
 
     if (tokenIds.length === 0) return;
@@ -329,7 +401,7 @@ export async function updateGroupActive(OBR: any, groupId: string, active: boole
         patch: { active }
     }));
 
-    await batchUpdateMeta(OBR, patches);
+    await batchUpdateMeta(OBR, patches, tx);
 }
 
 /**
@@ -340,7 +412,8 @@ export async function createGroupFromTokens(
     OBR: any,
     tokenIds: string[],
     groupName: string,
-    groupInitiative: number = 0
+    groupInitiative: number = 0,
+    tx: HistoryTransaction = UNRECORDED,
 ): Promise<string> {
     const groupId = globalThis.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 
@@ -354,7 +427,7 @@ export async function createGroupFromTokens(
         } as Partial<MetaShape>
     }));
 
-    await batchUpdateMeta(OBR, patches);
+    await batchUpdateMeta(OBR, patches, tx);
 
     return groupId;
 }
@@ -363,7 +436,7 @@ export async function createGroupFromTokens(
  * Delete a group by removing all tokens from it.
  * This doesn't delete the tokens, just removes their group membership.
  */
-export async function deleteGroup(OBR: any, groupId: string) {
+export async function deleteGroup(OBR: any, groupId: string, tx: HistoryTransaction = UNRECORDED) {
     const tokenIds = await getTokensInGroup(OBR, groupId);
 
     if (tokenIds.length === 0) return;
@@ -377,17 +450,17 @@ export async function deleteGroup(OBR: any, groupId: string) {
         } as Partial<MetaShape>
     }));
 
-    await batchUpdateMeta(OBR, patches);
+    await batchUpdateMeta(OBR, patches, tx);
 }
 
 /** Update token visibility for all tokens in a group */
-export async function updateGroupTokensVisibility(OBR: any, groupId: string, visible: boolean) {
+export async function updateGroupTokensVisibility(OBR: any, groupId: string, visible: boolean, tx: HistoryTransaction = UNRECORDED) {
     const tokenIds = await getTokensInGroup(OBR, groupId);
 
     if (tokenIds.length === 0) return;
 
     // Update the actual OBR item visibility (not metadata)
-    await OBR.scene.items.updateItems(tokenIds, (items: Item[]) => {
+    await tx.updateItems(tokenIds, (items: Item[]) => {
         for (const item of items) {
             // Make sure we're setting the visible property correctly
             item.visible = visible;
@@ -396,8 +469,8 @@ export async function updateGroupTokensVisibility(OBR: any, groupId: string, vis
 }
 
 /** Set token visibility for a single token */
-export async function updateTokenVisibility(OBR: any, tokenId: string, visible: boolean) {
-    await OBR.scene.items.updateItems([tokenId], (items: Item[]) => {
+export async function updateTokenVisibility(_OBR: any, tokenId: string, visible: boolean, tx: HistoryTransaction = UNRECORDED) {
+    await tx.updateItems([tokenId], (items: Item[]) => {
         const item = items[0];
         if (item) {
             // Make sure we're setting the visible property correctly
@@ -407,8 +480,15 @@ export async function updateTokenVisibility(OBR: any, tokenId: string, visible:
 }
 
 /** Add token to group with specific initiative and member ordering */
-export async function addTokenToGroupWithInitiative(OBR: any, id: string, groupId: string, groupInitiative: number, memberIndex: number = 0) {
-    return OBR.scene.items.updateItems([id], (items: Item[]) => {
+export async function addTokenToGroupWithInitiative(
+    _OBR: any,
+    id: string,
+    groupId: string,
+    groupInitiative: number,
+    memberIndex: number = 0,
+    tx: HistoryTransaction = UNRECORDED,
+) {
+    return tx.updateItems([id], (items: Item[]) => {
         const it = items[0];
         const hadMeta = !!(it.metadata as any)[META_KEY];
         const meta = (hadMeta ? (it.metadata as any)[META_KEY] : createMetaForItem(it)) as MetaShape;
@@ -419,6 +499,8 @@ export async function addTokenToGroupWithInitiative(OBR: any, id: string, groupI
 
         // Set initiative to match group with decimal sub-ordering for stable sorting
         meta.initiative = groupInitiative + (memberIndex * 0.1);
+        meta.extraTurns = [];
+        meta.activeSlot = 0;
 
         // Clean up legacy encounterGroups if present
         if (meta.encounterGroups) {
@@ -0,0 +1,45 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+
+/* =========================
+   Initiative passes (scene metadata)
+   =========================
+   Shadowrun style: after each pass every score drops by a fixed amount, and
+   anyone still above zero acts again in another pass of the same round. The
+   scores on the tokens are never rewritten; a combatant's score in pass n is
+   its initiative minus (n - 1) × the reduction. Only used when the room's
+   initiative mode is "passes".
+*/
+
+export const INITIATIVE_PASS_META_KEY = getPluginId("initiativePass");
+
+export const DEFAULT_PASS_REDUCTION = 10;
+
+function parsePass(raw: unknown): number {
+    return typeof raw === "number" && raw >= 1 ? Math.floor(raw) : 1;
+}
+
+/** The pass the round is in (1 when no fight is running). */
+export async function readInitiativePass(): Promise<number> {
+    const meta = await OBR.scene.getMetadata();
+    return parsePass(meta[INITIATIVE_PASS_META_KEY]);
+}
+
+export function onInitiativePassChange(cb: (pass: number) => void) {
+    readInitiativePass().then(cb);
+    return OBR.scene.onMetadataChange((meta) => cb(parsePass(meta[INITIATIVE_PASS_META_KEY])));
+}
+
+export async function setInitiativePass(pass: number): Promise<void> {
+    await OBR.scene.setMetadata({ [INITIATIVE_PASS_META_KEY]: pass });
+}
+
+/** A combatant's score in the given pass. */
+export function passScore(initiative: number, pass: number, reduction: number): number {
+    return initiative - (pass - 1) * reduction;
+}
+
+/** Everyone acts in the first pass; after that only scores still above zero. */
+export function actsInPass(initiative: number, pass: number, reduction: number): boolean {
+    return pass === 1 || passScore(initiative, pass, reduction) > 0;
+}
@@ -0,0 +1,78 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+
+/* =========================
+   Popcorn handoff requests (scene metadata)
+   =========================
+   Players pick who goes next from their own list; one GM client claims the
+   request, runs the handoff through the turn engine and clears it.
+*/
+
+export const POPCORN_HANDOFF_META_KEY = getPluginId("popcornHandoff");
+/** Which request was claimed last, and the client handling it */
+const POPCORN_CLAIM_META_KEY = getPluginId("popcornHandoffClaim");
+
+/** How long a claim waits for a competing GM client's write to land */
+const HANDOFF_CLAIM_SETTLE_MS = 500;
+
+export type PopcornHandoff = {
+    /** Tells requests apart, so each one is handled once */
+    requestId: string;
+    /** Token, group or virtual entry id; null ends the round (everyone has acted) */
+    targetId: string | null;
+    playerName: string;
+};
+
+function parseHandoff(raw: unknown): PopcornHandoff | null {
+    if (!raw || typeof raw !== "object") return null;
+    const h = raw as Partial<PopcornHandoff>;
+    if (typeof h.requestId !== "string") return null;
+    if (typeof h.targetId !== "string" && h.targetId !== null) return null;
+    return {
+        requestId: h.requestId,
+        targetId: h.targetId,
+        playerName: typeof h.playerName === "string" ? h.playerName : "A player",
+    };
+}
+
+export async function readPopcornHandoff(): Promise<PopcornHandoff | null> {
+    const meta = await OBR.scene.getMetadata();
+    return parseHandoff(meta[POPCORN_HANDOFF_META_KEY]);
+}
+
+export function onPopcornHandoffChange(cb: (handoff: PopcornHandoff | null) => void) {
+    readPopcornHandoff().then(cb);
+    return OBR.scene.onMetadataChange((meta) => cb(parseHandoff(meta[POPCORN_HANDOFF_META_KEY])));
+}
+
+export async function requestPopcornHandoff(handoff: Omit<PopcornHandoff, "requestId">): Promise<void> {
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    await OBR.scene.setMetadata({ [POPCORN_HANDOFF_META_KEY]: { ...handoff, requestId } satisfies PopcornHandoff });
+}
+
+type HandoffClaim = { requestId: string; playerId: string };
+
+const readHandoffClaim = async () =>
+    (await OBR.scene.getMetadata())[POPCORN_CLAIM_META_KEY] as Partial<HandoffClaim> | undefined;
+
+/**
+ * Claim a handoff request for this client. Returns false when another GM
+ * window already claimed it or the request has since changed. Two clients
+ * claiming together both write the marker; only the one whose write landed
+ * last goes ahead.
+ */
+export async function claimPopcornHandoff(handoff: PopcornHandoff): Promise<boolean> {
+    if ((await readHandoffClaim())?.requestId === handoff.requestId) return false;
+    if ((await readPopcornHandoff())?.requestId !== handoff.requestId) return false;
+
+    const claim: HandoffClaim = { requestId: handoff.requestId, playerId: await OBR.player.getId() };
+    await OBR.scene.setMetadata({ [POPCORN_CLAIM_META_KEY]: claim });
+    await new Promise((resolve) => setTimeout(resolve, HANDOFF_CLAIM_SETTLE_MS));
+
+    const settled = await readHandoffClaim();
+    return settled?.requestId === claim.requestId && settled.playerId === claim.playerId;
+}
+
+export async function clearPopcornHandoff(): Promise<void> {
+    await OBR.scene.setMetadata({ [POPCORN_HANDOFF_META_KEY]: undefined });
+}
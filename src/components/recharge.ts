@@ -0,0 +1,50 @@
+import { rollDie } from "./dice";
+
+/* =========================
+   Recharge abilities
+   =========================
+   "Recharge 5–6" abilities such as a dragon's breath weapon. Once one is
+   expended, the turn engine rolls a d6 for it at the start of its owner's
+   turn; a roll in range makes it available again.
+*/
+
+export type RechargeAbility = {
+    id: string;
+    name: string;
+    /** Lowest d6 roll that recharges it (5 for "Recharge 5–6") */
+    rechargeOn: number;
+    expended: boolean;
+};
+
+export type RechargeRoll = {
+    ability: RechargeAbility;
+    roll: number;
+    recharged: boolean;
+};
+
+export function createRechargeAbility(name: string, rechargeOn: number): RechargeAbility {
+    return {
+        id: `recharge-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        rechargeOn: Math.min(6, Math.max(2, Math.floor(rechargeOn))),
+        expended: false,
+    };
+}
+
+/** "Recharge 5–6", or "Recharge 6" */
+export function rechargeLabel(rechargeOn: number): string {
+    return rechargeOn >= 6 ? "Recharge 6" : `Recharge ${rechargeOn}–6`;
+}
+
+/** Roll for every expended ability. Abilities that are ready are left alone. */
+export function rollRecharges(abilities: RechargeAbility[]): { abilities: RechargeAbility[]; rolls: RechargeRoll[] } {
+    const rolls: RechargeRoll[] = [];
+    const next = abilities.map((ability) => {
+        if (!ability.expended) return ability;
+        const roll = rollDie(6);
+        const recharged = roll >= ability.rechargeOn;
+        rolls.push({ ability, roll, recharged });
+        return recharged ? { ...ability, expended: false } : ability;
+    });
+    return { abilities: next, rolls };
+}
@@ -0,0 +1,166 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { batchUpdateMeta, readMeta } from "./metadata";
+import type { HistoryTransaction } from "./history";
+import { createEffect } from "./effects";
+import { appendCombatLog } from "./combatLog";
+import { readRoomSettings, DEFAULT_SETTINGS, type ShotClockExpiry } from "./SceneState";
+
+/* =========================
+   Shot clock (scene metadata)
+   =========================
+   A per-turn countdown stored as a start time and a duration, so every client
+   renders the same clock. The turn engine restarts it whenever the active turn
+   changes; one GM client claims each expiry and carries out its action.
+*/
+
+export const SHOT_CLOCK_META_KEY = getPluginId("shotClock");
+/** Which clock (by startedAt) last ran out, and the client handling it */
+const SHOT_CLOCK_EXPIRED_META_KEY = getPluginId("shotClockExpired");
+
+/** How long a claim waits for a competing GM client's write to land */
+const EXPIRY_CLAIM_SETTLE_MS = 500;
+
+/** Seconds left when the countdown turns to a warning */
+export const SHOT_CLOCK_WARNING = 10;
+
+export type ShotClock = {
+    /** Epoch ms the countdown started, moved forward by any time spent paused */
+    startedAt: number;
+    /** Seconds on the clock */
+    duration: number;
+    /** Epoch ms the clock was paused at; null while running */
+    pausedAt: number | null;
+    /** Whose turn is being timed */
+    name: string;
+    tokenIds: string[];
+};
+
+/** The turn a clock is started for. */
+export type TimedTurn = {
+    name: string;
+    tokenIds: string[];
+    playerCharacter: boolean;
+};
+
+function parseClock(raw: unknown): ShotClock | null {
+    if (!raw || typeof raw !== "object") return null;
+    const c = raw as Partial<ShotClock>;
+    if (typeof c.startedAt !== "number" || typeof c.duration !== "number") return null;
+    return {
+        startedAt: c.startedAt,
+        duration: c.duration,
+        pausedAt: typeof c.pausedAt === "number" ? c.pausedAt : null,
+        name: typeof c.name === "string" ? c.name : "",
+        tokenIds: Array.isArray(c.tokenIds) ? c.tokenIds.filter((id): id is string => typeof id === "string") : [],
+    };
+}
+
+export async function readShotClock(): Promise<ShotClock | null> {
+    const meta = await OBR.scene.getMetadata();
+    return parseClock(meta[SHOT_CLOCK_META_KEY]);
+}
+
+export function onShotClockChange(cb: (clock: ShotClock | null) => void) {
+    readShotClock().then(cb);
+    return OBR.scene.onMetadataChange((meta) => cb(parseClock(meta[SHOT_CLOCK_META_KEY])));
+}
+
+/** Seconds left on the clock at `now` (never below zero). */
+export function shotClockRemaining(clock: ShotClock, now: number): number {
+    const elapsed = ((clock.pausedAt ?? now) - clock.startedAt) / 1000;
+    return Math.max(0, clock.duration - elapsed);
+}
+
+/**
+ * Start the clock for a new turn, using the room's PC or NPC duration. No
+ * turn (combat ended, a token-less entry is up) or a duration of "off" stops
+ * it. A paused clock stays paused for the next turn.
+ */
+export async function restartShotClock(turn: TimedTurn | null): Promise<void> {
+    const settings = (await readRoomSettings()) ?? DEFAULT_SETTINGS;
+    const seconds = !turn ? 0
+        : turn.playerCharacter ? settings.shotClockPcSeconds ?? 0
+            : settings.shotClockNpcSeconds ?? 0;
+    const current = await readShotClock();
+
+    if (!turn || seconds <= 0) {
+        if (current) await OBR.scene.setMetadata({ [SHOT_CLOCK_META_KEY]: undefined });
+        return;
+    }
+
+    const now = Date.now();
+    const clock: ShotClock = {
+        startedAt: now,
+        duration: seconds,
+        pausedAt: current?.pausedAt != null ? now : null,
+        name: turn.name,
+        tokenIds: turn.tokenIds,
+    };
+    await OBR.scene.setMetadata({ [SHOT_CLOCK_META_KEY]: clock });
+}
+
+export async function pauseShotClock(): Promise<void> {
+    const clock = await readShotClock();
+    if (!clock || clock.pausedAt !== null) return;
+    await OBR.scene.setMetadata({ [SHOT_CLOCK_META_KEY]: { ...clock, pausedAt: Date.now() } satisfies ShotClock });
+}
+
+export async function resumeShotClock(): Promise<void> {
+    const clock = await readShotClock();
+    if (!clock || clock.pausedAt === null) return;
+    const startedAt = clock.startedAt + (Date.now() - clock.pausedAt);
+    await OBR.scene.setMetadata({ [SHOT_CLOCK_META_KEY]: { ...clock, startedAt, pausedAt: null } satisfies ShotClock });
+}
+
+type ExpiryMarker = { startedAt: number; playerId: string };
+
+const readExpiryMarker = async () =>
+    (await OBR.scene.getMetadata())[SHOT_CLOCK_EXPIRED_META_KEY] as Partial<ExpiryMarker> | undefined;
+
+/**
+ * Claim a clock that ran out for this client. Returns false when the clock
+ * already expired once (another GM window, or this one before a reload) or
+ * has since changed. Two clients claiming together both write the marker;
+ * only the one whose write landed last goes ahead.
+ */
+export async function claimShotClockExpiry(clock: ShotClock): Promise<boolean> {
+    if ((await readExpiryMarker())?.startedAt === clock.startedAt) return false;
+    const current = await readShotClock();
+    if (!current || current.startedAt !== clock.startedAt || current.pausedAt !== null) return false;
+
+    const marker: ExpiryMarker = { startedAt: clock.startedAt, playerId: await OBR.player.getId() };
+    await OBR.scene.setMetadata({ [SHOT_CLOCK_EXPIRED_META_KEY]: marker });
+    await new Promise((resolve) => setTimeout(resolve, EXPIRY_CLAIM_SETTLE_MS));
+
+    const settled = await readExpiryMarker();
+    return settled?.startedAt === marker.startedAt && settled.playerId === marker.playerId;
+}
+
+/**
+ * The clock ran out: announce it, and for "dodge" give the combatant a
+ * Dodging effect that lasts until the start of its next turn. Moving the
+ * turn on is up to the caller, in the same history step `tx` belongs to.
+ */
+export async function expireShotClock(clock: ShotClock, expiry: ShotClockExpiry, tx: HistoryTransaction): Promise<void> {
+    const name = clock.name || "Unnamed";
+
+    if (expiry === "dodge" && clock.tokenIds.length > 0) {
+        const items = await OBR.scene.items.getItems(clock.tokenIds);
+        await batchUpdateMeta(OBR, items.map((item) => ({
+            id: item.id,
+            patch: {
+                effects: [
+                    ...(readMeta(item)?.effects ?? []),
+                    createEffect({ name: "Dodging", source: "Shot clock", rounds: 1, trigger: "startOfTurn" }),
+                ],
+            },
+        })), tx);
+        OBR.notification.show(`Time's up: ${name} takes the Dodge action`, "WARNING");
+        await appendCombatLog([{ kind: "turn", text: `${name} ran out of time and dodges` }]);
+        return;
+    }
+
+    OBR.notification.show(`Time's up for ${name}`, "WARNING");
+    await appendCombatLog([{ kind: "turn", text: `${name} ran out of time` }]);
+}
@@ -0,0 +1,98 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { appendCombatLog, type CombatLogEvent } from "./combatLog";
+import { formatMod, rollInitiative } from "./initiativeRolls";
+import type { InitiativeOrderKey } from "./utils";
+
+/* =========================
+   Side initiative (scene metadata)
+   =========================
+   One roll per side: every PC acts on the players' count, every NPC on the
+   monsters'. Only used when the room's initiative mode is "side".
+*/
+
+export const SIDE_INITIATIVE_META_KEY = getPluginId("sideInitiative");
+
+export type Side = "pcs" | "npcs";
+
+export type SideInitiative = Record<Side, number>;
+
+export const SIDES: Side[] = ["pcs", "npcs"];
+
+export const SIDE_LABELS: Record<Side, string> = {
+    pcs: "Players",
+    npcs: "Monsters",
+};
+
+const EMPTY_SIDES: SideInitiative = { pcs: 0, npcs: 0 };
+
+type SideMember = {
+    playerCharacter?: boolean;
+    initiativeMod?: number;
+};
+
+export function sideOf(item: SideMember): Side {
+    return item.playerCharacter ? "pcs" : "npcs";
+}
+
+/** Sort key for a token under side initiative: its side's count, then name. */
+export function sideOrderKey(item: SideMember & { name?: string | null }, sides: SideInitiative): InitiativeOrderKey {
+    return { initiative: sides[sideOf(item)], name: item.name };
+}
+
+function parseSides(raw: unknown): SideInitiative {
+    if (!raw || typeof raw !== "object") return EMPTY_SIDES;
+    const r = raw as Partial<SideInitiative>;
+    return {
+        pcs: typeof r.pcs === "number" ? r.pcs : 0,
+        npcs: typeof r.npcs === "number" ? r.npcs : 0,
+    };
+}
+
+export async function readSideInitiative(): Promise<SideInitiative> {
+    const meta = await OBR.scene.getMetadata();
+    return parseSides(meta[SIDE_INITIATIVE_META_KEY]);
+}
+
+export function onSideInitiativeChange(cb: (sides: SideInitiative) => void) {
+    readSideInitiative().then(cb);
+    return OBR.scene.onMetadataChange((meta) => cb(parseSides(meta[SIDE_INITIATIVE_META_KEY])));
+}
+
+export async function setSideInitiative(sides: SideInitiative): Promise<void> {
+    await OBR.scene.setMetadata({ [SIDE_INITIATIVE_META_KEY]: sides });
+}
+
+/**
+ * Roll d20 for each side, adding the best initiative modifier on that side.
+ * Ties are rerolled so the sides never share a count. Writes and logs the result.
+ */
+export async function rollSideInitiative(members: Iterable<SideMember>): Promise<SideInitiative> {
+    const modifiers: SideInitiative = { pcs: -Infinity, npcs: -Infinity };
+    for (const member of members) {
+        const side = sideOf(member);
+        modifiers[side] = Math.max(modifiers[side], member.initiativeMod ?? 0);
+    }
+    const modifierFor = (side: Side) => (Number.isFinite(modifiers[side]) ? modifiers[side] : 0);
+
+    let rolls: Record<Side, { total: number; dice: number[] }>;
+    do {
+        rolls = {
+            pcs: rollInitiative(modifierFor("pcs")),
+            npcs: rollInitiative(modifierFor("npcs")),
+        };
+    } while (rolls.pcs.total === rolls.npcs.total);
+
+    const sides: SideInitiative = { pcs: rolls.pcs.total, npcs: rolls.npcs.total };
+    await setSideInitiative(sides);
+
+    const events: CombatLogEvent[] = SIDES.map((side) => ({
+        kind: "initiative",
+        actorId: side,
+        actorName: SIDE_LABELS[side],
+        text: `${SIDE_LABELS[side]} roll initiative: ${rolls[side].total} — d20 (${rolls[side].dice[0]})${formatMod(modifierFor(side))}`,
+    }));
+    await appendCombatLog(events);
+
+    return sides;
+}
@@ -2,6 +2,7 @@
 import OBR from "@owlbear-rodeo/sdk";
 import type { InitiativeItem } from "./InitiativeItem";
 import type { CMToken } from "./tokens";
+import { evaluateMath } from "./dice";
 
 /* =========================
    Grid helpers
@@ -435,35 +436,58 @@ export async function obrDistanceBetweenPointsUnits(
    Sorting / small math utils
    ========================= */
 
+/** Anything that takes a place in the turn order. */
+export type InitiativeOrderKey = {
+    initiative: number;
+    name?: string | null;
+    /** Goes after everything else on the same count (lair actions) */
+    losesTies?: boolean;
+};
+
+/** Turn order comparator shared by the tracker, the turn engine and the player list. */
+export function compareInitiative(a: InitiativeOrderKey, b: InitiativeOrderKey): number {
+    const ai = a.initiative ?? 0;
+    const bi = b.initiative ?? 0;
+
+    const af = Math.floor(ai);
+    const bf = Math.floor(bi);
+
+    if (bf !== af) return bf - af;            // higher integer bucket first
+    if (!!a.losesTies !== !!b.losesTies) return a.losesTies ? 1 : -1;
+    if (ai !== bi) return ai - bi;            // then smaller decimal first
+    return (a.name ?? "").localeCompare(b.name ?? ""); // stable by name
+}
+
 export function sortByInitiativeDesc(list: InitiativeItem[]) {
-    return [...list].sort((a, b) => {
-        const ai = a.initiative ?? 0;
-        const bi = b.initiative ?? 0;
+    return [...list].sort(compareInitiative);
+}
 
-        const af = Math.floor(ai);
-        const bf = Math.floor(bi);
+/**
+ * Pick an initiative value that sorts directly after `prev` and before `next`
+ * (or anywhere below `prev` when `next` is null), following the ordering of
+ * `sortByInitiativeDesc`: higher integer bucket first, then smaller decimal first.
+ */
+export function initiativeBetween(prev: number, next: number | null): number {
+    const bucket = Math.floor(prev);
+    const round2 = (n: number) => Math.round(n * 100) / 100;
+
+    if (next !== null && Math.floor(next) === bucket) {
+        // Same bucket: anything strictly between the two decimals works
+        const mid = round2((prev + next) / 2);
+        return mid > prev && mid < next ? mid : (prev + next) / 2;
+    }
 
-        if (bf !== af) return bf - af;            // higher integer bucket first
-        if (ai !== bi) return ai - bi;            // then smaller decimal first
-        return (a.name ?? "").localeCompare(b.name ?? ""); // stable by name
-    });
+    // Next entry is in a lower bucket (or there is none): stay in prev's bucket
+    const stepped = Math.round((prev + 0.1) * 10) / 10;
+    if (stepped < bucket + 1) return stepped;
+    const mid = round2((prev + bucket + 1) / 2);
+    return mid > prev && mid < bucket + 1 ? mid : (prev + bucket + 1) / 2;
 }
 
 /** Clamp a number between min and max */
 export const clamp = (n: number, min: number, max: number) =>
     Math.min(Math.max(n, min), max);
 
-/** Supports "+5", "-3", "17", "52-4+3" (only + and -). Falls back to base if unparsable. */
-export const evalMathInput = (raw: string, base: number): number => {
-    const s = (raw ?? "").trim();
-    if (!s) return base;
-
-    if (/^[+-]\d+$/.test(s)) return base + Number(s); // relative
-    if (/^\d+$/.test(s)) return Number(s);            // absolute
-
-    if (/^[+-]?\d+(?:[+-]\d+)+$/.test(s)) {           // chain
-        const parts = s.match(/[+-]?\d+/g) ?? [];
-        return parts.reduce((acc, t) => acc + Number(t), 0);
-    }
-    return base;
-};
+/** Supports "+5", "17", "52-4+3", "-2d6+3", "*2", "-(18/2)" (see dice.ts). Falls back to base if unparsable. */
+export const evalMathInput = (raw: string, base: number): number =>
+    evaluateMath(raw, base)?.value ?? base;
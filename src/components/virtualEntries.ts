@@ -0,0 +1,125 @@
+import OBR from "@owlbear-rodeo/sdk";
+import { getPluginId } from "../getPluginId";
+import { withHistory } from "./history";
+
+/* =========================
+   Virtual entries (scene metadata)
+   =========================
+   Turn-order entries with no token on the map: lair actions, environmental
+   hazards and countdowns. They sort into the order like any combatant.
+*/
+
+export const VIRTUAL_ENTRIES_META_KEY = getPluginId("virtualEntries");
+
+export type VirtualEntryKind = "lair" | "hazard" | "countdown";
+
+export type VirtualEntry = {
+    id: string;
+    kind: VirtualEntryKind;
+    name: string;
+    initiative: number;
+    active: boolean;
+    /** Shown in the player list */
+    visible: boolean;
+    /** Goes after everything else on the same count (lair actions) */
+    losesTies?: boolean;
+    /** Countdowns: turns left; ticks down each time its turn comes up */
+    rounds?: number | null;
+    /** Popcorn initiative: has had its turn this round */
+    acted?: boolean;
+};
+
+export const VIRTUAL_KIND_LABELS: Record<VirtualEntryKind, string> = {
+    lair: "Lair Actions",
+    hazard: "Hazard",
+    countdown: "Countdown",
+};
+
+const DEFAULTS: Record<VirtualEntryKind, Partial<VirtualEntry>> = {
+    lair: { initiative: 20, losesTies: true },
+    hazard: { initiative: 10 },
+    countdown: { initiative: 0, rounds: 3 },
+};
+
+function isEntry(v: unknown): v is VirtualEntry {
+    if (!v || typeof v !== "object") return false;
+    const e = v as Record<string, unknown>;
+    return typeof e.id === "string" && typeof e.name === "string" && typeof e.initiative === "number";
+}
+
+function parseEntries(raw: unknown): VirtualEntry[] {
+    return Array.isArray(raw) ? raw.filter(isEntry) : [];
+}
+
+export async function readVirtualEntries(): Promise<VirtualEntry[]> {
+    const meta = await OBR.scene.getMetadata();
+    return parseEntries(meta[VIRTUAL_ENTRIES_META_KEY]);
+}
+
+export function onVirtualEntriesChange(cb: (entries: VirtualEntry[]) => void) {
+    readVirtualEntries().then(cb);
+    return OBR.scene.onMetadataChange((meta) => cb(parseEntries(meta[VIRTUAL_ENTRIES_META_KEY])));
+}
+
+/** Raw write; callers outside the turn engine go through the helpers below (one undo step each). */
+export async function writeVirtualEntries(entries: VirtualEntry[]): Promise<void> {
+    await OBR.scene.setMetadata({ [VIRTUAL_ENTRIES_META_KEY]: entries });
+}
+
+async function updateEntries(label: string, update: (entries: VirtualEntry[]) => VirtualEntry[]): Promise<void> {
+    await withHistory(label, async () => {
+        const entries = await readVirtualEntries();
+        await writeVirtualEntries(update(entries));
+    });
+}
+
+export async function addVirtualEntry(kind: VirtualEntryKind): Promise<VirtualEntry> {
+    const entry: VirtualEntry = {
+        id: `virtual-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        kind,
+        name: VIRTUAL_KIND_LABELS[kind],
+        initiative: 0,
+        active: false,
+        visible: true,
+        ...DEFAULTS[kind],
+    };
+    await updateEntries(`Add ${entry.name}`, (entries) => [...entries, entry]);
+    return entry;
+}
+
+export async function updateVirtualEntry(id: string, patch: Partial<Omit<VirtualEntry, "id">>): Promise<void> {
+    await updateEntries("Edit entry", (entries) => entries.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+}
+
+export async function removeVirtualEntry(id: string): Promise<void> {
+    const name = (await readVirtualEntries()).find((e) => e.id === id)?.name ?? "entry";
+    await updateEntries(`Remove ${name}`, (entries) => entries.filter((e) => e.id !== id));
+}
+
+/** Mark which entry holds the turn (none when a token does). Skips the write when nothing changes. */
+export async function setVirtualActive(activeId: string | null): Promise<void> {
+    const entries = await readVirtualEntries();
+    if (!entries.some((e) => e.active !== (e.id === activeId))) return;
+    await writeVirtualEntries(entries.map((e) => ({ ...e, active: e.id === activeId })));
+}
+
+/** Popcorn initiative: set which entries have had their turn this round. */
+export async function setVirtualActed(acted: (entry: VirtualEntry) => boolean): Promise<void> {
+    const entries = await readVirtualEntries();
+    if (!entries.some((e) => !!e.acted !== acted(e))) return;
+    await writeVirtualEntries(entries.map((e) => ({ ...e, acted: acted(e) })));
+}
+
+/**
+ * A countdown's turn came up: tick it down. Returns the updated entry when it
+ * just reached zero, so the caller can announce it.
+ */
+export async function tickCountdown(id: string): Promise<VirtualEntry | null> {
+    const entries = await readVirtualEntries();
+    const entry = entries.find((e) => e.id === id);
+    if (!entry || entry.kind !== "countdown" || !entry.rounds || entry.rounds <= 0) return null;
+
+    const next = { ...entry, rounds: entry.rounds - 1 };
+    await writeVirtualEntries(entries.map((e) => (e.id === id ? next : e)));
+    return next.rounds === 0 ? next : null;
+}
@@ -17,6 +17,8 @@ import { PluginThemeProvider } from "./PluginThemeProvider";
 import { getPluginId } from "./getPluginId";
 import { createMetaForItem, updateTokenVisibility, type MetaShape } from "./components/metadata";
 import { createGroup, getGroups, readRoomSettings, type Group } from "./components/SceneState";
+import { appendCombatLog, rosterEvents } from "./components/combatLog";
+import { withHistory } from "./components/history";
 import "./styles/index.css";
 
 const META_KEY = getPluginId("metadata");
@@ -61,7 +63,7 @@ function GroupModal() {
         groupInitiative: number,
         staged: boolean,
     ) => {
-        await OBR.scene.items.updateItems(tokenIds, (items: any[]) => {
+        await withHistory(`Add to ${groupName}`, (tx) => tx.updateItems(tokenIds, (items: any[]) => {
             for (const it of items) {
                 const hadMeta = !!(it.metadata as any)[META_KEY];
                 const meta: MetaShape = hadMeta
@@ -77,7 +79,7 @@ function GroupModal() {
 
                 (it.metadata as any)[META_KEY] = meta;
             }
-        });
+        }));
         for (const id of tokenIds) {
             await OBR.broadcast.sendMessage(
                 "com.missing-link-dev.battle-board/item-added",
@@ -85,6 +87,8 @@ function GroupModal() {
                 { destination: "LOCAL" },
             );
         }
+        const added = await OBR.scene.items.getItems(tokenIds);
+        await appendCombatLog(rosterEvents("added", added, ` with ${groupName}`));
 
         // Handle visibility if setting is enabled and group is staged
         if (staged) {
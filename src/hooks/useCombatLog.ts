@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+import { onCombatLogChange, type CombatLogEntry } from "../components/combatLog";
+
+/**
+ * Subscribe to the scene's combat log.
+ */
+export function useCombatLog(enabled: boolean = true) {
+    const [log, setLog] = useState<CombatLogEntry[]>([]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        return onCombatLogChange(setLog);
+    }, [enabled]);
+
+    return log;
+}
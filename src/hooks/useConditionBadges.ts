@@ -0,0 +1,100 @@
+import { useEffect, useRef } from "react";
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import {
+    ensureConditionBadge,
+    clearAllConditionBadges,
+    cleanupOrphanedBadges,
+    isConditionBadge,
+} from "../components/conditionBadges";
+import { readMeta } from "../components/metadata";
+
+function conditionsFor(item: Item): string[] {
+    const meta = readMeta(item);
+    return meta && meta.inInitiative !== false ? meta.conditions ?? [] : [];
+}
+
+/** Everything that affects how a token's badge looks. */
+function badgeSignature(item: Item): string {
+    const conditions = conditionsFor(item);
+    if (conditions.length === 0) return "";
+    return `${conditions.join("|")}:${item.visible !== false}`;
+}
+
+const isToken = (item: Item) =>
+    isImage(item) && (item.layer === "CHARACTER" || item.layer === "MOUNT");
+
+/**
+ * Keep condition badges on the map in sync with token metadata.
+ * Only one client should drive this (the GM), since badges are shared scene items.
+ */
+export function useConditionBadges(enabled: boolean, showConditions: boolean) {
+    const rafIdRef = useRef<number | null>(null);
+    const signatureRef = useRef<Map<string, string>>(new Map());
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const signatures = signatureRef.current;
+        let unsubscribe: (() => void) | null = null;
+        let cancelled = false;
+
+        if (!showConditions) {
+            signatures.clear();
+            clearAllConditionBadges().catch((error) =>
+                console.error("Error clearing condition badges:", error)
+            );
+            return;
+        }
+
+        const init = async () => {
+            try {
+                await cleanupOrphanedBadges();
+
+                const tokens = await OBR.scene.items.getItems(isToken);
+                for (const token of tokens) {
+                    const signature = badgeSignature(token);
+                    signatures.set(token.id, signature);
+                    await ensureConditionBadge(token, conditionsFor(token));
+                }
+                if (cancelled) return;
+
+                unsubscribe = OBR.scene.items.onChange((items: Item[]) => {
+                    const changed = items.filter((item) => {
+                        if (isConditionBadge(item) || !isToken(item)) return false;
+                        return badgeSignature(item) !== (signatures.get(item.id) ?? "");
+                    });
+                    if (changed.length === 0) return;
+
+                    if (rafIdRef.current !== null) {
+                        cancelAnimationFrame(rafIdRef.current);
+                    }
+
+                    rafIdRef.current = requestAnimationFrame(async () => {
+                        rafIdRef.current = null;
+                        try {
+                            for (const item of changed) {
+                                signatures.set(item.id, badgeSignature(item));
+                                await ensureConditionBadge(item, conditionsFor(item));
+                            }
+                        } catch (error) {
+                            console.error("Error updating condition badges:", error);
+                        }
+                    });
+                });
+            } catch (error) {
+                console.error("Error initializing condition badges:", error);
+            }
+        };
+
+        init();
+
+        return () => {
+            cancelled = true;
+            if (rafIdRef.current !== null) {
+                cancelAnimationFrame(rafIdRef.current);
+                rafIdRef.current = null;
+            }
+            unsubscribe?.();
+        };
+    }, [enabled, showConditions]);
+}
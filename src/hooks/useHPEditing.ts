@@ -1,13 +1,55 @@
 import { useState } from "react";
 import type { InitiativeItem } from "../components/InitiativeItem";
-import OBR from "@owlbear-rodeo/sdk";
+import { appendCombatLog, hpChangeEvents } from "../components/combatLog";
+import { describeMath, type MathResult } from "../components/dice";
+import { adjustDamage, describeAdjustment, type DamageAdjustment } from "../components/damage";
+import { requestConcentrationChecks } from "../components/concentration";
+import { EMPTY_DEATH_SAVES, deathSavesAfterHPChange, describeDeathSaveChange } from "../components/deathSaves";
+
+type EditingField = "cur" | "max" | "temp" | "ac";
 
 export function useHPEditing(
     row: InitiativeItem,
     started: boolean,
     onChange: (patch: Partial<InitiativeItem>) => void
 ) {
-    const [editingField, setEditingField] = useState<null | "cur" | "max" | "temp" | "ac">(null);
+    const [editingField, setEditingField] = useState<null | EditingField>(null);
+    // Breakdown of the last rolled/calculated entry, shown as a tooltip on that field
+    const [lastRoll, setLastRoll] = useState<{ field: EditingField; text: string } | null>(null);
+
+    // Record HP changes in the combat log
+    const logHP = (next: { currentHP?: number; tempHP?: number }, detail?: string | null) => {
+        const before = { currentHP: row.currentHP, tempHP: row.tempHP || 0 };
+        const after = {
+            currentHP: next.currentHP ?? before.currentHP,
+            tempHP: next.tempHP ?? before.tempHP,
+        };
+        appendCombatLog(hpChangeEvents(row, before, after, detail));
+    };
+
+    // Death saves follow HP: damage at 0 adds failures (two on a crit), healing clears them
+    const withDeathSaves = <P extends { currentHP: number }>(patch: P, hpDamage: number, critical = false): P => {
+        const deathSaves = deathSavesAfterHPChange(row, patch.currentHP, hpDamage, critical);
+        if (!deathSaves) return patch;
+        const name = row.name || "Unnamed";
+        const text = describeDeathSaveChange(name, row.deathSaves ?? EMPTY_DEATH_SAVES, deathSaves);
+        if (text) appendCombatLog([{ kind: "deathSave", actorId: row.id, actorName: name, text }]);
+        return { ...patch, deathSaves };
+    };
+
+    const noteRoll = (field: EditingField, text: string | null) => {
+        setLastRoll(text ? { field, text } : null);
+        return text;
+    };
+
+    // Typed damage ("-14 fire") adjusted for the combatant's resistances etc.
+    const typedDamage = (roll?: MathResult): DamageAdjustment | null => {
+        if (!roll?.damageType) return null;
+        const raw = roll.op === "-" ? roll.amount : row.currentHP - roll.value;
+        return raw > 0 ? adjustDamage(raw, roll.damageType, row) : null;
+    };
+
+    const rollBreakdown = (field: EditingField) => (lastRoll?.field === field ? lastRoll.text : null);
 
     const commitAc = (v: number) => {
         const next = Math.max(0, v);
@@ -15,9 +57,33 @@ export function useHPEditing(
         setEditingField(null);
     };
 
-    const commitCurrentHP = (val: number) => {
-        const clampedVal = Math.max(0, Math.min(val, row.maxHP));
-        const damage = row.currentHP - clampedVal;
+    const commitCurrentHP = (val: number, roll?: MathResult) => {
+        // Defenses apply before temp HP absorbs anything and before the concentration DC
+        const adjustment = typedDamage(roll);
+        const critical = !!roll?.critical;
+        const notes = [
+            describeMath(roll),
+            adjustment ? describeAdjustment(adjustment) : null,
+            critical ? "critical hit" : null,
+        ].filter(Boolean);
+        const detail = noteRoll("cur", notes.length ? notes.join("; ") : null);
+        const requested = adjustment ? row.currentHP - adjustment.amount : val;
+        const clampedVal = Math.max(0, Math.min(requested, row.maxHP));
+        // Relative input ("-8") keeps the full amount, so damage past 0 HP still counts
+        const damage = adjustment ? adjustment.amount
+            : roll?.op === "-" ? Math.max(0, roll.amount)
+                : row.currentHP - clampedVal;
+
+        if (adjustment?.modifier === "immune") {
+            const name = row.name || "Unnamed";
+            appendCombatLog([{
+                kind: "damage",
+                actorId: row.id,
+                actorName: name,
+                amount: 0,
+                text: `${name} is immune to ${adjustment.type} damage (${adjustment.raw} ignored)`,
+            }]);
+        }
 
         if (damage > 0 && row.tempHP > 0) {
             // Taking damage with temp HP available - absorb with temp HP first
@@ -25,40 +91,33 @@ export function useHPEditing(
             const remainingDamage = damage - tempHPAbsorbed;
             const newCurrentHP = row.currentHP - remainingDamage;
 
-            onChange({
+            const patch = withDeathSaves({
                 tempHP: row.tempHP - tempHPAbsorbed,
                 currentHP: Math.max(0, newCurrentHP)
-            });
+            }, remainingDamage, critical);
+            onChange(patch);
+            logHP(patch, detail);
 
             // Check for concentration
             if (damage > 0 && row.concentrating) {
-                const dc = Math.max(10, Math.floor(damage / 2));
-                OBR.broadcast.sendMessage("com.battleboard.concentration", {
-                    type: "CHECK_NEEDED",
-                    tokenId: row.id,
-                    tokenName: row.name,
-                    dc
-                }, { destination: "ALL" });
+                requestConcentrationChecks([{ tokenId: row.id, tokenName: row.name, damage }]);
             }
         } else {
             // No damage, or no temp HP, or healing
-            onChange({ currentHP: clampedVal });
+            const patch = withDeathSaves({ currentHP: clampedVal }, Math.max(0, damage), critical);
+            onChange(patch);
+            logHP(patch, detail);
 
             // Check for concentration if taking damage
             if (damage > 0 && row.concentrating) {
-                const dc = Math.max(10, Math.floor(damage / 2));
-                OBR.broadcast.sendMessage("com.battleboard.concentration", {
-                    type: "CHECK_NEEDED",
-                    tokenId: row.id,
-                    tokenName: row.name,
-                    dc
-                }, { destination: "ALL" });
+                requestConcentrationChecks([{ tokenId: row.id, tokenName: row.name, damage }]);
             }
         }
         setEditingField(null);
     };
 
-    const commitTempHP = (val: number) => {
+    const commitTempHP = (val: number, roll?: MathResult) => {
+        const detail = noteRoll("temp", describeMath(roll));
         const clampedVal = Math.max(0, val);
 
         if (val < row.tempHP) {
@@ -68,18 +127,22 @@ export function useHPEditing(
             const overflow = Math.max(0, requestedDamage - row.tempHP);
             const newCurrentHP = Math.max(0, row.currentHP - overflow);
 
-            onChange({
+            const patch = withDeathSaves({
                 tempHP: row.tempHP - tempHPAbsorbed,
                 currentHP: newCurrentHP
-            });
+            }, overflow);
+            onChange(patch);
+            logHP(patch, detail);
         } else {
             // Adding temp HP or no change
             onChange({ tempHP: clampedVal });
+            logHP({ tempHP: clampedVal }, detail);
         }
         setEditingField(null);
     };
 
-    const applyMaxChange = (nextMaxRaw: number) => {
+    const applyMaxChange = (nextMaxRaw: number, roll?: MathResult) => {
+        noteRoll("max", describeMath(roll));
         const m = Math.max(0, nextMaxRaw);
         const prevMax = row.maxHP;
         let nextCur = row.currentHP;
@@ -106,5 +169,6 @@ export function useHPEditing(
         commitCurrentHP,
         commitTempHP,
         applyMaxChange,
+        rollBreakdown,
     };
 }
\ No newline at end of file
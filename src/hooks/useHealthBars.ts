@@ -0,0 +1,136 @@
+import { useEffect, useRef } from "react";
+import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
+import {
+    ensureHealthBar,
+    clearAllHealthBars,
+    cleanupOrphanedHealthBars,
+    isHealthBar,
+    type HealthBarView,
+} from "../components/healthBars";
+import { readMeta, type MetaShape } from "../components/metadata";
+import type { InitiativeSettings } from "../components/SceneState";
+import type { HealthMode } from "./useHealthLogic";
+
+type Views = { shared: HealthBarView; local: HealthBarView };
+type BarSettings = Pick<InitiativeSettings, "displayHealthStatusToPlayer" | "pcHealthMode" | "npcHealthMode">;
+
+/**
+ * Players see what pcHealthMode / npcHealthMode allow (bar for "numbers", pip for "status").
+ * The GM gets a local bar wherever the shared one doesn't already show the numbers.
+ */
+function viewsFor(meta: MetaShape | null, settings: BarSettings): Views {
+    if (!meta || meta.inInitiative === false || !(meta.maxHP > 0)) return { shared: null, local: null };
+
+    const mode: HealthMode = !settings.displayHealthStatusToPlayer
+        ? "none"
+        : meta.playerCharacter
+            ? settings.pcHealthMode ?? "numbers"
+            : settings.npcHealthMode ?? "status";
+
+    const shared: HealthBarView = mode === "numbers" ? "bar" : mode === "status" ? "pip" : null;
+    return { shared, local: shared === "bar" ? null : "bar" };
+}
+
+/** Everything that affects how a token's bars look. */
+function barSignature(item: Item, settings: BarSettings): string {
+    const meta = readMeta(item);
+    const views = viewsFor(meta, settings);
+    if (!meta || (!views.shared && !views.local)) return "";
+    const size = isImage(item) ? `${item.image.width}x${item.image.height}@${item.scale.x},${item.scale.y}` : "";
+    return [views.shared, views.local, meta.currentHP, meta.maxHP, meta.tempHP, item.visible !== false, size].join("|");
+}
+
+async function syncToken(item: Item, settings: BarSettings) {
+    const meta = readMeta(item);
+    const views = viewsFor(meta, settings);
+    const hp = { currentHP: meta?.currentHP ?? 0, maxHP: meta?.maxHP ?? 0, tempHP: meta?.tempHP ?? 0 };
+    await ensureHealthBar(item, "shared", views.shared, hp);
+    await ensureHealthBar(item, "local", views.local, hp);
+}
+
+const isToken = (item: Item) =>
+    isImage(item) && (item.layer === "CHARACTER" || item.layer === "MOUNT");
+
+/**
+ * Keep token health bars in sync with token metadata.
+ * Driven by the GM client: shared bars are scene items, local bars are this GM's own.
+ */
+export function useHealthBars(enabled: boolean, settings: InitiativeSettings) {
+    const rafIdRef = useRef<number | null>(null);
+    const signatureRef = useRef<Map<string, string>>(new Map());
+
+    const {
+        showHealthBars,
+        displayHealthStatusToPlayer,
+        pcHealthMode,
+        npcHealthMode,
+    } = settings;
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const signatures = signatureRef.current;
+        const barSettings: BarSettings = { displayHealthStatusToPlayer, pcHealthMode, npcHealthMode };
+        let unsubscribe: (() => void) | null = null;
+        let cancelled = false;
+
+        signatures.clear();
+
+        if (!showHealthBars) {
+            clearAllHealthBars().catch((error) =>
+                console.error("Error clearing health bars:", error)
+            );
+            return;
+        }
+
+        const init = async () => {
+            try {
+                await cleanupOrphanedHealthBars();
+
+                const tokens = await OBR.scene.items.getItems(isToken);
+                for (const token of tokens) {
+                    signatures.set(token.id, barSignature(token, barSettings));
+                    await syncToken(token, barSettings);
+                }
+                if (cancelled) return;
+
+                unsubscribe = OBR.scene.items.onChange((items: Item[]) => {
+                    const changed = items.filter((item) => {
+                        if (isHealthBar(item) || !isToken(item)) return false;
+                        return barSignature(item, barSettings) !== (signatures.get(item.id) ?? "");
+                    });
+                    if (changed.length === 0) return;
+
+                    if (rafIdRef.current !== null) {
+                        cancelAnimationFrame(rafIdRef.current);
+                    }
+
+                    rafIdRef.current = requestAnimationFrame(async () => {
+                        rafIdRef.current = null;
+                        try {
+                            for (const item of changed) {
+                                signatures.set(item.id, barSignature(item, barSettings));
+                                await syncToken(item, barSettings);
+                            }
+                        } catch (error) {
+                            console.error("Error updating health bars:", error);
+                        }
+                    });
+                });
+            } catch (error) {
+                console.error("Error initializing health bars:", error);
+            }
+        };
+
+        init();
+
+        return () => {
+            cancelled = true;
+            if (rafIdRef.current !== null) {
+                cancelAnimationFrame(rafIdRef.current);
+                rafIdRef.current = null;
+            }
+            unsubscribe?.();
+        };
+    }, [enabled, showHealthBars, displayHealthStatusToPlayer, pcHealthMode, npcHealthMode]);
+}
@@ -1,6 +1,7 @@
 import { useMemo } from "react";
 import type { InitiativeItem } from "../components/InitiativeItem";
 import type { InitiativeSettings } from "../components/SceneState";
+import { deathSaveState } from "../components/deathSaves";
 
 export type HealthMode = "none" | "status" | "numbers";
 export type HealthInfo = {
@@ -27,8 +28,9 @@ export function useHealthLogic(settings: InitiativeSettings) {
             const mode = isPC ? pcMode : npcMode;
             const isBloodied = row.maxHP > 0 ? row.currentHP < row.maxHP / 2 : false;
             const isDead = row.currentHP === 0;
+            const pcState = deathSaveState(row.deathSaves);
             const statusText = isDead
-                ? (row.playerCharacter ? "Dying" : "Dead")
+                ? (row.playerCharacter ? (pcState === "dying" ? "Dying" : pcState === "dead" ? "Dead" : "Stable") : "Dead")
                 : (isBloodied ? "Bloodied" : "Healthy");
 
             return {
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import OBR from "@owlbear-rodeo/sdk";
+import { clearHistory, onHistoryChange, redo, shareHistory, undo, type HistoryState } from "../components/history";
+
+const isTextInput = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    if (!el) return false;
+    const tag = el.tagName;
+    return tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT" || el.isContentEditable;
+};
+
+/**
+ * Undo/redo for the GM view, shared with the other GM clients: labels for the toolbar buttons plus
+ * Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) shortcuts.
+ */
+export function useHistory(enabled: boolean) {
+    const [history, setHistory] = useState<HistoryState>({ undo: [], redo: [] });
+    const busyRef = useRef(false);
+
+    useEffect(() => {
+        if (!enabled) return;
+        const offHistory = onHistoryChange(setHistory);
+        const offShare = shareHistory();
+        // Recorded ids belong to the scene they were made in
+        const offScene = OBR.scene.onReadyChange(() => clearHistory());
+        return () => {
+            offHistory();
+            offShare();
+            offScene();
+        };
+    }, [enabled]);
+
+    const run = useCallback(async (action: () => Promise<string | null>, verb: string) => {
+        if (busyRef.current) return;
+        busyRef.current = true;
+        try {
+            const label = await action();
+            if (label) OBR.notification.show(`${verb} ${label}`, "DEFAULT");
+        } catch (error) {
+            console.error(`${verb} failed:`, error);
+        } finally {
+            busyRef.current = false;
+        }
+    }, []);
+
+    const handleUndo = useCallback(() => run(undo, "Undid:"), [run]);
+    const handleRedo = useCallback(() => run(redo, "Redid:"), [run]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [enabled, handleUndo, handleRedo]);
+
+    const lastUndo = history.undo[history.undo.length - 1];
+    const lastRedo = history.redo[history.redo.length - 1];
+
+    return {
+        undoLabel: lastUndo?.label ?? null,
+        redoLabel: lastRedo?.label ?? null,
+        onUndo: handleUndo,
+        onRedo: handleRedo,
+    };
+}
@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react";
+import { onInitiativePassChange } from "../components/passes";
+
+/** Current initiative pass (synced through scene metadata). */
+export function useInitiativePass() {
+    const [pass, setPass] = useState(1);
+
+    useEffect(() => onInitiativePassChange(setPass), []);
+
+    return pass;
+}
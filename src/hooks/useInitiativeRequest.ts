@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react";
+import { onInitiativeRequestChange, type InitiativeRequest } from "../components/initiativeRequest";
+
+/** The open player initiative request, if any (synced through scene metadata). */
+export function useInitiativeRequest() {
+    const [request, setRequest] = useState<InitiativeRequest | null>(null);
+
+    useEffect(() => onInitiativeRequestChange(setRequest), []);
+
+    return request;
+}
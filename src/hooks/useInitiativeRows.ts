@@ -3,6 +3,7 @@ import OBR, { isImage, type Item } from "@owlbear-rodeo/sdk";
 import { batchUpdateMeta, type MetaShape } from "../components/metadata";
 import { initiativeFromItem, metaPatchFromRowDiff, type InitiativeItem } from "../components/InitiativeItem";
 import { sortByInitiativeDesc } from "../components/utils";
+import { withHistory } from "../components/history";
 
 export function useInitiativeRows() {
     const [rows, setRows] = useState<InitiativeItem[]>([]);
@@ -81,6 +82,7 @@ export function useInitiativeRows() {
             const prevById = new Map(prevSnapshot.map((r) => [r.id, r]));
 
             const patches: { id: string; patch: Partial<MetaShape> }[] = [];
+            const names: string[] = [];
             let initiativeChanged = false;
 
             for (const now of currentSnapshot) {
@@ -88,7 +90,10 @@ export function useInitiativeRows() {
                 if (!before) continue;
                 const patch = metaPatchFromRowDiff(before, now);
                 if ("initiative" in patch) initiativeChanged = true;
-                if (Object.keys(patch).length) patches.push({ id: now.id, patch });
+                if (Object.keys(patch).length) {
+                    patches.push({ id: now.id, patch });
+                    names.push(now.name || "Unnamed");
+                }
             }
 
             // Check if we're still current before applying patches
@@ -96,8 +101,10 @@ export function useInitiativeRows() {
                 return; // Abort, newer edit has started
             }
 
+            // Edits made in the GM's tracker are undoable, one step per write
             if (patches.length) {
-                await batchUpdateMeta(OBR, patches);
+                const label = names.length === 1 ? `Edit ${names[0]}` : `Edit ${names.length} combatants`;
+                await withHistory(label, (tx) => batchUpdateMeta(OBR, patches, tx));
             }
 
             if (initiativeChanged) {
@@ -2,7 +2,12 @@ import { useCallback, useMemo } from "react";
 import { useInitiativeRows } from "./useInitiativeRows";
 import { useSceneStateSync } from "./useSceneStateSync";
 import { useCMTokens } from "../components/useCMTokens";
+import { useSideInitiative } from "./useSideInitiative";
+import { useInitiativePass } from "./useInitiativePass";
 import type { InitiativeItem } from "../components/InitiativeItem";
+import { compareInitiative } from "../components/utils";
+import { sideOrderKey } from "../components/sides";
+import { cardOrderKey } from "../components/cards";
 
 /**
  * Centralized state management for the entire initiative system
@@ -11,6 +16,20 @@ export function useInitiativeState() {
     const { rows, setRows, sortedRows, expandedIds, toggleExpanded, initiativeItemIds, localEditRef } = useInitiativeRows();
     const { started, setStarted, round, setRound, settings, setSettings, saveSceneState, groups } = useSceneStateSync();
     const cmTokens = useCMTokens();
+    const sideRolls = useSideInitiative();
+    const passNumber = useInitiativePass();
+
+    // Side initiative: rows follow their side's roll (null in the standard mode)
+    const sides = settings.initiativeMode === "side" ? sideRolls : null;
+    // Card initiative: rows follow their dealt cards
+    const cards = settings.initiativeMode === "cards";
+    // Initiative passes: the pass the round is in (null in other modes)
+    const pass = settings.initiativeMode === "passes" ? passNumber : null;
+    const orderedRows = useMemo(() => {
+        if (sides) return [...sortedRows].sort((a, b) => compareInitiative(sideOrderKey(a, sides), sideOrderKey(b, sides)));
+        if (cards) return [...sortedRows].sort((a, b) => compareInitiative(cardOrderKey(a), cardOrderKey(b)));
+        return sortedRows;
+    }, [sortedRows, sides, cards]);
 
     // Memoized derived state
     const activeItem = useMemo(() =>
@@ -23,7 +42,7 @@ export function useInitiativeState() {
         // Create a map of group ID to group for quick lookups
         const groupsById = new Map(groups.map(g => [g.id, g]));
 
-        return sortedRows.filter(r => {
+        return orderedRows.filter(r => {
             // Filter out invisible rows
             if (r.visible === false) return false;
 
@@ -38,7 +57,7 @@ export function useInitiativeState() {
             // Row is visible and either ungrouped or in an active group
             return true;
         });
-    }, [sortedRows, groups]); // IMPORTANT: Use sortedRows instead of rows
+    }, [orderedRows, groups]); // IMPORTANT: Use the sorted rows instead of rows
 
     const initiativeTokens = useMemo(() =>
         cmTokens.filter(t => initiativeItemIds.has(t.id)),
@@ -76,6 +95,8 @@ export function useInitiativeState() {
         toggleExpanded,
         localEditRef,
         groups,
+        sides,
+        pass,
         // Derived state
         sortedRows,
         activeItem,
@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import { claimPopcornHandoff, clearPopcornHandoff, onPopcornHandoffChange } from "../components/popcorn";
+
+/**
+ * GM side of popcorn initiative: run handoffs players request from their list.
+ * A null target means everyone has acted, so the turn engine just moves on.
+ * Every GM client sees each request; the one that claims it acts.
+ */
+export function usePopcornHandoffs(
+    enabled: boolean,
+    onHandoff: (targetId: string) => Promise<void>,
+    onNext: () => Promise<void>,
+) {
+    const handlersRef = useRef({ onHandoff, onNext });
+    const busyRef = useRef(false);
+
+    useEffect(() => {
+        handlersRef.current = { onHandoff, onNext };
+    }, [onHandoff, onNext]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        return onPopcornHandoffChange(async (handoff) => {
+            if (!handoff || busyRef.current) return;
+            busyRef.current = true;
+            try {
+                if (!(await claimPopcornHandoff(handoff))) return;
+                await clearPopcornHandoff();
+                const { onHandoff, onNext } = handlersRef.current;
+                await (handoff.targetId ? onHandoff(handoff.targetId) : onNext());
+            } catch (error) {
+                console.error("Failed to hand off turn:", error);
+            } finally {
+                busyRef.current = false;
+            }
+        });
+    }, [enabled]);
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import { onShotClockChange, shotClockRemaining, type ShotClock } from "../components/shotClock";
+
+/** The shot clock (synced through scene metadata) and the seconds left on it, ticking while it runs. */
+export function useShotClock() {
+    const [clock, setClock] = useState<ShotClock | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => onShotClockChange(setClock), []);
+
+    useEffect(() => {
+        setNow(Date.now());
+        if (!clock || clock.pausedAt !== null) return;
+        const timer = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(timer);
+    }, [clock]);
+
+    return { clock, remaining: clock ? shotClockRemaining(clock, now) : 0 };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+import { claimShotClockExpiry, expireShotClock, shotClockRemaining, type ShotClock } from "../components/shotClock";
+import type { ShotClockExpiry } from "../components/SceneState";
+import { withHistory, type HistoryTransaction } from "../components/history";
+
+/**
+ * GM side of the shot clock: when it runs out, carry out the room's expiry
+ * action, moving the turn on unless it only announces. Every GM client runs
+ * the timer; the one that claims the expiry acts, once per clock.
+ */
+export function useShotClockExpiry(
+    enabled: boolean,
+    clock: ShotClock | null,
+    expiry: ShotClockExpiry,
+    onNext: (parent?: HistoryTransaction) => Promise<void>,
+) {
+    const onNextRef = useRef(onNext);
+
+    useEffect(() => {
+        onNextRef.current = onNext;
+    }, [onNext]);
+
+    useEffect(() => {
+        if (!enabled || !clock || clock.pausedAt !== null) return;
+        const timer = setTimeout(async () => {
+            try {
+                if (!(await claimShotClockExpiry(clock))) return;
+                // The dodge and the turn change undo together
+                await withHistory(`Time's up for ${clock.name || "Unnamed"}`, async (tx) => {
+                    await expireShotClock(clock, expiry, tx);
+                    if (expiry !== "notify") await onNextRef.current(tx);
+                });
+            } catch (error) {
+                console.error("Failed to expire shot clock:", error);
+            }
+        }, shotClockRemaining(clock, Date.now()) * 1000);
+        return () => clearTimeout(timer);
+    }, [enabled, clock, expiry]);
+}
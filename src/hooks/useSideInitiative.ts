@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react";
+import { onSideInitiativeChange, type SideInitiative } from "../components/sides";
+
+/** Current side initiative rolls (synced through scene metadata). */
+export function useSideInitiative() {
+    const [sides, setSides] = useState<SideInitiative | null>(null);
+
+    useEffect(() => onSideInitiativeChange(setSides), []);
+
+    return sides;
+}
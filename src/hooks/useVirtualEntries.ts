@@ -0,0 +1,11 @@
+import { useEffect, useState } from "react";
+import { onVirtualEntriesChange, type VirtualEntry } from "../components/virtualEntries";
+
+/** Lair actions, hazards and countdowns in the turn order (synced through scene metadata). */
+export function useVirtualEntries() {
+    const [entries, setEntries] = useState<VirtualEntry[]>([]);
+
+    useEffect(() => onVirtualEntriesChange(setEntries), []);
+
+    return entries;
+}